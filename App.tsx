@@ -1,10 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { Toaster, toast } from 'react-hot-toast';
-import { User, Role } from './types';
+import { User } from './types';
 import Auth from './components/Auth';
 import UserDashboard from './components/UserDashboard';
 import AdminDashboard from './components/AdminDashboard';
 import LeaveHistory from './components/LeaveHistory';
+import { NotificationCenter } from './components/NotificationCenter';
+import { useOfflineQueueSync } from './hooks/useOfflineQueue';
+import { usePermissions } from './hooks/usePermissions';
 import { SunIcon, MoonIcon } from './components/icons';
 import { Button } from './components/ui';
 import { IoIosLogOut } from 'react-icons/io';
@@ -15,10 +18,26 @@ const ThemeToggle: React.FC<{ theme: string; toggleTheme: () => void }> = ({ the
   </Button>
 );
 
+// Lives inside the header so the queue is only synced while someone is logged in
+const OfflineStatus: React.FC<{ userId: string }> = ({ userId }) => {
+  const { isOnline, queue } = useOfflineQueueSync(userId);
+  if (isOnline && queue.length === 0) return null;
+
+  return (
+    <span
+      className="text-xs bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300 px-2 py-0.5 rounded-full"
+      title={queue.map(item => item.label).join('\n')}>
+      {isOnline ? 'Syncing' : 'Offline'}
+      {queue.length > 0 && ` · ${queue.length} queued`}
+    </span>
+  );
+};
+
 const App: React.FC = () => {
   const [theme, setTheme] = useState(localStorage.getItem('theme') || 'light');
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [route, setRoute] = useState(window.location.hash);
+  const permissions = usePermissions(currentUser);
 
   useEffect(() => {
     try {
@@ -70,6 +89,10 @@ const App: React.FC = () => {
     }
     setCurrentUser(null);
     localStorage.removeItem('currentUser');
+    // Cached API responses belong to this user; don't leave them for the next one
+    if ('caches' in window) {
+      caches.delete('offday-api-v1').catch(() => { });
+    }
     window.location.hash = '';
     toast('You have been logged out.');
   };
@@ -79,10 +102,11 @@ const App: React.FC = () => {
       return <Auth onLogin={handleLogin} />;
     }
 
-    const hasExtraPermissions = currentUser.allowedTabs && currentUser.allowedTabs.length > 0;
-
     let dashboardContent;
-    if (currentUser.role === Role.ADMIN || hasExtraPermissions) {
+    if (permissions.isLoading) {
+      // Role-based permissions need the config before we know which dashboard to show
+      dashboardContent = <div className="flex justify-center items-center h-64 text-muted-foreground">Loading...</div>;
+    } else if (permissions.isAdmin || permissions.hasAnyPermission) {
       dashboardContent = <AdminDashboard user={currentUser} />;
     } else {
       if (route === '#/history') {
@@ -99,9 +123,11 @@ const App: React.FC = () => {
             <div className="flex items-center gap-2">
               <span className="font-bold text-lg">OffDay</span>
               <span className="text-sm bg-primary/10 text-primary px-2 py-0.5 rounded-full">{currentUser.name}</span>
+              <OfflineStatus userId={currentUser.id} />
             </div>
             <div className="flex items-center gap-4">
               <span className="hidden sm:inline">Welcome, {currentUser.name}</span>
+              <NotificationCenter />
               <ThemeToggle theme={theme} toggleTheme={toggleTheme} />
               <Button variant="ghost" size="icon" onClick={handleLogout} aria-label="Logout">
                 <IoIosLogOut className="h-5 w-5" />
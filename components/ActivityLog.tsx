@@ -0,0 +1,184 @@
+import React, { useState, useMemo } from "react";
+import { toast } from "react-hot-toast";
+import { Button, Card, CardContent, CardDescription, CardHeader, CardTitle, Input, Label, Select } from "./ui";
+import { DownloadIcon } from "./icons";
+import { User, AuditEntityType, AuditLogFilters } from "../types";
+import { useAuditLogs } from "../hooks/useAudit";
+import { getAuditChanges, formatAuditAction } from "../utils/audit";
+import { toCsv, downloadCsv } from "../utils/csv";
+
+interface ActivityLogProps {
+    users: User[];
+}
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+    LEAVE: "Leaves",
+    CONFIG: "Settings",
+    USER: "Users",
+    USER_SHIFT: "Shift assignments",
+};
+
+const formatTimestamp = (iso: string) =>
+    new Date(iso).toLocaleString("en-GB", { dateStyle: "short", timeStyle: "medium" });
+
+export const ActivityLog: React.FC<ActivityLogProps> = ({ users }) => {
+    const [actorId, setActorId] = useState("");
+    const [entityType, setEntityType] = useState<AuditEntityType | "">("");
+    const [startDate, setStartDate] = useState("");
+    const [endDate, setEndDate] = useState("");
+
+    const filters = useMemo<AuditLogFilters>(() => ({
+        actorId: actorId || undefined,
+        entityType: entityType || undefined,
+        startDate: startDate || undefined,
+        endDate: endDate || undefined,
+    }), [actorId, entityType, startDate, endDate]);
+
+    const { data: entries = [], isLoading, isError } = useAuditLogs(filters);
+    const sortedUsers = useMemo(() => [...users].sort((a, b) => a.name.localeCompare(b.name)), [users]);
+
+    const handleExport = () => {
+        if (entries.length === 0) {
+            toast("No data to export.");
+            return;
+        }
+
+        const rows = entries.map((entry) => [
+            entry.createdAt,
+            entry.actorName,
+            entry.action,
+            entry.entityType,
+            entry.entityLabel || entry.entityId,
+            getAuditChanges(entry).map((c) => `${c.field}: ${c.before || "-"} -> ${c.after || "-"}`).join("; "),
+        ]);
+        downloadCsv("activity-log.csv", toCsv(["Timestamp", "Actor", "Action", "Entity", "Target", "Changes"], rows));
+        toast.success("CSV downloaded successfully!");
+    };
+
+    const handleClearFilters = () => {
+        setActorId("");
+        setEntityType("");
+        setStartDate("");
+        setEndDate("");
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Activity</CardTitle>
+                <CardDescription>Who changed what, and when. Every leave, settings, user and shift change is recorded.</CardDescription>
+            </CardHeader>
+            <CardContent>
+                <div className="flex flex-wrap gap-4 p-4 border rounded-lg mb-4 bg-muted/50 dark:border-border/50">
+                    <div className="grid gap-2">
+                        <Label htmlFor="activity-actor">User</Label>
+                        <Select id="activity-actor" value={actorId} onChange={(e) => setActorId(e.target.value)}>
+                            <option value="">Everyone</option>
+                            {sortedUsers.map((u) => (
+                                <option key={u.id} value={u.id}>
+                                    {u.name}
+                                </option>
+                            ))}
+                        </Select>
+                    </div>
+                    <div className="grid gap-2">
+                        <Label htmlFor="activity-entity">Entity</Label>
+                        <Select
+                            id="activity-entity"
+                            value={entityType}
+                            onChange={(e) => setEntityType(e.target.value as AuditEntityType | "")}>
+                            <option value="">All</option>
+                            {(Object.keys(ENTITY_LABELS) as AuditEntityType[]).map((type) => (
+                                <option key={type} value={type}>
+                                    {ENTITY_LABELS[type]}
+                                </option>
+                            ))}
+                        </Select>
+                    </div>
+                    <div className="grid gap-2">
+                        <Label htmlFor="activity-start">From</Label>
+                        <Input id="activity-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+                    </div>
+                    <div className="grid gap-2">
+                        <Label htmlFor="activity-end">To</Label>
+                        <Input id="activity-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+                    </div>
+                    <div className="flex items-end gap-2">
+                        <Button variant="ghost" onClick={handleClearFilters}>
+                            Clear
+                        </Button>
+                        <Button variant="outline" onClick={handleExport}>
+                            <DownloadIcon className="w-4 h-4 mr-2" /> Export CSV
+                        </Button>
+                    </div>
+                </div>
+
+                <div className="border rounded-lg max-h-[60vh] overflow-auto dark:border-border/50">
+                    <table className="w-full min-w-[800px] text-sm text-left">
+                        <thead className="bg-muted/50 sticky top-0">
+                            <tr>
+                                <th className="p-4 font-medium">Timestamp</th>
+                                <th className="p-4 font-medium">Actor</th>
+                                <th className="p-4 font-medium">Action</th>
+                                <th className="p-4 font-medium">Target</th>
+                                <th className="p-4 font-medium">Changes</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {isLoading ? (
+                                <tr>
+                                    <td colSpan={5} className="p-6 text-center text-muted-foreground">
+                                        Loading activity...
+                                    </td>
+                                </tr>
+                            ) : isError ? (
+                                <tr>
+                                    <td colSpan={5} className="p-6 text-center text-red-500">
+                                        Failed to load activity.
+                                    </td>
+                                </tr>
+                            ) : entries.length > 0 ? (
+                                entries.map((entry) => {
+                                    const changes = getAuditChanges(entry);
+                                    return (
+                                        <tr key={entry.id} className="border-b last:border-0 align-top dark:border-border/50 hover:bg-muted/30">
+                                            <td className="p-4 text-xs text-muted-foreground whitespace-nowrap">{formatTimestamp(entry.createdAt)}</td>
+                                            <td className="p-4 font-medium">{entry.actorName}</td>
+                                            <td className="p-4">{formatAuditAction(entry.action)}</td>
+                                            <td className="p-4">
+                                                <span className="text-xs text-muted-foreground block">{ENTITY_LABELS[entry.entityType] ?? entry.entityType}</span>
+                                                {entry.entityLabel || entry.entityId}
+                                            </td>
+                                            <td className="p-4">
+                                                {changes.length > 0 ? (
+                                                    <ul className="space-y-1 text-xs">
+                                                        {changes.map((change) => (
+                                                            <li key={change.field} className="break-all">
+                                                                <span className="font-medium">{change.field}:</span>{" "}
+                                                                {change.before && <span className="line-through text-red-500">{change.before}</span>}
+                                                                {change.before && change.after && " → "}
+                                                                {change.after && <span className="text-green-600 dark:text-green-400">{change.after}</span>}
+                                                            </li>
+                                                        ))}
+                                                    </ul>
+                                                ) : (
+                                                    <span className="text-xs text-muted-foreground">-</span>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    );
+                                })
+                            ) : (
+                                <tr>
+                                    <td colSpan={5} className="p-6 text-center text-muted-foreground">
+                                        No activity matches the current filters.
+                                    </td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </CardContent>
+        </Card>
+    );
+};
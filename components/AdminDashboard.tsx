@@ -1,19 +1,10 @@
 import React, { useState, useEffect, useMemo } from "react";
-import {
-  ResponsiveContainer,
-  BarChart,
-  CartesianGrid,
-  XAxis,
-  YAxis,
-  Tooltip,
-  Legend,
-  Bar,
-} from "recharts";
 import { format, startOfWeek, parseISO, addDays } from "date-fns";
 import { toast } from "react-hot-toast";
 import jsPDF from "jspdf";
 import "jspdf-autotable";
-import { User, Config, Leave, LeaveStatus, Shift, UserStatus, Role } from "../types";
+import { FaRegCommentDots } from "react-icons/fa";
+import { User, Config, Leave, LeaveStatus, Shift, UserStatus, Role, Permission, PermissionRole, UserPermissions, ShiftPreferences, RosterGeneratorSettings, LeaveType, WaitlistEntry, Delegation, ApprovalStep, LotteryConfig } from "../types";
 import {
   Button,
   Card,
@@ -49,16 +40,25 @@ import {
   ChevronsUpDownIcon,
   CheckIcon,
   HomeIcon,
+  CalendarIcon,
 } from "./icons";
 import UserDashboard from "./UserDashboard";
 import {
   useAllLeaves,
   useUpdateLeaveStatusMutation,
   useUpdateMultipleLeaveStatusesMutation,
+  useUpdateLeaveGroupStatusMutation,
+  useWaitlist,
   useCreateLeaveMutation,
   useSlotInfoForDate,
 } from "../hooks/useLeaves";
 import { useConfig, useUpdateConfigMutation } from "../hooks/useConfig";
+import { useUserBalances } from "../hooks/useBalances";
+import { useDelegations } from "../hooks/useApprovals";
+import { useTeamCalendarFeed } from "../hooks/useCalendarFeed";
+import { usePermissions } from "../hooks/usePermissions";
+import { canDecideStep, describeApprovalStage, getApprovalChain, getCurrentStep } from "../utils/approvals";
+import { DEFAULT_BALLOT_HOURS, DEFAULT_LOTTERY_HISTORY_DAYS } from "../utils/lottery";
 import {
   useAllUsers,
   useUpdateUserStatusMutation,
@@ -68,14 +68,40 @@ import {
   useShiftsForWeek,
 } from "../hooks/useUsers";
 import PhoneInput from "react-phone-input-2";
-import { formatDate } from "../utils/date";
+import { formatDate, getWeekStart } from "../utils/date";
+import { applyLeaveTypeRules, findLeaveType, formatDays, getAvailableDays, getLeaveTypeOf, getLeaveTypes, groupLeaves, LeaveGroup, LeaveGroupStatus } from "../utils/leaves";
+import LeaveTypeBadge from "./LeaveTypeBadge";
 import { ShiftManagement } from "./ShiftManagement";
-import { BOOKING_CONSTANTS } from "../utils/constants";
-
-const getStatusBadge = (status: LeaveStatus | "NOT APPLIED") => {
+import { RotationPatterns } from "./RotationPatterns";
+import { EntitlementManagement } from "./EntitlementManagement";
+import { SwapApprovals } from "./LeaveSwaps";
+import { ApprovalDelegation } from "./ApprovalDelegation";
+import { LotteryDraw } from "./LotteryDraw";
+import CalendarFeedLink from "./CalendarFeedLink";
+import LeaveCommentsDialog from "./LeaveComments";
+import { ActivityLog } from "./ActivityLog";
+import { Analytics } from "./Analytics";
+import { HolidayCalendars } from "./HolidayCalendars";
+import { SlotOverrides } from "./SlotOverrides";
+import { StaffingRules } from "./StaffingRules";
+import { CoverageStrip } from "./CoverageStrip";
+import { toCsv, downloadCsv } from "../utils/csv";
+import { downloadXlsx } from "../utils/spreadsheet";
+import { getBookingWindow, getUnbookableReason, describeUnbookableReason, getOrgTimeZone, getOrgToday } from "../utils/booking";
+import { formatHolidayNames, getHolidaysInRange } from "../utils/holidays";
+import { getShiftSlots, getSlotOverrideConflicts } from "../utils/slots";
+import { LeaveDrillDown, matchesDrillDown } from "../utils/analytics";
+import { ShiftCoverage, getApprovalShortfalls } from "../utils/staffing";
+import { DEFAULT_ROSTER_GENERATOR_SETTINGS, ROSTER_HISTORY_WEEKS } from "../utils/rosterGenerator";
+import { usePublishedRosters } from "../hooks/useStaffing";
+import { PERMISSION_LABELS, SHIFT_SCOPED_PERMISSIONS, getPermissionRoles, getUserPermissions } from "../utils/permissions";
+
+const getStatusBadge = (status: LeaveGroupStatus | "NOT APPLIED") => {
   switch (status) {
     case LeaveStatus.APPROVED:
       return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300";
+    case "PARTIALLY APPROVED":
+      return "bg-green-50 text-green-800 border border-green-200 dark:bg-green-900/40 dark:text-green-300";
     case LeaveStatus.REJECTED:
       return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300";
     case "NOT APPLIED":
@@ -97,12 +123,13 @@ const Skeleton = ({ className }: { className?: string }) => (
 const CreateLeave: React.FC<{
   users: User[];
   config: Config;
-  onCreate: (data: { userId: string; date: string; shiftId: string; status?: LeaveStatus; creatorId?: string }) => void;
+  onCreate: (data: { userId: string; date: string; shiftId: string; leaveTypeId?: string; status?: LeaveStatus; creatorId?: string }) => void;
   isLoading: boolean;
 }> = ({ users, config, onCreate, isLoading }) => {
   const [selectedUserId, setSelectedUserId] = useState("");
   const [selectedDate, setSelectedDate] = useState("");
   const [selectedShiftId, setSelectedShiftId] = useState("");
+  const [selectedLeaveTypeId, setSelectedLeaveTypeId] = useState("");
   const [openUserCombobox, setOpenUserCombobox] = useState(false);
 
   const { data: slotInfo } = useSlotInfoForDate(selectedDate, {
@@ -118,6 +145,16 @@ const CreateLeave: React.FC<{
     return activeUsers.find((u) => u.id === selectedUserId);
   }, [activeUsers, selectedUserId]);
 
+  const leaveTypes = getLeaveTypes(config);
+  const selectedLeaveType = findLeaveType(config, selectedLeaveTypeId) ?? leaveTypes[0];
+  const bookingConfig = applyLeaveTypeRules(config, selectedLeaveType);
+  const bookingWindow = getBookingWindow(bookingConfig);
+
+  const { data: balances } = useUserBalances(selectedUserId);
+  const balance = balances?.find((b) => b.leaveTypeId === selectedLeaveType.id);
+  // Admins may still go ahead, e.g. for unpaid overrides, but should know
+  const willOverdraw = !!balance && getAvailableDays(balance) < 1;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -134,30 +171,17 @@ const CreateLeave: React.FC<{
       return;
     }
     
-    // Boundary blocking validation
-    const targetDateObj = new Date(selectedDate);
-    if(targetDateObj.getTime() !== targetDateObj.getTime()) {
-        toast.error("Invalid date");
-        return;
-    }
-    
-    // Adjust strictly to match UTC offset arithmetic mapping week limits
-    const dateStrCheck = targetDateObj.toISOString().split("T")[0];
-    if (config.blockedDates?.includes(dateStrCheck)) {
-        toast.error("This date is strictly blocked by the system configuration.");
-        return;
-    }
-    
-    const dayOfWeek = targetDateObj.getUTCDay();
-    if (config.disabledDays?.includes(dayOfWeek)) {
-        toast.error("Leave applications are not allowed on this day of the week.");
-        return;
+    const reason = getUnbookableReason(selectedDate, bookingConfig, bookingWindow);
+    if (reason) {
+      toast.error(describeUnbookableReason(reason));
+      return;
     }
 
     onCreate({
       userId: selectedUserId,
       date: selectedDate,
       shiftId: selectedShiftId,
+      leaveTypeId: selectedLeaveType.id,
       status: LeaveStatus.APPROVED,
       creatorId: "admin", // This will be handled in the parent handleCreateLeave
     });
@@ -169,58 +193,6 @@ const CreateLeave: React.FC<{
     setSelectedShiftId("");
   };
 
-  const { minDate, maxDateStr } = (() => {
-    const now = new Date();
-    const istNow = new Date(now.getTime() + BOOKING_CONSTANTS.IST_OFFSET_MS);
-
-    const day = istNow.getUTCDay(); // 0=Sunday (in IST)
-    const hour = istNow.getUTCHours(); // (in IST)
-    const minute = istNow.getUTCMinutes(); // (in IST)
-
-    const [resetHour, resetMinute] = (config.openingTime || BOOKING_CONSTANTS.WEEKLY_RESET_TIME).split(':').map(Number);
-    const openingDay = config.openingDay ?? BOOKING_CONSTANTS.WEEKLY_RESET_DAY;
-
-    let virtualToday = new Date(istNow);
-    if (day === openingDay && (hour < resetHour || (hour === resetHour && minute < resetMinute))) {
-      // It's Sunday before opening time, stay on previous day's schedule
-      virtualToday.setUTCDate(virtualToday.getUTCDate() - 1);
-    }
-    
-    const today = new Date(Date.UTC(virtualToday.getUTCFullYear(), virtualToday.getUTCMonth(), virtualToday.getUTCDate()));
-    
-    const minNoticeDays = config.minNoticeDays ?? BOOKING_CONSTANTS.MIN_NOTICE_DAYS;
-    const minAllowedDate = new Date(today.getTime());
-    minAllowedDate.setUTCDate(minAllowedDate.getUTCDate() + minNoticeDays);
-    
-    // Generate maximum date based on WeekRange logic similar to UserDashboard constraints
-    const maxDate = new Date(today.getTime());
-    const currentDayOfWeek = today.getUTCDay(); // 0=Sun
-    const daysToNextSunday = (7 - currentDayOfWeek) % 7;
-    
-    switch (config.weekRange) {
-        case '1_WEEK': 
-            maxDate.setUTCDate(today.getUTCDate() + daysToNextSunday); 
-            break;
-        case '2_WEEKS': 
-            maxDate.setUTCDate(today.getUTCDate() + daysToNextSunday + 7); 
-            break;
-        case '3_WEEKS': 
-            maxDate.setUTCDate(today.getUTCDate() + daysToNextSunday + 14); 
-            break;
-        case '1_MONTH': 
-            const nextMonth = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() + 1, 0));
-            maxDate.setTime(nextMonth.getTime());
-            break;
-        default:
-            maxDate.setUTCDate(today.getUTCDate() + daysToNextSunday);
-    }
-
-    return { 
-        minDate: minAllowedDate.toISOString().split("T")[0],
-        maxDateStr: maxDate.toISOString().split("T")[0]
-    };
-  })();
-
   return (
     <Card>
       <CardHeader>
@@ -280,6 +252,24 @@ const CreateLeave: React.FC<{
             </Popover>
           </div>
 
+          <div className="grid gap-2">
+            <Label htmlFor="leave-type-select">Leave Type *</Label>
+            <Select
+              id="leave-type-select"
+              value={selectedLeaveType.id}
+              onChange={(e) => {
+                setSelectedLeaveTypeId(e.target.value);
+                setSelectedDate(""); // Notice rules differ per type
+                setSelectedShiftId("");
+              }}>
+              {leaveTypes.map((type) => (
+                <option key={type.id} value={type.id}>
+                  {type.name}
+                </option>
+              ))}
+            </Select>
+          </div>
+
           <div className="grid gap-2">
             <Label htmlFor="leave-date">Leave Date *</Label>
             <Input
@@ -290,12 +280,24 @@ const CreateLeave: React.FC<{
                 setSelectedDate(e.target.value);
                 setSelectedShiftId(""); // Reset shift when date changes
               }}
-              min={minDate}
-              max={maxDateStr}
+              min={bookingWindow.startDate}
+              max={bookingWindow.endDate}
               required
             />
           </div>
 
+          {balance && (
+            <div
+              className={`p-3 rounded-lg border text-sm ${willOverdraw
+                ? "border-yellow-300 bg-yellow-50 text-yellow-800 dark:border-yellow-700/50 dark:bg-yellow-900/30 dark:text-yellow-300"
+                : "border-border bg-muted/50 text-muted-foreground dark:border-border/50"
+                }`}>
+              {willOverdraw
+                ? `This will overdraw ${selectedUser?.name ?? "the user"}'s ${selectedLeaveType.name} balance (${formatDays(getAvailableDays(balance))} left after pending requests).`
+                : `${formatDays(getAvailableDays(balance))} of ${selectedLeaveType.name} leave left after pending requests.`}
+            </div>
+          )}
+
           <div className="grid gap-2">
             <Label htmlFor="shift-select">Select Shift *</Label>
             <Select
@@ -308,8 +310,8 @@ const CreateLeave: React.FC<{
               <option value="">-- Choose a shift --</option>
               {config.shifts.map((shift) => {
                 const slot = slotInfo?.find((s) => s.shiftId === shift.id);
-                const available = slot ? slot.availableSlots : shift.slots;
-                const isFull = available <= 0;
+                const available = slot ? slot.availableSlots : getShiftSlots(config, shift, selectedDate);
+                const isFull = selectedLeaveType.consumesSlot && available <= 0;
 
                 return (
                   <option key={shift.id} value={shift.id} disabled={isFull}>
@@ -328,6 +330,7 @@ const CreateLeave: React.FC<{
                 setSelectedUserId("");
                 setSelectedDate("");
                 setSelectedShiftId("");
+                setSelectedLeaveTypeId("");
               }}
               disabled={isLoading}>
               Clear
@@ -350,6 +353,13 @@ const CreateLeave: React.FC<{
 
 const LeaveManagement: React.FC<{
   leaves: Leave[];
+  config: Config;
+  waitlist: WaitlistEntry[];
+  currentUser: User;
+  users: User[];
+  delegations: Delegation[];
+  drillDown?: LeaveDrillDown | null; // Set when arriving from an Analytics chart
+  onClearDrillDown?: () => void;
   onStatusChange: (
     leaveId: string,
     status: LeaveStatus.APPROVED | LeaveStatus.REJECTED,
@@ -359,47 +369,134 @@ const LeaveManagement: React.FC<{
     leaveIds: string[];
     status: LeaveStatus.APPROVED | LeaveStatus.REJECTED;
   }) => void;
+  onGroupStatusChange: (
+    groupId: string,
+    status: LeaveStatus.APPROVED | LeaveStatus.REJECTED,
+    reason?: string
+  ) => void;
   isActionLoading: boolean;
-}> = ({ leaves, onStatusChange, onBulkStatusChange, isActionLoading }) => {
+}> = ({ leaves, config, waitlist, currentUser, users, delegations, drillDown, onClearDrillDown, onStatusChange, onBulkStatusChange, onGroupStatusChange, isActionLoading }) => {
   const [filterStatus, setFilterStatus] = useState<LeaveStatus | "ALL">(
-    LeaveStatus.PENDING
+    drillDown ? drillDown.status ?? "ALL" : LeaveStatus.PENDING
   );
+  const [filterType, setFilterType] = useState("ALL");
   const [selectedLeaves, setSelectedLeaves] = useState<string[]>([]);
   const [showRejectDialog, setShowRejectDialog] = useState(false);
-  const [rejectLeaveId, setRejectLeaveId] = useState<string | null>(null);
+  const [rejectGroup, setRejectGroup] = useState<LeaveGroup | null>(null);
+  const [expandedGroupId, setExpandedGroupId] = useState<string | null>(null);
+  const [commentsLeave, setCommentsLeave] = useState<Leave | null>(null);
   const [rejectReason, setRejectReason] = useState("");
 
   const [searchQuery, setSearchQuery] = useState("");
 
+  useEffect(() => {
+    if (drillDown) setFilterStatus(drillDown.status ?? "ALL");
+  }, [drillDown]);
+
   const filteredLeaves = useMemo(() => {
     return leaves
       .filter((l) => {
         const matchesStatus = filterStatus === "ALL" || l.status === filterStatus;
+        const matchesType = filterType === "ALL" || getLeaveTypeOf(l, config).id === filterType;
         const matchesSearch =
           l.userName.toLowerCase().includes(searchQuery.toLowerCase()) ||
           (l.userMobile && l.userMobile.includes(searchQuery));
-        return matchesStatus && matchesSearch;
+        const matchesChart = !drillDown || matchesDrillDown(l, drillDown);
+        return matchesStatus && matchesType && matchesSearch && matchesChart;
       })
       .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-  }, [leaves, filterStatus, searchQuery]);
+  }, [leaves, config, filterStatus, filterType, searchQuery, drillDown]);
+
+  // Multi-day requests are reviewed as a single row
+  const filteredGroups = useMemo(() => groupLeaves(filteredLeaves), [filteredLeaves]);
+
+  const waitlistBySlot = useMemo(() => {
+    const map = new Map<string, WaitlistEntry[]>();
+    waitlist.forEach((entry) => {
+      const key = `${entry.date}|${entry.shiftId}`;
+      map.set(key, [...(map.get(key) || []), entry]);
+    });
+    map.forEach((entries) => entries.sort((a, b) => a.position - b.position));
+    return map;
+  }, [waitlist]);
+
+  const getWaitlistFor = (group: LeaveGroup) =>
+    group.leaves.flatMap((l) => waitlistBySlot.get(`${l.date}|${l.shiftId}`) || []);
+
+  const usersById = useMemo(() => new Map(users.map((u) => [u.id, u])), [users]);
+  const today = getOrgToday(config);
+
+  // Leaves whose current approval step the signed-in user may decide. Ballot
+  // requests are only ever decided by the lottery draw.
+  const canDecide = (leave: Leave) =>
+    !leave.ballot && canDecideStep(leave, config, currentUser, delegations, usersById, today);
 
   const selectableLeaves = useMemo(
-    () => filteredLeaves.filter((l) => l.status === LeaveStatus.PENDING),
-    [filteredLeaves]
+    () => filteredLeaves.filter((l) => l.status === LeaveStatus.PENDING && canDecide(l)),
+    [filteredLeaves, config, currentUser, delegations, usersById, today]
   );
 
   useEffect(() => {
     setSelectedLeaves([]);
-  }, [filterStatus]);
+  }, [filterStatus, filterType, drillDown]);
+
+  // Published rosters for weeks with pending leave, for the minimum staffing check
+  const pendingWeeks = useMemo(
+    () => Array.from(new Set(filteredLeaves.filter((l) => l.status === LeaveStatus.PENDING).map((l) => getWeekStart(l.date)))).sort(),
+    [filteredLeaves]
+  );
+  const { rosters, isLoading: areRostersLoading, isError: isRostersError } = usePublishedRosters(pendingWeeks);
+
+  // Without the rosters every shift would look fully staffed, so approval waits
+  // for them whenever there are staffing rules to check
+  const staffingCheckBlocked = !!config.staffingRules?.length && (areRostersLoading || isRostersError);
+  const staffingCheckMessage = isRostersError
+    ? "Couldn't load rosters to check minimum staffing. Refresh to try again."
+    : "Checking minimum staffing...";
+
+  const getShortfalls = (toApprove: Leave[]) =>
+    config.staffingRules?.length ? getApprovalShortfalls(config.staffingRules, rosters, leaves, toApprove) : [];
 
-  const handleToggleSelect = (leaveId: string) => {
+  const describeShortfall = (c: ShiftCoverage) =>
+    `${formatDate(c.date)} ${config.shifts.find((s) => s.id === c.shiftId)?.name ?? ""}: ${c.available} left, minimum ${c.minimum}`;
+
+  const confirmShortfalls = (toApprove: Leave[]) => {
+    if (staffingCheckBlocked) {
+      toast.error(staffingCheckMessage);
+      return false;
+    }
+    const shortfalls = getShortfalls(toApprove);
+    return (
+      shortfalls.length === 0 ||
+      window.confirm(
+        `Approving leaves these shifts below minimum staffing:\n${shortfalls.map(describeShortfall).join("\n")}\n\nApprove anyway?`
+      )
+    );
+  };
+
+  const handleToggleSelect = (group: LeaveGroup) => {
+    const groupIds = group.leaves
+      .filter((l) => l.status === LeaveStatus.PENDING && canDecide(l))
+      .map((l) => l.id);
     setSelectedLeaves((prev) =>
-      prev.includes(leaveId)
-        ? prev.filter((id) => id !== leaveId)
-        : [...prev, leaveId]
+      groupIds.every((id) => prev.includes(id))
+        ? prev.filter((id) => !groupIds.includes(id))
+        : [...prev.filter((id) => !groupIds.includes(id)), ...groupIds]
     );
   };
 
+  const handleGroupStatusChange = (
+    group: LeaveGroup,
+    status: LeaveStatus.APPROVED | LeaveStatus.REJECTED,
+    reason?: string
+  ) => {
+    if (group.groupId) {
+      onGroupStatusChange(group.groupId, status, reason);
+    } else {
+      onStatusChange(group.leaves[0].id, status, reason);
+    }
+  };
+
   const handleToggleSelectAll = () => {
     if (selectedLeaves.length === selectableLeaves.length) {
       setSelectedLeaves([]);
@@ -411,28 +508,31 @@ const LeaveManagement: React.FC<{
   const handleBulkAction = (
     status: LeaveStatus.APPROVED | LeaveStatus.REJECTED
   ) => {
+    if (status === LeaveStatus.APPROVED && !confirmShortfalls(leaves.filter((l) => selectedLeaves.includes(l.id)))) {
+      return;
+    }
     onBulkStatusChange({ leaveIds: selectedLeaves, status });
     setSelectedLeaves([]);
   };
 
-  const handleRejectClick = (leaveId: string) => {
-    setRejectLeaveId(leaveId);
+  const handleRejectClick = (group: LeaveGroup) => {
+    setRejectGroup(group);
     setRejectReason("");
     setShowRejectDialog(true);
   };
 
   const handleConfirmReject = () => {
-    if (rejectLeaveId) {
-      onStatusChange(rejectLeaveId, LeaveStatus.REJECTED, rejectReason.trim() || undefined);
+    if (rejectGroup) {
+      handleGroupStatusChange(rejectGroup, LeaveStatus.REJECTED, rejectReason.trim() || undefined);
       setShowRejectDialog(false);
-      setRejectLeaveId(null);
+      setRejectGroup(null);
       setRejectReason("");
     }
   };
 
   const handleCancelReject = () => {
     setShowRejectDialog(false);
-    setRejectLeaveId(null);
+    setRejectGroup(null);
     setRejectReason("");
   };
 
@@ -458,10 +558,32 @@ const LeaveManagement: React.FC<{
               <option value={LeaveStatus.APPROVED}>Approved</option>
               <option value={LeaveStatus.REJECTED}>Rejected</option>
             </Select>
+            <Select
+              value={filterType}
+              onChange={(e) => setFilterType(e.target.value)}
+              className="w-full sm:w-40"
+              aria-label="Filter by leave type">
+              <option value="ALL">All Types</option>
+              {getLeaveTypes(config).map((type) => (
+                <option key={type.id} value={type.id}>
+                  {type.name}
+                </option>
+              ))}
+            </Select>
           </div>
         </div>
       </CardHeader>
       <CardContent>
+        {drillDown && (
+          <div className="flex items-center justify-between gap-2 p-3 mb-4 rounded-lg border bg-primary/5 text-sm dark:border-border/50">
+            <span>
+              <span className="text-muted-foreground">From Analytics:</span> {drillDown.label}
+            </span>
+            <Button size="sm" variant="ghost" onClick={onClearDrillDown}>
+              Clear
+            </Button>
+          </div>
+        )}
         {selectedLeaves.length > 0 && (
           <div className="p-4 bg-muted border-b rounded-t-lg flex items-center gap-4 dark:border-border/50">
             <p className="text-sm font-semibold flex-grow">
@@ -470,7 +592,8 @@ const LeaveManagement: React.FC<{
             <Button
               size="sm"
               onClick={() => handleBulkAction(LeaveStatus.APPROVED)}
-              disabled={isActionLoading}>
+              disabled={isActionLoading || staffingCheckBlocked}
+              title={staffingCheckBlocked ? staffingCheckMessage : undefined}>
               Approve Selected
             </Button>
             <Button
@@ -502,71 +625,152 @@ const LeaveManagement: React.FC<{
               </label>
             </div>
           )}
-          {filteredLeaves.length > 0 ? (
-            filteredLeaves.map((leave) => (
-              <div
-                key={leave.id}
-                className="flex flex-col md:flex-row items-start md:items-center justify-between p-4 border-b last:border-b-0 gap-4 dark:border-border/50">
-                <div className="flex items-center flex-grow">
-                  <div className="w-8 flex-shrink-0">
-                    {leave.status === LeaveStatus.PENDING && (
-                      <input
-                        type="checkbox"
-                        className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
-                        checked={selectedLeaves.includes(leave.id)}
-                        onChange={() => handleToggleSelect(leave.id)}
-                        aria-labelledby={`leave-info-${leave.id}`}
-                      />
-                    )}
-                  </div>
-                  <div id={`leave-info-${leave.id}`}>
-                    <p className="font-semibold">{leave.userName}</p>
-                    <p className="text-sm text-muted-foreground">
-                      {formatDate(leave.date)} - {leave.shiftName}
-                    </p>
-                  </div>
-                </div>
-                <div className="flex items-center gap-2 w-full md:w-auto md:pl-8">
-                  <span
-                    className={`px-2.5 py-0.5 text-xs font-semibold rounded-full ${getStatusBadge(
-                      leave.status
-                    )}`}>
-                    {leave.status}
-                  </span>
-                  {leave.status === LeaveStatus.PENDING && (
-                    <div className="flex gap-2 ml-auto">
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={() =>
-                          onStatusChange(leave.id, LeaveStatus.APPROVED)
-                        }
-                        disabled={isActionLoading}>
-                        Approve
-                      </Button>
-                      <Button
-                        size="sm"
-                        variant="destructive"
-                        onClick={() => handleRejectClick(leave.id)}
-                        disabled={isActionLoading}>
-                        Reject
-                      </Button>
+          {filteredGroups.length > 0 ? (
+            filteredGroups.map((group) => {
+              const leave = group.leaves[0];
+              const dayCount = group.leaves.length;
+              const queued = getWaitlistFor(group);
+              const pendingLeave = group.leaves.find((l) => l.status === LeaveStatus.PENDING);
+              const stage = pendingLeave?.ballot
+                ? "In the lottery ballot"
+                : pendingLeave
+                  ? describeApprovalStage(pendingLeave, config)
+                  : null;
+              const currentStep = pendingLeave ? getCurrentStep(pendingLeave, config) : undefined;
+              const isDecidable = !pendingLeave || canDecide(pendingLeave);
+              const notDecidableReason = pendingLeave?.ballot
+                ? "Decided by the lottery draw"
+                : `Waiting for ${currentStep?.name}`;
+              const decisions = leave.approvals ?? [];
+              const isExpanded = expandedGroupId === group.id;
+              const pendingLeaves = group.leaves.filter((l) => l.status === LeaveStatus.PENDING);
+              const shortfalls = isDecidable ? getShortfalls(pendingLeaves) : [];
+              return (
+                <div
+                  key={group.id}
+                  className="p-4 border-b last:border-b-0 dark:border-border/50">
+                  <div className="flex flex-col md:flex-row items-start md:items-center justify-between gap-4">
+                    <div className="flex items-center flex-grow">
+                      <div className="w-8 flex-shrink-0">
+                        {group.status === LeaveStatus.PENDING && isDecidable && (
+                          <input
+                            type="checkbox"
+                            className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                            checked={group.leaves.every(
+                              (l) => l.status !== LeaveStatus.PENDING || selectedLeaves.includes(l.id)
+                            )}
+                            onChange={() => handleToggleSelect(group)}
+                            aria-labelledby={`leave-info-${group.id}`}
+                          />
+                        )}
+                      </div>
+                      <div id={`leave-info-${group.id}`}>
+                        <div className="flex items-center gap-2">
+                          <p className="font-semibold">{leave.userName}</p>
+                          <LeaveTypeBadge leaveType={getLeaveTypeOf(leave, config)} />
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          {dayCount > 1
+                            ? `${formatDate(group.startDate)} to ${formatDate(group.endDate)} (${dayCount} days)`
+                            : formatDate(leave.date)}{" "}
+                          - {leave.shiftName}
+                        </p>
+                        {stage && (
+                          <p className="text-xs text-muted-foreground">{stage}</p>
+                        )}
+                        {shortfalls.length > 0 && (
+                          <p className="text-xs text-yellow-700 dark:text-yellow-400" title={shortfalls.map(describeShortfall).join("\n")}>
+                            Below minimum staffing if approved: {describeShortfall(shortfalls[0])}
+                            {shortfalls.length > 1 && ` and ${shortfalls.length - 1} more`}
+                          </p>
+                        )}
+                        {decisions.length > 0 && (
+                          <button
+                            type="button"
+                            className="text-xs text-primary hover:underline"
+                            onClick={() => setExpandedGroupId(isExpanded ? null : group.id)}
+                            aria-expanded={isExpanded}>
+                            {isExpanded ? "Hide history" : `History (${decisions.length})`}
+                          </button>
+                        )}
+                      </div>
                     </div>
-                  )}
-                  {leave.status === LeaveStatus.APPROVED && (
-                    <div className="flex gap-2 ml-auto">
+                    <div className="flex items-center gap-2 w-full md:w-auto md:pl-8">
+                      <span
+                        className="w-24 text-xs text-muted-foreground"
+                        title={queued.map((e) => `#${e.position} ${e.userName}`).join("\n")}>
+                        {queued.length > 0 ? `${queued.length} waitlisted` : "No waitlist"}
+                      </span>
+                      <span
+                        className={`px-2.5 py-0.5 text-xs font-semibold rounded-full ${getStatusBadge(
+                          group.status
+                        )}`}>
+                        {group.status}
+                      </span>
                       <Button
                         size="sm"
-                        variant="destructive"
-                        onClick={() => handleRejectClick(leave.id)}
-                        disabled={isActionLoading}>
-                        Revoke
+                        variant="ghost"
+                        onClick={() => setCommentsLeave(leave)}
+                        aria-label={`Comments for ${leave.userName}'s leave${leave.commentCount ? ` (${leave.commentCount})` : ""}`}>
+                        <FaRegCommentDots className="h-4 w-4" />
+                        {!!leave.commentCount && <span className="ml-1 text-xs">{leave.commentCount}</span>}
                       </Button>
+                      {group.status === LeaveStatus.PENDING && (
+                        <div className="flex gap-2 ml-auto">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() =>
+                              confirmShortfalls(pendingLeaves) && handleGroupStatusChange(group, LeaveStatus.APPROVED)
+                            }
+                            disabled={isActionLoading || !isDecidable || staffingCheckBlocked}
+                            title={!isDecidable ? notDecidableReason : staffingCheckBlocked ? staffingCheckMessage : undefined}>
+                            {dayCount > 1 ? "Approve All" : "Approve"}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            onClick={() => handleRejectClick(group)}
+                            disabled={isActionLoading || !isDecidable}
+                            title={isDecidable ? undefined : notDecidableReason}>
+                            {dayCount > 1 ? "Reject All" : "Reject"}
+                          </Button>
+                        </div>
+                      )}
+                      {group.status !== LeaveStatus.PENDING && group.leaves.some((l) => l.status === LeaveStatus.APPROVED) && (
+                        <div className="flex gap-2 ml-auto">
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            onClick={() => handleRejectClick(group)}
+                            disabled={isActionLoading}>
+                            Revoke
+                          </Button>
+                        </div>
+                      )}
                     </div>
-                  )}
+                  </div>
+                {isExpanded && (
+                  <ol className="mt-3 ml-8 space-y-1 border-l pl-4 text-xs dark:border-border/50">
+                    {decisions.map((decision, index) => (
+                      <li key={index}>
+                        <span className="font-medium">{decision.stepName}</span>:{" "}
+                        <span className={decision.status === LeaveStatus.APPROVED ? "text-green-600 dark:text-green-400" : "text-red-500"}>
+                          {decision.status.toLowerCase()}
+                        </span>{" "}
+                        by {decision.approverName}
+                        {decision.onBehalfOfName && ` on behalf of ${decision.onBehalfOfName}`}
+                        {" "}on {formatDate(decision.decidedAt)}
+                        {decision.reason && (
+                          <span className="text-muted-foreground"> - "{decision.reason}"</span>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                )}
                 </div>
-              </div>
-            ))
+              );
+            })
           ) : (
             <p className="p-6 text-center">
               No leaves match the current filter.
@@ -613,6 +817,12 @@ const LeaveManagement: React.FC<{
             </Card>
           </div>
         )}
+
+        <LeaveCommentsDialog
+          leave={commentsLeave}
+          currentUser={currentUser}
+          onClose={() => setCommentsLeave(null)}
+        />
       </CardContent>
     </Card>
   );
@@ -697,7 +907,19 @@ const NotBookedSummary: React.FC<{
   );
 };
 
-const Reports: React.FC<{ leaves: Leave[] }> = ({ leaves }) => {
+type ReportColumnKey = "mobile" | "shift" | "type" | "status" | "reason" | "appliedOn" | "creator";
+
+const REPORT_COLUMNS: { key: ReportColumnKey; label: string }[] = [
+  { key: "mobile", label: "Mobile" },
+  { key: "shift", label: "Shift" },
+  { key: "type", label: "Leave Type" },
+  { key: "status", label: "Status" },
+  { key: "reason", label: "Reason" },
+  { key: "appliedOn", label: "Applied On" },
+  { key: "creator", label: "Created By" },
+];
+
+const Reports: React.FC<{ leaves: Leave[]; config: Config; users: User[] }> = ({ leaves, config, users }) => {
   const [startDate, setStartDate] = useState(() => {
     const start = new Date();
     start.setUTCDate(1);
@@ -711,8 +933,14 @@ const Reports: React.FC<{ leaves: Leave[] }> = ({ leaves }) => {
     return lastDay.toISOString().split("T")[0];
   });
   const [filterStatus, setFilterStatus] = useState<LeaveStatus | "ALL">("ALL");
+  const [filterType, setFilterType] = useState("ALL");
   const [searchQuery, setSearchQuery] = useState("");
+  const [exportColumns, setExportColumns] = useState<ReportColumnKey[]>(
+    REPORT_COLUMNS.map((c) => c.key)
+  );
   const [showNotBooked, setShowNotBooked] = useState(true);
+  const [feedShiftId, setFeedShiftId] = useState("");
+  const { data: teamFeed, isLoading: isTeamFeedLoading } = useTeamCalendarFeed(feedShiftId || undefined);
 
   const targetWeekDate = startDate || new Date().toISOString().split("T")[0];
   const { data: assignments } = useShiftsForWeek(targetWeekDate);
@@ -745,6 +973,8 @@ const Reports: React.FC<{ leaves: Leave[] }> = ({ leaves }) => {
         if (endDate && leaveDate > new Date(endDate)) return false;
         if (filterStatus !== "ALL" && leave.status !== filterStatus)
           return false;
+        if (filterType !== "ALL" && getLeaveTypeOf(leave, config).id !== filterType)
+          return false;
 
         const matchesSearch =
           leave.userName.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -755,7 +985,7 @@ const Reports: React.FC<{ leaves: Leave[] }> = ({ leaves }) => {
 
     const finalResults = [...records];
 
-    if (showNotBooked && (filterStatus === "ALL" || (filterStatus as any) === "NOT_APPLIED")) {
+    if (showNotBooked && filterType === "ALL" && (filterStatus === "ALL" || (filterStatus as any) === "NOT_APPLIED")) {
       notBookedList.forEach(nb => {
         // Only add if it matches search
         if (!searchQuery || nb.user.name.toLowerCase().includes(searchQuery.toLowerCase()) || (nb.user.mobile && nb.user.mobile.includes(searchQuery))) {
@@ -780,32 +1010,101 @@ const Reports: React.FC<{ leaves: Leave[] }> = ({ leaves }) => {
       if (shiftCompare !== 0) return shiftCompare;
       return new Date(a.date).getTime() - new Date(b.date).getTime();
     });
-  }, [leaves, startDate, endDate, filterStatus, searchQuery, showNotBooked, notBookedList, targetWeekDate]);
+  }, [leaves, config, startDate, endDate, filterStatus, filterType, searchQuery, showNotBooked, notBookedList, targetWeekDate]);
+
+  const isNotApplied = (leave: Leave) => leave.status === ("NOT APPLIED" as any);
+
+  const userNames = useMemo(
+    () => new Map(users.map((u) => [u.id, u.name])),
+    [users]
+  );
+
+  // Raw values for spreadsheet exports; dates stay ISO (YYYY-MM-DD) so payroll
+  // imports don't have to guess the day/month order.
+  const getExportValue = (leave: Leave, key: ReportColumnKey): string => {
+    const notApplied = isNotApplied(leave);
+    switch (key) {
+      case "mobile":
+        return leave.userMobile || "";
+      case "shift":
+        return leave.shiftName;
+      case "type":
+        return notApplied ? "" : getLeaveTypeOf(leave, config).name;
+      case "status":
+        return leave.status;
+      case "reason":
+        return leave.reason || "";
+      case "appliedOn":
+        return notApplied ? "" : leave.createdAt.split("T")[0];
+      case "creator":
+        if (notApplied || !leave.creatorId) return "";
+        return leave.creatorId === leave.userId
+          ? "Self"
+          : userNames.get(leave.creatorId) || leave.creatorId;
+    }
+  };
+
+  const handleToggleExportColumn = (key: ReportColumnKey) => {
+    setExportColumns((prev) =>
+      prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]
+    );
+  };
+
+  const exportSpreadsheet = async (format: "CSV" | "XLSX") => {
+    // Keep the chooser's order regardless of the order columns were ticked in
+    const columns = REPORT_COLUMNS.filter((c) => exportColumns.includes(c.key));
+    const header = ["SL.No", "Leave Date", "User Name", ...columns.map((c) => c.label)];
+    const rows = filteredLeaves.map((leave, index) => [
+      index + 1,
+      leave.date,
+      leave.userName,
+      ...columns.map((c) => getExportValue(leave, c.key)),
+    ]);
+    const filename = `leave-report_${startDate || "all"}_${endDate || "all"}`;
+
+    if (format === "CSV") {
+      downloadCsv(`${filename}.csv`, toCsv(header, rows));
+    } else {
+      await downloadXlsx(`${filename}.xlsx`, "Leaves", header, rows);
+    }
+  };
 
-  const handleExport = (format: "CSV" | "PDF") => {
+  const handleExport = async (format: "CSV" | "XLSX" | "PDF") => {
+    if (filteredLeaves.length === 0) {
+      toast("No data to export.");
+      return;
+    }
     if (format === "PDF") {
-      if (filteredLeaves.length === 0) {
-        toast("No data to export.");
-        return;
-      }
       try {
         const doc = new jsPDF();
 
         doc.text("Leave Report", 14, 15);
 
+        // Without a date filter, cover the span of the leaves being exported
+        const leaveDates = filteredLeaves.map((leave) => leave.date).sort();
+        const holidays = getHolidaysInRange(
+          config,
+          startDate || leaveDates[0],
+          endDate || leaveDates[leaveDates.length - 1]
+        );
+
         const tableColumn = [
           "SL.No",
           "Leave Date",
           "User Name",
           "Shift",
+          "Type",
           "Status",
           "Applied On",
         ];
         const tableRows = filteredLeaves.map((leave, index) => [
           index + 1,
-          formatDate(leave.date),
+          holidays.has(leave.date)
+            ? `${formatDate(leave.date)} (${formatHolidayNames(holidays.get(leave.date)!)})`
+            : formatDate(leave.date),
           leave.userName,
           leave.shiftName,
+          isNotApplied(leave) ? "-" : getLeaveTypeOf(leave, config).name,
           leave.status,
           formatDate(leave.createdAt),
         ]);
@@ -816,6 +1115,20 @@ const Reports: React.FC<{ leaves: Leave[] }> = ({ leaves }) => {
           startY: 20,
         });
 
+        if (holidays.size > 0) {
+          const finalY = (doc as any).lastAutoTable.finalY;
+          doc.text("Holidays in this period", 14, finalY + 12);
+          (doc as any).autoTable({
+            head: [["Date", "Holiday", "Blocks Leave"]],
+            body: Array.from(holidays.entries()).map(([date, dayHolidays]) => [
+              formatDate(date),
+              formatHolidayNames(dayHolidays),
+              dayHolidays.some((h) => h.blocksLeave) ? "Yes" : "No",
+            ]),
+            startY: finalY + 17,
+          });
+        }
+
         doc.save("leave-report.pdf");
         toast.success("PDF report downloaded successfully!");
       } catch (error) {
@@ -825,7 +1138,15 @@ const Reports: React.FC<{ leaves: Leave[] }> = ({ leaves }) => {
         toast.error(`Failed to generate PDF: ${message}`);
       }
     } else {
-      toast(`For export to ${format} you need to pay maaan...`);
+      try {
+        await exportSpreadsheet(format);
+        toast.success(`${format} report downloaded successfully!`);
+      } catch (error) {
+        console.error(`${format} Export Error:`, error);
+        const message =
+          error instanceof Error ? error.message : "An unknown error occurred.";
+        toast.error(`Failed to generate ${format}: ${message}`);
+      }
     }
   };
 
@@ -870,10 +1191,54 @@ const Reports: React.FC<{ leaves: Leave[] }> = ({ leaves }) => {
               <option value="NOT_APPLIED">Not Applied</option>
             </Select>
           </div>
+          <div className="grid gap-2">
+            <Label htmlFor="type-filter">Leave Type</Label>
+            <Select
+              id="type-filter"
+              value={filterType}
+              onChange={(e) => setFilterType(e.target.value)}>
+              <option value="ALL">All Types</option>
+              {getLeaveTypes(config).map((type) => (
+                <option key={type.id} value={type.id}>
+                  {type.name}
+                </option>
+              ))}
+            </Select>
+          </div>
           <div className="flex items-end gap-2">
-            {/* <Button onClick={() => handleExport("CSV")} variant="outline">
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline">
+                  Columns ({exportColumns.length}/{REPORT_COLUMNS.length})
+                  <ChevronsUpDownIcon className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-56 p-3" align="start">
+                <p className="text-xs text-muted-foreground mb-2">
+                  Columns for CSV and Excel exports
+                </p>
+                <div className="space-y-2">
+                  {REPORT_COLUMNS.map((column) => (
+                    <div key={column.key} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`export-${column.key}`}
+                        checked={exportColumns.includes(column.key)}
+                        onCheckedChange={() => handleToggleExportColumn(column.key)}
+                      />
+                      <Label htmlFor={`export-${column.key}`} className="cursor-pointer">
+                        {column.label}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </PopoverContent>
+            </Popover>
+            <Button onClick={() => handleExport("CSV")} variant="outline">
               <DownloadIcon className="w-4 h-4 mr-2" /> Export CSV
-            </Button> */}
+            </Button>
+            <Button onClick={() => handleExport("XLSX")} variant="outline">
+              <DownloadIcon className="w-4 h-4 mr-2" /> Export Excel
+            </Button>
             <Button onClick={() => handleExport("PDF")} variant="outline">
               <DownloadIcon className="w-4 h-4 mr-2" /> Export PDF
             </Button>
@@ -897,6 +1262,8 @@ const Reports: React.FC<{ leaves: Leave[] }> = ({ leaves }) => {
           </div>
         </div>
 
+        <CoverageStrip leaves={leaves} config={config} startDate={startDate} endDate={endDate} />
+
         {/* The summary banner remains for visibility of the specific week's missing users */}
         {showNotBooked && (
           <NotBookedSummary leaves={leaves} startDate={startDate} endDate={endDate} />
@@ -909,6 +1276,7 @@ const Reports: React.FC<{ leaves: Leave[] }> = ({ leaves }) => {
                 <th className="p-4 font-medium">Leave Date</th>
                 <th className="p-4 font-medium">User Name</th>
                 <th className="p-4 font-medium">Shift</th>
+                <th className="p-4 font-medium">Type</th>
                 <th className="p-4 font-medium">Status</th>
                 <th className="p-4 font-medium">Applied On</th>
               </tr>
@@ -925,6 +1293,9 @@ const Reports: React.FC<{ leaves: Leave[] }> = ({ leaves }) => {
                         {leave.shiftName}
                       </span>
                     </td>
+                    <td className="p-4">
+                      {isNotApplied(leave) ? "-" : <LeaveTypeBadge leaveType={getLeaveTypeOf(leave, config)} />}
+                    </td>
                     <td className="p-4">
                       <span
                         className={`px-2 py-1 text-xs font-semibold rounded-full ${getStatusBadge(
@@ -951,7 +1322,7 @@ const Reports: React.FC<{ leaves: Leave[] }> = ({ leaves }) => {
               ) : (
                 <tr>
                   <td
-                    colSpan={5}
+                    colSpan={7}
                     className="p-6 text-center text-muted-foreground">
                     No records match the current filters.
                   </td>
@@ -960,6 +1331,30 @@ const Reports: React.FC<{ leaves: Leave[] }> = ({ leaves }) => {
             </tbody>
           </table>
         </div>
+
+        <div className="mt-6 pt-4 border-t space-y-3 dark:border-border/50">
+          <div className="flex flex-col sm:flex-row justify-between sm:items-end gap-2">
+            <div>
+              <Label className="text-lg font-bold">Team Calendar Feed</Label>
+              <p className="text-sm text-muted-foreground">
+                Approved leaves and shift assignments for the whole team, as an .ics subscription.
+              </p>
+            </div>
+            <Select
+              value={feedShiftId}
+              onChange={(e) => setFeedShiftId(e.target.value)}
+              className="w-full sm:w-48"
+              aria-label="Filter team feed by shift">
+              <option value="">All Shifts</option>
+              {config.shifts.map((shift) => (
+                <option key={shift.id} value={shift.id}>
+                  {shift.name}
+                </option>
+              ))}
+            </Select>
+          </div>
+          <CalendarFeedLink feed={teamFeed} isLoading={isTeamFeedLoading} />
+        </div>
       </CardContent>
     </Card>
   );
@@ -967,9 +1362,10 @@ const Reports: React.FC<{ leaves: Leave[] }> = ({ leaves }) => {
 
 const Settings: React.FC<{
   config: Config;
+  leaves?: Leave[];
   onSave: (newConfig: Config) => void;
   isLoading: boolean;
-}> = ({ config, onSave, isLoading }) => {
+}> = ({ config, leaves, onSave, isLoading }) => {
   const [localConfig, setLocalConfig] = useState(config);
 
   useEffect(() => setLocalConfig(config), [config]);
@@ -1013,9 +1409,91 @@ const Settings: React.FC<{
     setLocalConfig({
       ...localConfig,
       shifts: localConfig.shifts.filter((s) => s.id !== shiftId),
+      slotOverrides: localConfig.slotOverrides?.filter((o) => o.shiftId !== shiftId),
+      staffingRules: localConfig.staffingRules?.filter((r) => r.shiftId !== shiftId),
+      rosterGenerator: localConfig.rosterGenerator && {
+        ...localConfig.rosterGenerator,
+        nightShiftIds: localConfig.rosterGenerator.nightShiftIds.filter((id) => id !== shiftId),
+        unpopularShiftIds: localConfig.rosterGenerator.unpopularShiftIds.filter((id) => id !== shiftId),
+      },
     });
   };
 
+  const leaveTypes = getLeaveTypes(localConfig);
+
+  const handleLeaveTypeChange = (typeId: string, changes: Partial<LeaveType>) => {
+    setLocalConfig({
+      ...localConfig,
+      leaveTypes: leaveTypes.map((t) => (t.id === typeId ? { ...t, ...changes } : t)),
+    });
+  };
+
+  const handleAddLeaveType = () => {
+    const newType: LeaveType = {
+      id: `lt${Date.now()}`,
+      name: "New Type",
+      color: "#64748b",
+      minNoticeDays: null,
+      consumesSlot: true,
+    };
+    setLocalConfig({ ...localConfig, leaveTypes: [...leaveTypes, newType] });
+  };
+
+  const handleRemoveLeaveType = (typeId: string) => {
+    if (leaveTypes.length <= 1) {
+      toast.error("At least one leave type is required");
+      return;
+    }
+    setLocalConfig({
+      ...localConfig,
+      leaveTypes: leaveTypes.filter((t) => t.id !== typeId),
+    });
+  };
+
+  const rosterGenerator = localConfig.rosterGenerator ?? DEFAULT_ROSTER_GENERATOR_SETTINGS;
+
+  const setRosterGenerator = (changes: Partial<RosterGeneratorSettings>) =>
+    setLocalConfig({ ...localConfig, rosterGenerator: { ...rosterGenerator, ...changes } });
+
+  const toggleGeneratorShift = (key: "nightShiftIds" | "unpopularShiftIds", shiftId: string) =>
+    setRosterGenerator({
+      [key]: rosterGenerator[key].includes(shiftId)
+        ? rosterGenerator[key].filter((id) => id !== shiftId)
+        : [...rosterGenerator[key], shiftId],
+    });
+
+  const setLottery = (changes: Partial<LotteryConfig>) =>
+    setLocalConfig({
+      ...localConfig,
+      lottery: {
+        enabled: false,
+        ballotHours: DEFAULT_BALLOT_HOURS,
+        historyDays: DEFAULT_LOTTERY_HISTORY_DAYS,
+        ...localConfig.lottery,
+        ...changes,
+      },
+    });
+
+  const approvalChain = getApprovalChain(localConfig);
+
+  const setApprovalChain = (steps: ApprovalStep[]) =>
+    setLocalConfig({ ...localConfig, approvalChain: steps });
+
+  const handleApprovalStepChange = (stepId: string, changes: Partial<ApprovalStep>) =>
+    setApprovalChain(approvalChain.map((step) => (step.id === stepId ? { ...step, ...changes } : step)));
+
+  const handleAddApprovalStep = () =>
+    setApprovalChain([
+      ...approvalChain,
+      { id: `as${Date.now()}`, name: "Admin", role: Role.ADMIN },
+    ]);
+
+  const handleMoveApprovalStep = (index: number, offset: -1 | 1) => {
+    const steps = [...approvalChain];
+    [steps[index], steps[index + offset]] = [steps[index + offset], steps[index]];
+    setApprovalChain(steps);
+  };
+
   const handleAddBlockedDate = (date: string) => {
     if (!date) return;
     if (localConfig.blockedDates.includes(date)) {
@@ -1035,10 +1513,38 @@ const Settings: React.FC<{
     });
   };
 
+  const today = getOrgToday(config);
+  const slotConflicts = useMemo(
+    () => getSlotOverrideConflicts(localConfig, leaves ?? [], today),
+    [localConfig, leaves, today]
+  );
+
   const handleSave = () => {
+    // Only ask about days the saved overrides don't already overbook
+    const saved = new Set(
+      getSlotOverrideConflicts(config, leaves ?? [], today).map((c) => `${c.date}|${c.shiftId}|${c.slots}`)
+    );
+    const newConflicts = slotConflicts.filter((c) => !saved.has(`${c.date}|${c.shiftId}|${c.slots}`));
+    if (newConflicts.length > 0) {
+      const lines = newConflicts
+        .slice(0, 10)
+        .map((c) => `${formatDate(c.date)} ${c.shiftName}: ${c.slots} slot(s), ${c.approved} approved`);
+      if (newConflicts.length > 10) lines.push(`...and ${newConflicts.length - 10} more`);
+      const confirmed = window.confirm(
+        `Slot overrides would leave fewer slots than leaves already approved:\n\n${lines.join("\n")}\n\nApproved leaves are kept. Save anyway?`
+      );
+      if (!confirmed) return;
+    }
     onSave(localConfig);
   };
 
+  const timeZones = useMemo(() => {
+    // Intl.supportedValuesOf is not in the ES2020 lib typings
+    const supported: string[] = (Intl as any).supportedValuesOf?.("timeZone") ?? [];
+    const zones = new Set([...supported, "UTC", getOrgTimeZone(localConfig)]);
+    return Array.from(zones).sort();
+  }, [localConfig.timeZone]);
+
   const weekDays = [
     { label: "Mon", value: 1 },
     { label: "Tue", value: 2 },
@@ -1096,7 +1602,25 @@ const Settings: React.FC<{
             </div>
 
             <div className="space-y-2">
-              <Label>Slot Opening Time (IST)</Label>
+              <Label>Organisation Time Zone</Label>
+              <Select
+                value={getOrgTimeZone(localConfig)}
+                onChange={(e) =>
+                  setLocalConfig({
+                    ...localConfig,
+                    timeZone: e.target.value,
+                  })
+                }>
+                {timeZones.map((zone) => (
+                  <option key={zone} value={zone}>
+                    {zone}
+                  </option>
+                ))}
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Slot Opening Time ({getOrgTimeZone(localConfig)})</Label>
               <Input
                 type="time"
                 value={localConfig.openingTime}
@@ -1210,6 +1734,11 @@ const Settings: React.FC<{
           </div>
         </div>
 
+        <HolidayCalendars
+          calendars={localConfig.holidayCalendars ?? []}
+          onChange={(holidayCalendars) => setLocalConfig({ ...localConfig, holidayCalendars })}
+        />
+
         <div className="space-y-4 pt-4 border-t dark:border-border/50">
           <div className="flex justify-between items-center">
             <Label className="text-lg font-bold">Shifts & Slots</Label>
@@ -1253,6 +1782,241 @@ const Settings: React.FC<{
           </div>
         </div>
 
+        <SlotOverrides
+          overrides={localConfig.slotOverrides ?? []}
+          shifts={localConfig.shifts}
+          conflicts={slotConflicts}
+          today={today}
+          onChange={(slotOverrides) => setLocalConfig({ ...localConfig, slotOverrides })}
+        />
+
+        <StaffingRules
+          rules={localConfig.staffingRules ?? []}
+          shifts={localConfig.shifts}
+          onChange={(staffingRules) => setLocalConfig({ ...localConfig, staffingRules })}
+        />
+
+        <div className="space-y-4 pt-4 border-t dark:border-border/50">
+          <Label className="text-lg font-bold">Roster Generator</Label>
+          <p className="text-sm text-muted-foreground">
+            Used by Generate Roster in the shift scheduler. Unpopular shifts are shared out using the last{" "}
+            {ROSTER_HISTORY_WEEKS} weeks of published rosters.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <Label>Night Shifts</Label>
+              {localConfig.shifts.map((shift) => (
+                <div key={shift.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`night-${shift.id}`}
+                    checked={rosterGenerator.nightShiftIds.includes(shift.id)}
+                    onCheckedChange={() => toggleGeneratorShift("nightShiftIds", shift.id)}
+                  />
+                  <Label htmlFor={`night-${shift.id}`} className="font-normal cursor-pointer">{shift.name}</Label>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <Label>Unpopular Shifts</Label>
+              {localConfig.shifts.map((shift) => (
+                <div key={shift.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`unpopular-${shift.id}`}
+                    checked={rosterGenerator.unpopularShiftIds.includes(shift.id)}
+                    onCheckedChange={() => toggleGeneratorShift("unpopularShiftIds", shift.id)}
+                  />
+                  <Label htmlFor={`unpopular-${shift.id}`} className="font-normal cursor-pointer">{shift.name}</Label>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="max-night-weeks">Max Consecutive Night Weeks</Label>
+              <Input
+                id="max-night-weeks"
+                type="number"
+                min="0"
+                value={rosterGenerator.maxConsecutiveNightWeeks}
+                onChange={(e) => setRosterGenerator({ maxConsecutiveNightWeeks: Math.max(0, Number(e.target.value)) })}
+              />
+              <p className="text-xs text-muted-foreground">0 means no limit.</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-4 pt-4 border-t dark:border-border/50">
+          <div className="flex justify-between items-center">
+            <Label className="text-lg font-bold">Lottery Mode</Label>
+            <Checkbox
+              checked={!!localConfig.lottery?.enabled}
+              onCheckedChange={(checked) =>
+                setLottery({ enabled: checked === true })
+              }
+              aria-label="Enable lottery mode"
+            />
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Requests made during the ballot after the window opens are allocated by a weighted draw.
+            Users with less approved leave in the history period get a better chance.
+          </p>
+          {localConfig.lottery?.enabled && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <Label>Ballot Period</Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min="1"
+                    max="168"
+                    value={localConfig.lottery.ballotHours}
+                    onChange={(e) => setLottery({ ballotHours: Math.max(1, Number(e.target.value)) })}
+                    className="w-24"
+                  />
+                  <span className="text-sm text-muted-foreground">Hours after the window opens</span>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>History Period</Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min="0"
+                    value={localConfig.lottery.historyDays}
+                    onChange={(e) => setLottery({ historyDays: Math.max(0, Number(e.target.value)) })}
+                    className="w-24"
+                  />
+                  <span className="text-sm text-muted-foreground">Days of leave history used for weights</span>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-4 pt-4 border-t dark:border-border/50">
+          <div className="flex justify-between items-center">
+            <Label className="text-lg font-bold">Approval Chain</Label>
+            <Button size="sm" onClick={handleAddApprovalStep}>
+              Add Step
+            </Button>
+          </div>
+          {approvalChain.length > 0 ? (
+            <ol className="space-y-2">
+              {approvalChain.map((step, index) => (
+                <li
+                  key={step.id}
+                  className="flex flex-wrap items-center gap-2 p-3 border rounded-lg bg-muted/30 dark:border-border/50">
+                  <span className="text-sm font-semibold w-6">{index + 1}.</span>
+                  <Input
+                    value={step.name}
+                    onChange={(e) => handleApprovalStepChange(step.id, { name: e.target.value })}
+                    className="flex-grow w-auto"
+                    aria-label={`Name of step ${index + 1}`}
+                  />
+                  <Select
+                    value={step.role}
+                    onChange={(e) => handleApprovalStepChange(step.id, { role: e.target.value as Role })}
+                    className="w-44"
+                    aria-label={`Approver role for step ${index + 1}`}>
+                    <option value={Role.SHIFT_MANAGER}>Shift Manager</option>
+                    <option value={Role.ADMIN}>Admin</option>
+                  </Select>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8"
+                    onClick={() => handleMoveApprovalStep(index, -1)}
+                    disabled={index === 0}
+                    aria-label="Move step up">
+                    ↑
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8"
+                    onClick={() => handleMoveApprovalStep(index, 1)}
+                    disabled={index === approvalChain.length - 1}
+                    aria-label="Move step down">
+                    ↓
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => setApprovalChain(approvalChain.filter((s) => s.id !== step.id))}>
+                    <span className="text-lg">×</span>
+                  </Button>
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              No chain configured: a single approval by anyone with access to Leaves Management is enough.
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-4 pt-4 border-t dark:border-border/50">
+          <div className="flex justify-between items-center">
+            <Label className="text-lg font-bold">Leave Types</Label>
+            <Button size="sm" onClick={handleAddLeaveType}>
+              Add Leave Type
+            </Button>
+          </div>
+          <div className="space-y-2">
+            {leaveTypes.map((type) => (
+              <div
+                key={type.id}
+                className="flex flex-wrap items-center gap-2 p-3 border rounded-lg bg-muted/30 dark:border-border/50">
+                <input
+                  type="color"
+                  value={type.color}
+                  onChange={(e) => handleLeaveTypeChange(type.id, { color: e.target.value })}
+                  className="h-8 w-8 rounded border-0 bg-transparent cursor-pointer"
+                  aria-label={`Colour for ${type.name}`}
+                />
+                <Input
+                  value={type.name}
+                  onChange={(e) => handleLeaveTypeChange(type.id, { name: e.target.value })}
+                  className="flex-grow w-auto"
+                />
+                <div className="flex items-center gap-1">
+                  <span className="text-xs text-muted-foreground">Notice:</span>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={type.minNoticeDays === null ? "" : type.minNoticeDays}
+                    onChange={(e) =>
+                      handleLeaveTypeChange(type.id, {
+                        minNoticeDays: e.target.value === "" ? null : Math.max(0, Number(e.target.value)),
+                      })
+                    }
+                    className="w-20"
+                    placeholder="Default"
+                  />
+                </div>
+                <label className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                    checked={type.consumesSlot}
+                    onChange={(e) => handleLeaveTypeChange(type.id, { consumesSlot: e.target.checked })}
+                  />
+                  Uses slot
+                </label>
+                <Button
+                  variant="destructive"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => handleRemoveLeaveType(type.id)}>
+                  <span className="text-lg">×</span>
+                </Button>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Leave the notice blank to use the global notice period. Types that don't use a slot can be booked on full days.
+          </p>
+        </div>
+
         <Button onClick={handleSave} disabled={isLoading} className="w-full">
           {isLoading ? "Saving..." : "Save Configuration"}
         </Button>
@@ -1273,7 +2037,10 @@ const getUserStatusBadge = (status: UserStatus) => {
   }
 };
 
-const UserManagement: React.FC = () => {
+const UserManagement: React.FC<{ currentUser: User; shifts: Shift[] }> = ({ currentUser, shifts }) => {
+  const { can } = usePermissions(currentUser);
+  const canManageUsers = can(Permission.MANAGE_USERS);
+  const canResetPasswords = can(Permission.RESET_PASSWORDS);
   const { data: users, isLoading, isError } = useAllUsers();
   const updateUserStatusMutation = useUpdateUserStatusMutation();
   const resetPasswordMutation = useResetUserPasswordMutation();
@@ -1292,11 +2059,13 @@ const UserManagement: React.FC = () => {
     mobile: string | undefined;
     email: string | undefined;
     status: UserStatus;
+    shiftPreferences: ShiftPreferences;
   }>({
     name: "",
     mobile: undefined,
     email: undefined,
     status: UserStatus.PENDING,
+    shiftPreferences: { preferredShiftIds: [], avoidShiftIds: [] },
   });
 
   const handleUpdateUserStatus = (userId: string, status: UserStatus) => {
@@ -1390,6 +2159,7 @@ const UserManagement: React.FC = () => {
       mobile: user.mobile || undefined,
       email: user.email || undefined,
       status: user.status,
+      shiftPreferences: user.shiftPreferences ?? { preferredShiftIds: [], avoidShiftIds: [] },
     });
   };
 
@@ -1411,6 +2181,16 @@ const UserManagement: React.FC = () => {
     setEditForm((prev) => ({ ...prev, [field]: value }));
   };
 
+  const handleShiftPreferenceChange = (shiftId: string, value: "" | "prefer" | "avoid") => {
+    setEditForm((prev) => {
+      const preferredShiftIds = prev.shiftPreferences.preferredShiftIds.filter((id) => id !== shiftId);
+      const avoidShiftIds = prev.shiftPreferences.avoidShiftIds.filter((id) => id !== shiftId);
+      if (value === "prefer") preferredShiftIds.push(shiftId);
+      if (value === "avoid") avoidShiftIds.push(shiftId);
+      return { ...prev, shiftPreferences: { preferredShiftIds, avoidShiftIds } };
+    });
+  };
+
   const handleSaveEdit = async () => {
     if (!editUser) return;
     if (
@@ -1538,21 +2318,25 @@ const UserManagement: React.FC = () => {
                 </p>
               </div>
               <div className="flex gap-2 flex-shrink-0 mt-2 sm:mt-0">
-                <Button
-                  size="sm"
-                  variant="outline"
-                  onClick={() => handleOpenEdit(user)}
-                  disabled={updateUserMutation.isPending}>
-                  Edit
-                </Button>
-                <Button
-                  size="sm"
-                  variant="destructive"
-                  onClick={() => handleDeleteUser(user)}
-                  disabled={updateUserMutation.isPending}>
-                  Delete
-                </Button>
-                {user.status === UserStatus.PENDING && (
+                {canManageUsers && (
+                  <>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleOpenEdit(user)}
+                      disabled={updateUserMutation.isPending}>
+                      Edit
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => handleDeleteUser(user)}
+                      disabled={updateUserMutation.isPending}>
+                      Delete
+                    </Button>
+                  </>
+                )}
+                {canManageUsers && user.status === UserStatus.PENDING && (
                   <Button
                     size="sm"
                     variant="outline"
@@ -1563,7 +2347,7 @@ const UserManagement: React.FC = () => {
                     Approve
                   </Button>
                 )}
-                {user.status === UserStatus.ACTIVE && (
+                {canResetPasswords && user.status === UserStatus.ACTIVE && (
                   <>
                     <Button
                       size="sm"
@@ -1575,7 +2359,7 @@ const UserManagement: React.FC = () => {
                     </Button>
                   </>
                 )}
-                {user.status === UserStatus.INACTIVE && (
+                {canResetPasswords && user.status === UserStatus.INACTIVE && (
                   <>
                     <Button
                       size="sm"
@@ -1647,6 +2431,37 @@ const UserManagement: React.FC = () => {
                   </Select>
                 </div>
 
+                {shifts.length > 0 && (
+                  <div className="grid gap-2">
+                    <Label>Shift Preferences</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Used by the roster generator; not guaranteed.
+                    </p>
+                    {shifts.map((shift) => (
+                      <div key={shift.id} className="flex items-center justify-between gap-2">
+                        <span className="text-sm">{shift.name}</span>
+                        <Select
+                          value={
+                            editForm.shiftPreferences.preferredShiftIds.includes(shift.id)
+                              ? "prefer"
+                              : editForm.shiftPreferences.avoidShiftIds.includes(shift.id)
+                                ? "avoid"
+                                : ""
+                          }
+                          onChange={(e) =>
+                            handleShiftPreferenceChange(shift.id, e.target.value as "" | "prefer" | "avoid")
+                          }
+                          className="h-8 w-40"
+                          aria-label={`Preference for ${shift.name}`}>
+                          <option value="">No preference</option>
+                          <option value="prefer">Prefer</option>
+                          <option value="avoid">Avoid</option>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 <div className="flex justify-end gap-2">
                   <Button
                     variant="outline"
@@ -1725,23 +2540,19 @@ const UserManagement: React.FC = () => {
 
 const PermissionManagement: React.FC<{
   users: User[];
-  onUpdatePermissions: (userId: string, allowedTabs: string[]) => void;
+  config: Config;
+  onUpdatePermissions: (userId: string, permissions: UserPermissions) => void;
+  onSaveRoles: (roles: PermissionRole[]) => void;
   isLoading: boolean;
-}> = ({ users, onUpdatePermissions, isLoading }) => {
+}> = ({ users, config, onUpdatePermissions, onSaveRoles, isLoading }) => {
   const [selectedUserId, setSelectedUserId] = useState("");
-  const [selectedTabs, setSelectedTabs] = useState<string[]>([]);
+  const [userPermissions, setUserPermissions] = useState<UserPermissions>({ roleIds: [], permissions: [], shiftIds: [] });
   const [openUserCombobox, setOpenUserCombobox] = useState(false);
+  const [roles, setRoles] = useState<PermissionRole[]>(() => getPermissionRoles(config));
 
-  // Available tabs to control access to
-  const availableTabs = [
-    { id: "management", label: "Leaves Management" },
-    { id: "create", label: "Create Leave" },
-    { id: "users", label: "User Management" },
-    { id: "reports", label: "Reports" },
-    { id: "settings", label: "Settings" },
-    { id: "shifts", label: "Shifts" },
-    { id: "roles", label: "Roles & Permissions" },
-  ];
+  useEffect(() => setRoles(getPermissionRoles(config)), [config]);
+
+  const allPermissions = Object.values(Permission);
 
   const selectedUser = useMemo(() => {
     return users.find((u) => u.id === selectedUserId);
@@ -1749,32 +2560,50 @@ const PermissionManagement: React.FC<{
 
   useEffect(() => {
     if (selectedUser) {
-      setSelectedTabs(selectedUser.allowedTabs || []);
+      setUserPermissions(getUserPermissions(selectedUser));
     } else {
-      setSelectedTabs([]);
+      setUserPermissions({ roleIds: [], permissions: [], shiftIds: [] });
     }
   }, [selectedUser]);
 
-  const handleToggleTab = (tabId: string) => {
-    setSelectedTabs(prev =>
-      prev.includes(tabId)
-        ? prev.filter(t => t !== tabId)
-        : [...prev, tabId]
-    );
-  };
+  const toggle = <T,>(list: T[], item: T) =>
+    list.includes(item) ? list.filter((i) => i !== item) : [...list, item];
+
+  const permissionsFromRoles = new Set(
+    roles.filter((r) => userPermissions.roleIds.includes(r.id)).flatMap((r) => r.permissions)
+  );
 
   const handleSave = () => {
     if (selectedUserId) {
-      onUpdatePermissions(selectedUserId, selectedTabs);
+      onUpdatePermissions(selectedUserId, {
+        ...userPermissions,
+        // Drop role ids whose role has since been deleted
+        roleIds: userPermissions.roleIds.filter((id) => roles.some((r) => r.id === id)),
+      });
+    }
+  };
+
+  const handleRoleChange = (roleId: string, changes: Partial<PermissionRole>) =>
+    setRoles(roles.map((r) => (r.id === roleId ? { ...r, ...changes } : r)));
+
+  const handleAddRole = () =>
+    setRoles([...roles, { id: `pr${Date.now()}`, name: "New Role", permissions: [] }]);
+
+  const handleRemoveRole = (role: PermissionRole) => {
+    const holders = users.filter((u) => u.permissions?.roleIds.includes(role.id)).length;
+    if (holders > 0 && !window.confirm(`${holders} user(s) have the "${role.name}" role. Remove it anyway?`)) {
+      return;
     }
+    setRoles(roles.filter((r) => r.id !== role.id));
   };
 
   return (
+    <div className="space-y-4">
     <Card>
       <CardHeader>
         <CardTitle>User Permission Management</CardTitle>
         <CardDescription>
-          Select a user and assign access to specific dashboard tabs.
+          Give a user roles and individual permissions, optionally limited to some shifts.
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
@@ -1826,20 +2655,83 @@ const PermissionManagement: React.FC<{
           </Popover>
         </div>
 
-        {selectedUser && (
-          <div className="space-y-4">
-            <Label>Allowed Tabs</Label>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 border p-4 rounded-md dark:border-border/50">
-              {availableTabs.map((tab) => (
-                <div key={tab.id} className="flex items-center space-x-2">
-                  <Checkbox
-                    id={tab.id}
-                    checked={selectedTabs.includes(tab.id)}
-                    onCheckedChange={() => handleToggleTab(tab.id)}
-                  />
-                  <Label htmlFor={tab.id} className="cursor-pointer">{tab.label}</Label>
-                </div>
-              ))}
+        {selectedUser && selectedUser.role === Role.ADMIN && (
+          <p className="text-sm text-muted-foreground">Admins have every permission.</p>
+        )}
+
+        {selectedUser && selectedUser.role !== Role.ADMIN && (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <Label>Roles</Label>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 border p-4 rounded-md dark:border-border/50">
+                {roles.map((role) => (
+                  <div key={role.id} className="flex items-start space-x-2">
+                    <Checkbox
+                      id={`role-${role.id}`}
+                      checked={userPermissions.roleIds.includes(role.id)}
+                      onCheckedChange={() =>
+                        setUserPermissions({ ...userPermissions, roleIds: toggle(userPermissions.roleIds, role.id) })
+                      }
+                    />
+                    <Label htmlFor={`role-${role.id}`} className="cursor-pointer">
+                      {role.name}
+                      <span className="block text-xs font-normal text-muted-foreground">
+                        {role.permissions.map((p) => PERMISSION_LABELS[p]).join(", ") || "No permissions"}
+                      </span>
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Additional Permissions</Label>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 border p-4 rounded-md dark:border-border/50">
+                {allPermissions.map((permission) => {
+                  const fromRole = permissionsFromRoles.has(permission);
+                  return (
+                    <div key={permission} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`permission-${permission}`}
+                        checked={fromRole || userPermissions.permissions.includes(permission)}
+                        disabled={fromRole}
+                        onCheckedChange={() =>
+                          setUserPermissions({
+                            ...userPermissions,
+                            permissions: toggle(userPermissions.permissions, permission),
+                          })
+                        }
+                      />
+                      <Label htmlFor={`permission-${permission}`} className={fromRole ? "text-muted-foreground" : "cursor-pointer"}>
+                        {PERMISSION_LABELS[permission]}
+                        {fromRole && <span className="text-xs"> (from role)</span>}
+                      </Label>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Shift Scope</Label>
+              <p className="text-sm text-muted-foreground">
+                Limits {SHIFT_SCOPED_PERMISSIONS.map((p) => PERMISSION_LABELS[p].toLowerCase()).join(", ")} to the
+                ticked shifts. Leave all unticked for every shift.
+              </p>
+              <div className="flex flex-wrap gap-4 border p-4 rounded-md dark:border-border/50">
+                {config.shifts.map((shift) => (
+                  <div key={shift.id} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`scope-${shift.id}`}
+                      checked={userPermissions.shiftIds.includes(shift.id)}
+                      onCheckedChange={() =>
+                        setUserPermissions({ ...userPermissions, shiftIds: toggle(userPermissions.shiftIds, shift.id) })
+                      }
+                    />
+                    <Label htmlFor={`scope-${shift.id}`} className="cursor-pointer">{shift.name}</Label>
+                  </div>
+                ))}
+              </div>
             </div>
 
             <div className="flex justify-end pt-4">
@@ -1851,6 +2743,64 @@ const PermissionManagement: React.FC<{
         )}
       </CardContent>
     </Card>
+
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle>Roles</CardTitle>
+            <CardDescription>Named sets of permissions that can be given to users.</CardDescription>
+          </div>
+          <Button size="sm" onClick={handleAddRole}>
+            Add Role
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {roles.map((role) => (
+          <div key={role.id} className="p-3 border rounded-lg space-y-3 bg-muted/30 dark:border-border/50">
+            <div className="flex items-center gap-2">
+              <Input
+                value={role.name}
+                onChange={(e) => handleRoleChange(role.id, { name: e.target.value })}
+                className="flex-grow"
+                aria-label="Role name"
+              />
+              <Button
+                variant="destructive"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => handleRemoveRole(role)}
+                aria-label={`Remove ${role.name}`}>
+                <span className="text-lg">×</span>
+              </Button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+              {allPermissions.map((permission) => (
+                <div key={permission} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`${role.id}-${permission}`}
+                    checked={role.permissions.includes(permission)}
+                    onCheckedChange={() =>
+                      handleRoleChange(role.id, { permissions: toggle(role.permissions, permission) })
+                    }
+                  />
+                  <Label htmlFor={`${role.id}-${permission}`} className="text-sm font-normal cursor-pointer">
+                    {PERMISSION_LABELS[permission]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+        <div className="flex justify-end">
+          <Button onClick={() => onSaveRoles(roles)} disabled={isLoading}>
+            {isLoading ? "Saving..." : "Save Roles"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+    </div>
   );
 };
 
@@ -1862,8 +2812,9 @@ const AdminDashboard: React.FC<{ user: User }> = ({ user }) => {
     return isAdmin ? "analytics" : "dashboard";
   });
 
-  const isAdmin = user.role === Role.ADMIN;
-  const hasAccess = (tab: string) => isAdmin || user.allowedTabs?.includes(tab);
+  const { can } = usePermissions(user);
+  const canManageUsers = can(Permission.MANAGE_USERS) || can(Permission.RESET_PASSWORDS);
+  const [drillDown, setDrillDown] = useState<LeaveDrillDown | null>(null);
 
 
 
@@ -1886,6 +2837,9 @@ const AdminDashboard: React.FC<{ user: User }> = ({ user }) => {
   const updateStatusMutation = useUpdateLeaveStatusMutation();
   const updateMultipleStatusesMutation =
     useUpdateMultipleLeaveStatusesMutation();
+  const updateGroupStatusMutation = useUpdateLeaveGroupStatusMutation();
+  const { data: waitlist } = useWaitlist({ enabled: can(Permission.APPROVE_LEAVE) });
+  const { data: delegations } = useDelegations({ enabled: can(Permission.APPROVE_LEAVE) });
   const updateConfigMutation = useUpdateConfigMutation();
   const createLeaveMutation = useCreateLeaveMutation();
   const updateUserMutation = useUpdateUserMutation();
@@ -1901,9 +2855,13 @@ const AdminDashboard: React.FC<{ user: User }> = ({ user }) => {
     }
 
     toast
-      .promise(updateStatusMutation.mutateAsync(mutationData), {
+      .promise(updateStatusMutation.mutateAsync(mutationData) as Promise<Leave>, {
         loading: "Updating status...",
-        success: () => `Leave has been ${status.toLowerCase()}.`,
+        // With an approval chain an approval may only move the leave to the next step
+        success: (updated: Leave) =>
+          updated.status === LeaveStatus.PENDING
+            ? "Approval recorded. Waiting for the next approver."
+            : `Leave has been ${status.toLowerCase()}.`,
         error: (error: any) =>
           error.response?.data?.message || "Failed to update leave status.",
       })
@@ -1931,6 +2889,24 @@ const AdminDashboard: React.FC<{ user: User }> = ({ user }) => {
       .catch(() => { });
   };
 
+  const handleGroupStatusChange = (
+    groupId: string,
+    status: LeaveStatus.APPROVED | LeaveStatus.REJECTED,
+    reason?: string
+  ) => {
+    toast
+      .promise(updateGroupStatusMutation.mutateAsync({ groupId, status, reason }) as Promise<Leave[]>, {
+        loading: "Updating request...",
+        success: (updatedData: Leave[]) =>
+          updatedData.some((l) => l.status === LeaveStatus.PENDING)
+            ? "Approval recorded. Waiting for the next approver."
+            : `${updatedData.length} day(s) have been ${status.toLowerCase()}.`,
+        error: (error: any) =>
+          error.response?.data?.message || "Failed to update leave request.",
+      })
+      .catch(() => { });
+  };
+
   const handleConfigSave = (newConfig: Config) => {
     toast
       .promise(updateConfigMutation.mutateAsync(newConfig), {
@@ -1942,7 +2918,7 @@ const AdminDashboard: React.FC<{ user: User }> = ({ user }) => {
       .catch(() => { });
   };
 
-  const handleCreateLeave = (data: { userId: string; date: string; shiftId: string; status?: LeaveStatus; creatorId?: string }) => {
+  const handleCreateLeave = (data: { userId: string; date: string; shiftId: string; leaveTypeId?: string; status?: LeaveStatus; creatorId?: string }) => {
     const finalData = {
       ...data,
       creatorId: user.id, // Set the current admin as the creator
@@ -1959,9 +2935,14 @@ const AdminDashboard: React.FC<{ user: User }> = ({ user }) => {
   };
 
 
-  const handleUpdatePermissions = (userId: string, allowedTabs: string[]) => {
+  const handleDrillDown = (filter: LeaveDrillDown) => {
+    setDrillDown(filter);
+    setActiveTab("management");
+  };
+
+  const handleUpdatePermissions = (userId: string, permissions: UserPermissions) => {
     toast
-      .promise(updateUserMutation.mutateAsync({ userId, allowedTabs }), {
+      .promise(updateUserMutation.mutateAsync({ userId, permissions }), {
         loading: "Updating user permissions...",
         success: "User permissions updated successfully!",
         error: (error: any) =>
@@ -2006,6 +2987,7 @@ const AdminDashboard: React.FC<{ user: User }> = ({ user }) => {
     updateStatusMutation.isPending ||
     updateConfigMutation.isPending ||
     updateMultipleStatusesMutation.isPending ||
+    updateGroupStatusMutation.isPending ||
     createLeaveMutation.isPending;
 
   return (
@@ -2013,61 +2995,85 @@ const AdminDashboard: React.FC<{ user: User }> = ({ user }) => {
       <Tabs className="w-full">
         <div className="overflow-x-auto scrollbar-hide -mx-2 px-2 pb-2">
           <TabsList className="inline-flex w-max sm:w-full justify-start sm:justify-center gap-1">
+            {can(Permission.VIEW_ANALYTICS) && (
+              <TabsTrigger
+                onClick={() => setActiveTab("analytics")}
+                active={activeTab === "analytics"}>
+                <BarChartIcon className="w-4 h-4 mr-2" /> Analytics
+              </TabsTrigger>
+            )}
             <TabsTrigger
               onClick={() => setActiveTab("dashboard")}
               active={activeTab === "dashboard"}
             >
               <HomeIcon className="w-4 h-4 mr-2" /> My Dashboard
             </TabsTrigger>
-            {hasAccess("management") && (
+            {can(Permission.APPROVE_LEAVE) && (
               <TabsTrigger
-                onClick={() => setActiveTab("management")}
+                onClick={() => {
+                  setDrillDown(null);
+                  setActiveTab("management");
+                }}
                 active={activeTab === "management"}>
                 <ListIcon className="w-4 h-4 mr-2" /> Leaves
               </TabsTrigger>
             )}
-            {hasAccess("create") && (
+            {can(Permission.CREATE_LEAVE_FOR_OTHERS) && (
               <TabsTrigger
                 onClick={() => setActiveTab("create")}
                 active={activeTab === "create"}>
                 <ListIcon className="w-4 h-4 mr-2" /> Create
               </TabsTrigger>
             )}
-            {hasAccess("users") && (
+            {canManageUsers && (
               <TabsTrigger
                 onClick={() => setActiveTab("users")}
                 active={activeTab === "users"}>
                 <UsersIcon className="w-4 h-4 mr-2" /> Users
               </TabsTrigger>
             )}
-            {hasAccess("reports") && (
+            {can(Permission.VIEW_REPORTS) && (
               <TabsTrigger
                 onClick={() => setActiveTab("reports")}
                 active={activeTab === "reports"}>
                 <DownloadIcon className="w-4 h-4 mr-2" /> Reports
               </TabsTrigger>
             )}
-            {hasAccess("settings") && (
+            {can(Permission.EDIT_CONFIG) && (
               <TabsTrigger
                 onClick={() => setActiveTab("settings")}
                 active={activeTab === "settings"}>
                 <SettingsIcon className="w-4 h-4 mr-2" /> Settings
               </TabsTrigger>
             )}
-            {hasAccess("roles") && (
+            {can(Permission.MANAGE_PERMISSIONS) && (
               <TabsTrigger
                 onClick={() => setActiveTab("roles")}
                 active={activeTab === "roles"}>
                 <KeyIcon className="w-4 h-4 mr-2" /> Permissions
               </TabsTrigger>
             )}
-            {hasAccess("shifts") && (
+            {can(Permission.MANAGE_SHIFTS) && (
               <TabsTrigger
                 onClick={() => setActiveTab("shifts")}
                 active={activeTab === "shifts"}>
                 <ListIcon className="w-4 h-4 mr-2" /> Shifts
               </TabsTrigger>
             )}
+            {can(Permission.MANAGE_ENTITLEMENTS) && (
+              <TabsTrigger
+                onClick={() => setActiveTab("entitlements")}
+                active={activeTab === "entitlements"}>
+                <CalendarIcon className="w-4 h-4 mr-2" /> Entitlements
+              </TabsTrigger>
+            )}
+            {can(Permission.VIEW_ACTIVITY) && (
+              <TabsTrigger
+                onClick={() => setActiveTab("activity")}
+                active={activeTab === "activity"}>
+                <ListIcon className="w-4 h-4 mr-2" /> Activity
+              </TabsTrigger>
+            )}
           </TabsList>
         </div>
 
@@ -2078,60 +3084,112 @@ const AdminDashboard: React.FC<{ user: User }> = ({ user }) => {
             </TabsContent>
           )}
 
-          {hasAccess("management") && activeTab === "management" && (
+          {can(Permission.VIEW_ANALYTICS) && activeTab === "analytics" && (
+            <TabsContent>
+              <Analytics leaves={allLeaves} config={config} onDrillDown={handleDrillDown} />
+            </TabsContent>
+          )}
+
+          {can(Permission.APPROVE_LEAVE) && activeTab === "management" && (
             <TabsContent>
               <LeaveManagement
-                leaves={allLeaves}
+                leaves={allLeaves.filter((l) => can(Permission.APPROVE_LEAVE, l.shiftId))}
+                config={config}
+                waitlist={waitlist || []}
+                currentUser={user}
+                users={users}
+                delegations={delegations || []}
+                drillDown={drillDown}
+                onClearDrillDown={() => setDrillDown(null)}
                 onStatusChange={handleStatusChange}
                 onBulkStatusChange={handleBulkStatusChange}
+                onGroupStatusChange={handleGroupStatusChange}
                 isActionLoading={isActionLoading}
               />
+              <div className="mt-4 space-y-4">
+                <SwapApprovals canApproveShift={(shiftId) => can(Permission.APPROVE_LEAVE, shiftId)} />
+                <ApprovalDelegation currentUser={user} users={users} config={config} />
+                {/* The draw decides every shift's ballot at once */}
+                {config.shifts.every((s) => can(Permission.APPROVE_LEAVE, s.id)) && (
+                  <LotteryDraw config={config} leaves={allLeaves} />
+                )}
+              </div>
             </TabsContent>
           )}
 
 
-          {hasAccess("roles") && activeTab === "roles" && (
+          {can(Permission.MANAGE_PERMISSIONS) && activeTab === "roles" && (
             <TabsContent>
               <PermissionManagement
                 users={users}
+                config={config}
                 onUpdatePermissions={handleUpdatePermissions}
-                isLoading={updateUserMutation.isPending}
+                onSaveRoles={(permissionRoles) => handleConfigSave({ ...config, permissionRoles })}
+                isLoading={updateUserMutation.isPending || updateConfigMutation.isPending}
               />
             </TabsContent>
           )}
 
-          {hasAccess("create") && activeTab === "create" && (
+          {can(Permission.CREATE_LEAVE_FOR_OTHERS) && activeTab === "create" && (
             <TabsContent>
               <CreateLeave
                 users={users}
-                config={config}
+                config={{ ...config, shifts: config.shifts.filter((s) => can(Permission.CREATE_LEAVE_FOR_OTHERS, s.id)) }}
                 onCreate={handleCreateLeave}
                 isLoading={isActionLoading}
               />
             </TabsContent>
           )}
-          {hasAccess("users") && activeTab === "users" && (
+          {canManageUsers && activeTab === "users" && (
             <TabsContent>
-              <UserManagement />
+              <UserManagement currentUser={user} shifts={config.shifts} />
             </TabsContent>
           )}
-          {hasAccess("reports") && activeTab === "reports" && (
+          {can(Permission.VIEW_REPORTS) && activeTab === "reports" && (
             <TabsContent>
-              <Reports leaves={allLeaves} />
+              <Reports
+                leaves={allLeaves.filter((l) => can(Permission.VIEW_REPORTS, l.shiftId))}
+                config={config}
+                users={users}
+              />
             </TabsContent>
           )}
-          {hasAccess("settings") && activeTab === "settings" && (
+          {can(Permission.EDIT_CONFIG) && activeTab === "settings" && (
             <TabsContent>
               <Settings
                 config={config}
+                leaves={allLeaves}
                 onSave={handleConfigSave}
                 isLoading={isActionLoading}
               />
             </TabsContent>
           )}
-          {hasAccess("shifts") && activeTab === "shifts" && (
+          {can(Permission.MANAGE_SHIFTS) && activeTab === "shifts" && (
+            <TabsContent className="space-y-6">
+              <ShiftManagement
+                users={users || []}
+                shifts={config.shifts.filter((s) => can(Permission.MANAGE_SHIFTS, s.id))}
+                leaves={allLeaves}
+                staffingRules={config.staffingRules ?? []}
+                rosterGenerator={config.rosterGenerator}
+              />
+              <RotationPatterns
+                users={users || []}
+                shifts={config.shifts.filter((s) => can(Permission.MANAGE_SHIFTS, s.id))}
+                config={config}
+                onSave={handleConfigSave}
+                isSaving={updateConfigMutation.isPending}
+              />
+            </TabsContent>
+          )}
+          {can(Permission.MANAGE_ENTITLEMENTS) && activeTab === "entitlements" && (
+            <TabsContent>
+              <EntitlementManagement users={users} config={config} />
+            </TabsContent>
+          )}
+          {can(Permission.VIEW_ACTIVITY) && activeTab === "activity" && (
             <TabsContent>
-              <ShiftManagement users={users || []} shifts={config.shifts} />
+              <ActivityLog users={users} />
             </TabsContent>
           )}
         </div>
@@ -0,0 +1,416 @@
+import React, { useMemo, useState } from "react";
+import {
+    ResponsiveContainer,
+    BarChart,
+    PieChart,
+    Pie,
+    Cell,
+    CartesianGrid,
+    XAxis,
+    YAxis,
+    Tooltip,
+    Legend,
+    Bar,
+} from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, Input } from "./ui";
+import { Config, Leave, LeaveStatus } from "../types";
+import { useSlotInfoForDateRange } from "../hooks/useLeaves";
+import { formatDate } from "../utils/date";
+import {
+    LeaveDrillDown,
+    HEATMAP_WEEKDAYS,
+    getDecisionRates,
+    getLeadTimeDistribution,
+    getLeavesInRange,
+    getShiftVolume,
+    getWeekdayHeatmap,
+    getWeeklyUtilisation,
+    getWeeklyVolume,
+} from "../utils/analytics";
+
+interface AnalyticsProps {
+    leaves: Leave[];
+    config: Config;
+    onDrillDown: (filter: LeaveDrillDown) => void;
+}
+
+interface DateRange {
+    startDate: string;
+    endDate: string;
+}
+
+const STATUS_COLORS = {
+    approved: "#22c55e",
+    pending: "#eab308",
+    rejected: "#ef4444",
+};
+
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const toIsoDate = (date: Date) => date.toISOString().split("T")[0];
+
+// Eight weeks back and four ahead: leave is booked in advance, so the
+// upcoming weeks are where the demand shows up.
+const getDefaultRange = (): DateRange => {
+    const now = Date.now();
+    const day = 24 * 60 * 60 * 1000;
+    return { startDate: toIsoDate(new Date(now - 56 * day)), endDate: toIsoDate(new Date(now + 28 * day)) };
+};
+
+const shortDate = (date: string) => formatDate(date).slice(0, 5);
+
+const clampToRange = (startDate: string, endDate: string, range: DateRange) => ({
+    startDate: startDate < range.startDate ? range.startDate : startDate,
+    endDate: endDate > range.endDate ? range.endDate : endDate,
+});
+
+const describeRange = (range: DateRange) => `${formatDate(range.startDate)} to ${formatDate(range.endDate)}`;
+
+const ChartCard: React.FC<{
+    title: string;
+    description: string;
+    children: (range: DateRange) => React.ReactNode;
+}> = ({ title, description, children }) => {
+    const [range, setRange] = useState(getDefaultRange);
+    const isValid = !!range.startDate && !!range.endDate && range.startDate <= range.endDate;
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex flex-col sm:flex-row justify-between items-start gap-4">
+                    <div>
+                        <CardTitle className="text-lg">{title}</CardTitle>
+                        <CardDescription>{description}</CardDescription>
+                    </div>
+                    <div className="flex items-center gap-2 text-sm">
+                        <Input
+                            type="date"
+                            value={range.startDate}
+                            onChange={(e) => setRange({ ...range, startDate: e.target.value })}
+                            className="h-8 w-36"
+                            aria-label={`${title} start date`}
+                        />
+                        <span className="text-muted-foreground">to</span>
+                        <Input
+                            type="date"
+                            value={range.endDate}
+                            min={range.startDate}
+                            onChange={(e) => setRange({ ...range, endDate: e.target.value })}
+                            className="h-8 w-36"
+                            aria-label={`${title} end date`}
+                        />
+                    </div>
+                </div>
+            </CardHeader>
+            <CardContent>
+                {isValid ? (
+                    children(range)
+                ) : (
+                    <p className="text-sm text-muted-foreground text-center py-12">Choose a start date before the end date.</p>
+                )}
+            </CardContent>
+        </Card>
+    );
+};
+
+const EmptyChart: React.FC = () => (
+    <p className="text-sm text-muted-foreground text-center py-12">No leaves in this period.</p>
+);
+
+const DRILL_DOWN_HINT = "Click a bar to see the matching leaves.";
+
+const WeeklyVolumeChart: React.FC<AnalyticsProps & { range: DateRange }> = ({ leaves, range, onDrillDown }) => {
+    const data = useMemo(() => getWeeklyVolume(leaves, range.startDate, range.endDate), [leaves, range]);
+
+    if (data.every((w) => w.approved + w.pending + w.rejected === 0)) return <EmptyChart />;
+
+    const handleClick = (index: number) => {
+        const week = data[index];
+        onDrillDown({ label: `Week of ${formatDate(week.weekStart)}`, ...clampToRange(week.weekStart, week.weekEnd, range) });
+    };
+
+    return (
+        <>
+            <ResponsiveContainer width="100%" height={280}>
+                <BarChart data={data.map((w) => ({ ...w, week: shortDate(w.weekStart) }))}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="week" fontSize={12} />
+                    <YAxis allowDecimals={false} fontSize={12} />
+                    <Tooltip labelFormatter={(label) => `Week of ${label}`} />
+                    <Legend />
+                    <Bar dataKey="approved" name="Approved" stackId="status" fill={STATUS_COLORS.approved} cursor="pointer" onClick={(_, index) => handleClick(index)} />
+                    <Bar dataKey="pending" name="Pending" stackId="status" fill={STATUS_COLORS.pending} cursor="pointer" onClick={(_, index) => handleClick(index)} />
+                    <Bar dataKey="rejected" name="Rejected" stackId="status" fill={STATUS_COLORS.rejected} cursor="pointer" onClick={(_, index) => handleClick(index)} />
+                </BarChart>
+            </ResponsiveContainer>
+            <p className="text-xs text-muted-foreground mt-2">{DRILL_DOWN_HINT}</p>
+        </>
+    );
+};
+
+const ShiftVolumeChart: React.FC<AnalyticsProps & { range: DateRange }> = ({ leaves, config, range, onDrillDown }) => {
+    const data = useMemo(
+        () => getShiftVolume(getLeavesInRange(leaves, range.startDate, range.endDate), config),
+        [leaves, config, range]
+    );
+
+    if (data.every((s) => s.approved + s.pending + s.rejected === 0)) return <EmptyChart />;
+
+    const handleClick = (index: number) => {
+        const shift = data[index];
+        onDrillDown({ label: `${shift.shiftName}, ${describeRange(range)}`, ...range, shiftId: shift.shiftId });
+    };
+
+    return (
+        <>
+            <ResponsiveContainer width="100%" height={280}>
+                <BarChart data={data}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="shiftName" fontSize={12} />
+                    <YAxis allowDecimals={false} fontSize={12} />
+                    <Tooltip />
+                    <Legend />
+                    <Bar dataKey="approved" name="Approved" stackId="status" fill={STATUS_COLORS.approved} cursor="pointer" onClick={(_, index) => handleClick(index)} />
+                    <Bar dataKey="pending" name="Pending" stackId="status" fill={STATUS_COLORS.pending} cursor="pointer" onClick={(_, index) => handleClick(index)} />
+                    <Bar dataKey="rejected" name="Rejected" stackId="status" fill={STATUS_COLORS.rejected} cursor="pointer" onClick={(_, index) => handleClick(index)} />
+                </BarChart>
+            </ResponsiveContainer>
+            <p className="text-xs text-muted-foreground mt-2">{DRILL_DOWN_HINT}</p>
+        </>
+    );
+};
+
+const DecisionRatesChart: React.FC<AnalyticsProps & { range: DateRange }> = ({ leaves, range, onDrillDown }) => {
+    const rates = useMemo(() => getDecisionRates(getLeavesInRange(leaves, range.startDate, range.endDate)), [leaves, range]);
+
+    if (rates.total === 0) return <EmptyChart />;
+
+    const data = [
+        { name: "Approved", value: rates.approved, status: LeaveStatus.APPROVED, color: STATUS_COLORS.approved },
+        { name: "Rejected", value: rates.rejected, status: LeaveStatus.REJECTED, color: STATUS_COLORS.rejected },
+        { name: "Pending", value: rates.pending, status: LeaveStatus.PENDING, color: STATUS_COLORS.pending },
+    ].filter((d) => d.value > 0);
+
+    const percent = (value: number) => `${Math.round((value / rates.total) * 100)}%`;
+
+    return (
+        <div className="flex flex-col sm:flex-row items-center gap-6">
+            <div className="w-full sm:w-1/2 h-[240px]">
+                <ResponsiveContainer width="100%" height="100%">
+                    <PieChart>
+                        <Pie
+                            data={data}
+                            dataKey="value"
+                            nameKey="name"
+                            innerRadius={50}
+                            outerRadius={90}
+                            cursor="pointer"
+                            onClick={(_, index) =>
+                                onDrillDown({ label: `${data[index].name}, ${describeRange(range)}`, ...range, status: data[index].status })
+                            }>
+                            {data.map((d) => (
+                                <Cell key={d.name} fill={d.color} />
+                            ))}
+                        </Pie>
+                        <Tooltip formatter={(value: number) => `${value} (${percent(value)})`} />
+                    </PieChart>
+                </ResponsiveContainer>
+            </div>
+            <div className="space-y-3 text-sm">
+                <div>
+                    <p className="text-muted-foreground">Approval rate of decided leaves</p>
+                    <p className="text-3xl font-bold">
+                        {rates.approvalRate === null ? "-" : `${Math.round(rates.approvalRate * 100)}%`}
+                    </p>
+                </div>
+                <ul className="space-y-1">
+                    {data.map((d) => (
+                        <li key={d.name} className="flex items-center gap-2">
+                            <span className="h-3 w-3 rounded-sm" style={{ backgroundColor: d.color }} />
+                            {d.name}: {d.value} ({percent(d.value)})
+                        </li>
+                    ))}
+                </ul>
+                <p className="text-xs text-muted-foreground">Click a slice to see the matching leaves.</p>
+            </div>
+        </div>
+    );
+};
+
+const LeadTimeChart: React.FC<AnalyticsProps & { range: DateRange }> = ({ leaves, range, onDrillDown }) => {
+    const { buckets, medianDays } = useMemo(
+        () => getLeadTimeDistribution(getLeavesInRange(leaves, range.startDate, range.endDate)),
+        [leaves, range]
+    );
+
+    if (medianDays === null) return <EmptyChart />;
+
+    return (
+        <>
+            <p className="text-sm mb-2">
+                Median lead time: <span className="font-semibold">{medianDays} day(s)</span>
+            </p>
+            <ResponsiveContainer width="100%" height={240}>
+                <BarChart data={buckets}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="label" fontSize={12} />
+                    <YAxis allowDecimals={false} fontSize={12} />
+                    <Tooltip />
+                    <Bar
+                        dataKey="count"
+                        name="Leave days"
+                        fill="#6366f1"
+                        cursor="pointer"
+                        onClick={(_, index) => {
+                            const bucket = buckets[index];
+                            onDrillDown({
+                                label: `Lead time ${bucket.label.toLowerCase()}, ${describeRange(range)}`,
+                                ...range,
+                                minLeadDays: bucket.minLeadDays,
+                                maxLeadDays: bucket.maxLeadDays,
+                            });
+                        }}
+                    />
+                </BarChart>
+            </ResponsiveContainer>
+            <p className="text-xs text-muted-foreground mt-2">{DRILL_DOWN_HINT}</p>
+        </>
+    );
+};
+
+const UtilisationChart: React.FC<AnalyticsProps & { range: DateRange }> = ({ range, onDrillDown }) => {
+    const { data: slotInfo, isLoading, isError } = useSlotInfoForDateRange(range);
+    const data = useMemo(
+        () => (slotInfo ? getWeeklyUtilisation(slotInfo, range.startDate, range.endDate) : []),
+        [slotInfo, range]
+    );
+
+    if (isLoading) return <p className="text-sm text-muted-foreground text-center py-12">Loading slot data...</p>;
+    if (isError) return <p className="text-sm text-destructive text-center py-12">Could not load slot data.</p>;
+    if (data.every((w) => w.total === 0)) return <p className="text-sm text-muted-foreground text-center py-12">No slots offered in this period.</p>;
+
+    return (
+        <>
+            <ResponsiveContainer width="100%" height={260}>
+                <BarChart data={data.map((w) => ({ ...w, week: shortDate(w.weekStart), percent: w.percent ?? 0 }))}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="week" fontSize={12} />
+                    <YAxis domain={[0, 100]} unit="%" fontSize={12} />
+                    <Tooltip
+                        labelFormatter={(label) => `Week of ${label}`}
+                        formatter={(value: number, _name, item: any) => [`${value}% (${item.payload.used} of ${item.payload.total} slots)`, "Utilisation"]}
+                    />
+                    <Bar
+                        dataKey="percent"
+                        name="Utilisation"
+                        fill="#0ea5e9"
+                        cursor="pointer"
+                        onClick={(_, index) => {
+                            const week = data[index];
+                            onDrillDown({
+                                label: `Approved, week of ${formatDate(week.weekStart)}`,
+                                ...clampToRange(week.weekStart, week.weekEnd, range),
+                                status: LeaveStatus.APPROVED,
+                            });
+                        }}
+                    />
+                </BarChart>
+            </ResponsiveContainer>
+            <p className="text-xs text-muted-foreground mt-2">{DRILL_DOWN_HINT}</p>
+        </>
+    );
+};
+
+const WeekdayHeatmap: React.FC<AnalyticsProps & { range: DateRange }> = ({ leaves, config, range, onDrillDown }) => {
+    const { cells, max } = useMemo(
+        () => getWeekdayHeatmap(getLeavesInRange(leaves, range.startDate, range.endDate), config),
+        [leaves, config, range]
+    );
+
+    if (max === 0) return <EmptyChart />;
+
+    const countFor = (weekday: number, shiftId: string) =>
+        cells.find((c) => c.weekday === weekday && c.shiftId === shiftId)?.count ?? 0;
+
+    return (
+        <>
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm border-separate border-spacing-1">
+                    <thead>
+                        <tr>
+                            <th className="p-1"></th>
+                            {config.shifts.map((shift) => (
+                                <th key={shift.id} className="p-1 font-medium text-xs text-muted-foreground">
+                                    {shift.name}
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {HEATMAP_WEEKDAYS.map((weekday) => (
+                            <tr key={weekday}>
+                                <th className="p-1 pr-2 text-left font-medium text-xs text-muted-foreground">
+                                    {WEEKDAY_NAMES[weekday].slice(0, 3)}
+                                </th>
+                                {config.shifts.map((shift) => {
+                                    const count = countFor(weekday, shift.id);
+                                    const intensity = count / max;
+                                    return (
+                                        <td key={shift.id} className="p-0">
+                                            <button
+                                                type="button"
+                                                onClick={() =>
+                                                    onDrillDown({
+                                                        label: `${WEEKDAY_NAMES[weekday]}s, ${shift.name}, ${describeRange(range)}`,
+                                                        ...range,
+                                                        weekday,
+                                                        shiftId: shift.id,
+                                                    })
+                                                }
+                                                className="w-full h-10 rounded text-xs font-semibold focus:outline-none focus:ring-2 focus:ring-ring"
+                                                style={{
+                                                    backgroundColor: `rgba(239, 68, 68, ${count === 0 ? 0.05 : 0.15 + intensity * 0.85})`,
+                                                    color: intensity > 0.5 ? "white" : undefined,
+                                                }}
+                                                aria-label={`${WEEKDAY_NAMES[weekday]}, ${shift.name}: ${count} leave day(s)`}>
+                                                {count}
+                                            </button>
+                                        </td>
+                                    );
+                                })}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <p className="text-xs text-muted-foreground mt-2">
+                Approved and pending leave days. Click a cell to see the matching leaves.
+            </p>
+        </>
+    );
+};
+
+export const Analytics: React.FC<AnalyticsProps> = (props) => (
+    <div className="space-y-4">
+        <ChartCard title="Leave Volume per Week" description="Leave days by week and status.">
+            {(range) => <WeeklyVolumeChart {...props} range={range} />}
+        </ChartCard>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <ChartCard title="Leave Volume per Shift" description="Leave days by shift and status.">
+                {(range) => <ShiftVolumeChart {...props} range={range} />}
+            </ChartCard>
+            <ChartCard title="Approval and Rejection Rates" description="How requests for these dates were decided.">
+                {(range) => <DecisionRatesChart {...props} range={range} />}
+            </ChartCard>
+            <ChartCard title="Lead Time" description="Days between the request and the leave date.">
+                {(range) => <LeadTimeChart {...props} range={range} />}
+            </ChartCard>
+            <ChartCard title="Slot Utilisation" description="Share of offered slots taken each week.">
+                {(range) => <UtilisationChart {...props} range={range} />}
+            </ChartCard>
+        </div>
+        <ChartCard title="Busiest Weekdays" description="Leave days per weekday and shift.">
+            {(range) => <WeekdayHeatmap {...props} range={range} />}
+        </ChartCard>
+    </div>
+);
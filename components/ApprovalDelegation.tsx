@@ -0,0 +1,153 @@
+import React, { useState, useMemo } from "react";
+import { toast } from "react-hot-toast";
+import { Button, Card, CardContent, CardDescription, CardHeader, CardTitle, Input, Label, Select } from "./ui";
+import { Config, Permission, User, Role } from "../types";
+import { useDelegations, useCreateDelegationMutation, useDeleteDelegationMutation } from "../hooks/useApprovals";
+import { getOrgToday } from "../utils/booking";
+import { formatDate } from "../utils/date";
+import { coversPermissionScope } from "../utils/permissions";
+
+interface ApprovalDelegationProps {
+    currentUser: User;
+    users: User[];
+    config: Config;
+}
+
+// Lets an approver hand their queue to a deputy while they are away. Admins can
+// set up delegations on behalf of any approver. Deputies must already be able
+// to approve on every shift the approver covers, or part of the queue would be
+// hidden from them.
+export const ApprovalDelegation: React.FC<ApprovalDelegationProps> = ({ currentUser, users, config }) => {
+    const isAdmin = currentUser.role === Role.ADMIN;
+    const [delegatorId, setDelegatorId] = useState(currentUser.id);
+    const [deputyId, setDeputyId] = useState("");
+    const [startDate, setStartDate] = useState("");
+    const [endDate, setEndDate] = useState("");
+
+    const { data: delegations = [] } = useDelegations();
+    const createMutation = useCreateDelegationMutation();
+    const deleteMutation = useDeleteDelegationMutation();
+
+    const sortedUsers = useMemo(() => [...users].sort((a, b) => a.name.localeCompare(b.name)), [users]);
+    const approvers = sortedUsers.filter((u) => u.role !== Role.USER);
+    const today = getOrgToday(config);
+    const delegator = users.find((u) => u.id === delegatorId) ?? currentUser;
+    const deputies = sortedUsers.filter(
+        (u) => u.id !== delegatorId && coversPermissionScope(u, delegator, config, Permission.APPROVE_LEAVE)
+    );
+
+    const visibleDelegations = delegations
+        .filter((d) => d.endDate >= today)
+        .filter((d) => isAdmin || d.delegatorId === currentUser.id || d.deputyId === currentUser.id)
+        .sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!deputyId || !startDate || !endDate) {
+            toast.error("Please choose a deputy and a date range");
+            return;
+        }
+        if (deputyId === delegatorId) {
+            toast.error("An approver cannot delegate to themselves");
+            return;
+        }
+        if (!deputies.some((u) => u.id === deputyId)) {
+            toast.error("The deputy must be able to approve leave on every shift the approver covers");
+            return;
+        }
+        if (endDate < startDate) {
+            toast.error("End date must be on or after the start date");
+            return;
+        }
+
+        toast
+            .promise(createMutation.mutateAsync({ delegatorId, deputyId, startDate, endDate }), {
+                loading: "Saving delegation...",
+                success: () => {
+                    setDeputyId("");
+                    setStartDate("");
+                    setEndDate("");
+                    return "Delegation saved successfully!";
+                },
+                error: (error: any) => error.response?.data?.message || "Failed to save delegation.",
+            })
+            .catch(() => { });
+    };
+
+    const handleDelete = (id: string) => {
+        toast
+            .promise(deleteMutation.mutateAsync(id), {
+                loading: "Removing delegation...",
+                success: "Delegation removed.",
+                error: (error: any) => error.response?.data?.message || "Failed to remove delegation.",
+            })
+            .catch(() => { });
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Approval Delegation</CardTitle>
+                <CardDescription>Hand an approval queue to a deputy for a date range.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <form onSubmit={handleSubmit} className="flex flex-wrap gap-4 items-end">
+                    {isAdmin && (
+                        <div className="grid gap-2">
+                            <Label htmlFor="delegator">Approver</Label>
+                            <Select id="delegator" value={delegatorId} onChange={(e) => setDelegatorId(e.target.value)}>
+                                {approvers.map((u) => (
+                                    <option key={u.id} value={u.id}>
+                                        {u.name}
+                                    </option>
+                                ))}
+                            </Select>
+                        </div>
+                    )}
+                    <div className="grid gap-2">
+                        <Label htmlFor="deputy">Deputy</Label>
+                        <Select id="deputy" value={deputyId} onChange={(e) => setDeputyId(e.target.value)}>
+                            <option value="">-- Choose a deputy --</option>
+                            {deputies.map((u) => (
+                                <option key={u.id} value={u.id}>
+                                    {u.name}
+                                </option>
+                            ))}
+                        </Select>
+                    </div>
+                    <div className="grid gap-2">
+                        <Label htmlFor="delegation-start">From</Label>
+                        <Input id="delegation-start" type="date" min={today} value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+                    </div>
+                    <div className="grid gap-2">
+                        <Label htmlFor="delegation-end">To</Label>
+                        <Input id="delegation-end" type="date" min={startDate || today} value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+                    </div>
+                    <Button type="submit" disabled={createMutation.isPending}>
+                        Delegate
+                    </Button>
+                </form>
+
+                {visibleDelegations.length > 0 ? (
+                    <div className="border rounded-lg dark:border-border/50">
+                        {visibleDelegations.map((d) => (
+                            <div key={d.id} className="flex items-center justify-between p-3 border-b last:border-b-0 text-sm dark:border-border/50">
+                                <span>
+                                    <span className="font-medium">{d.delegatorName}</span> → <span className="font-medium">{d.deputyName}</span>
+                                    <span className="text-muted-foreground"> ({formatDate(d.startDate)} - {formatDate(d.endDate)})</span>
+                                </span>
+                                {(isAdmin || d.delegatorId === currentUser.id) && (
+                                    <Button size="sm" variant="ghost" onClick={() => handleDelete(d.id)} disabled={deleteMutation.isPending}>
+                                        Remove
+                                    </Button>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                ) : (
+                    <p className="text-sm text-muted-foreground">No current or upcoming delegations.</p>
+                )}
+            </CardContent>
+        </Card>
+    );
+};
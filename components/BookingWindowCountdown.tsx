@@ -0,0 +1,140 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { toast } from 'react-hot-toast';
+import { User, Config } from '../types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, Checkbox, Label } from './ui';
+import { getBookingWindow, getNextWindowOpening, getOrgTimeZone } from '../utils/booking';
+import { formatDate } from '../utils/date';
+import { useNotificationPreferences, useUpdateNotificationPreferencesMutation } from '../hooks/useNotifications';
+
+interface BookingWindowCountdownProps {
+    user: User;
+    config: Config;
+    // Called the moment the window opens so the caller can refresh its date range
+    onWindowOpen?: () => void;
+}
+
+// Browser reminders only fire from an open tab, so the opt-in is kept per device
+const getReminderKey = (userId: string) => `bookingWindowReminder:${userId}`;
+
+const formatCountdown = (ms: number): string => {
+    const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+    const days = Math.floor(totalSeconds / 86400);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const clock = `${pad(Math.floor((totalSeconds % 86400) / 3600))}:${pad(Math.floor((totalSeconds % 3600) / 60))}:${pad(totalSeconds % 60)}`;
+    return days > 0 ? `${days}d ${clock}` : clock;
+};
+
+const BookingWindowCountdown: React.FC<BookingWindowCountdownProps> = ({ user, config, onWindowOpen }) => {
+    const [now, setNow] = useState(() => Date.now());
+    const [nextOpening, setNextOpening] = useState(() => getNextWindowOpening(config));
+    const [browserReminder, setBrowserReminder] = useState(() => localStorage.getItem(getReminderKey(user.id)) === '1');
+
+    const { data: preferences } = useNotificationPreferences();
+    const updatePreferencesMutation = useUpdateNotificationPreferencesMutation();
+
+    // Keep the latest values for the opening handler without restarting the timer
+    const onWindowOpenRef = useRef(onWindowOpen);
+    onWindowOpenRef.current = onWindowOpen;
+
+    useEffect(() => {
+        setNextOpening(getNextWindowOpening(config));
+    }, [config.openingDay, config.openingTime, config.timeZone]);
+
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, []);
+
+    useEffect(() => {
+        if (now < nextOpening.getTime()) return;
+
+        if (browserReminder && 'Notification' in window && Notification.permission === 'granted') {
+            new Notification('Leave booking is open', { body: 'New dates are available to book in OffDay.' });
+        }
+        toast.success('The booking window is now open!');
+        onWindowOpenRef.current?.();
+        setNextOpening(getNextWindowOpening(config, new Date(now)));
+    }, [now, nextOpening, browserReminder, config]);
+
+    const handleBrowserReminderChange = async (enabled: boolean) => {
+        if (enabled) {
+            if (!('Notification' in window)) {
+                toast.error('This browser does not support notifications.');
+                return;
+            }
+            const permission = await Notification.requestPermission();
+            if (permission !== 'granted') {
+                toast.error('Notifications are blocked for this site.');
+                return;
+            }
+            localStorage.setItem(getReminderKey(user.id), '1');
+        } else {
+            localStorage.removeItem(getReminderKey(user.id));
+        }
+        setBrowserReminder(enabled);
+    };
+
+    const handleEmailReminderChange = (enabled: boolean) => {
+        toast.promise(
+            updatePreferencesMutation.mutateAsync({ mutedTypes: preferences?.mutedTypes ?? [], bookingWindowEmail: enabled }),
+            {
+                loading: 'Saving preferences...',
+                success: enabled ? "We'll email you when the window opens." : 'Email reminder turned off.',
+                error: (error: any) => error.response?.data?.message || 'Failed to save preferences.',
+            }
+        ).catch(() => { });
+    };
+
+    const timeZone = getOrgTimeZone(config);
+    const openingLabel = nextOpening.toLocaleString('en-GB', {
+        timeZone,
+        weekday: 'long',
+        day: 'numeric',
+        month: 'short',
+        hour: '2-digit',
+        minute: '2-digit',
+    });
+    // The window that opens then, computed exactly as the calendar will compute it
+    const upcomingWindow = getBookingWindow(config, nextOpening);
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Next Booking Window</CardTitle>
+                <CardDescription>
+                    Opens {openingLabel} ({timeZone}). Dates up to {formatDate(upcomingWindow.endDate)} become bookable.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <p className="text-3xl font-bold tabular-nums text-center" aria-live="off">
+                    {formatCountdown(nextOpening.getTime() - now)}
+                </p>
+                <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                        <Checkbox
+                            id="reminder-browser"
+                            checked={browserReminder}
+                            onCheckedChange={checked => handleBrowserReminderChange(checked === true)}
+                        />
+                        <Label htmlFor="reminder-browser" className="text-sm font-normal">
+                            Browser notification (while OffDay is open)
+                        </Label>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <Checkbox
+                            id="reminder-email"
+                            checked={!!preferences?.bookingWindowEmail}
+                            onCheckedChange={checked => handleEmailReminderChange(checked === true)}
+                            disabled={!user.email || !preferences || updatePreferencesMutation.isPending}
+                        />
+                        <Label htmlFor="reminder-email" className="text-sm font-normal">
+                            Email me when it opens{!user.email && ' (add an email address to your account first)'}
+                        </Label>
+                    </div>
+                </div>
+            </CardContent>
+        </Card>
+    );
+};
+
+export default BookingWindowCountdown;
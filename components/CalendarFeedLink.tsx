@@ -0,0 +1,61 @@
+import React from 'react';
+import { toast } from 'react-hot-toast';
+import { CalendarFeed } from '../types';
+import { Button, Input } from './ui';
+
+interface CalendarFeedLinkProps {
+    feed?: CalendarFeed;
+    isLoading?: boolean;
+    onReset?: () => void;
+    isResetting?: boolean;
+}
+
+// Calendar apps subscribe through webcal://, which most phones hand straight
+// to their calendar
+const toWebcal = (url: string) => url.replace(/^https?:\/\//, 'webcal://');
+
+const CalendarFeedLink: React.FC<CalendarFeedLinkProps> = ({ feed, isLoading, onReset, isResetting }) => {
+    const handleCopy = () => {
+        if (!feed) return;
+        navigator.clipboard.writeText(feed.url)
+            .then(() => toast.success('Link copied to clipboard.'))
+            .catch(() => toast.error('Failed to copy link.'));
+    };
+
+    if (isLoading) {
+        return <p className="text-sm text-muted-foreground">Loading subscribe link...</p>;
+    }
+    if (!feed) {
+        return <p className="text-sm text-red-500">Failed to load subscribe link.</p>;
+    }
+
+    return (
+        <div className="space-y-2">
+            <div className="flex flex-col sm:flex-row gap-2">
+                <Input value={feed.url} readOnly onFocus={e => e.target.select()} className="font-mono text-xs" aria-label="Calendar subscribe URL" />
+                <div className="flex gap-2">
+                    <Button variant="outline" onClick={handleCopy}>Copy</Button>
+                    <a
+                        href={toWebcal(feed.url)}
+                        className="inline-flex items-center justify-center rounded-md text-sm font-medium h-10 px-4 border border-input bg-background hover:bg-accent hover:text-accent-foreground dark:border-border/50"
+                    >
+                        Subscribe
+                    </a>
+                </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+                Anyone with this link can see the calendar. Calendar apps refresh subscribed feeds periodically.
+                {onReset && (
+                    <>
+                        {' '}
+                        <button type="button" className="text-primary hover:underline" onClick={onReset} disabled={isResetting}>
+                            Reset link
+                        </button>
+                    </>
+                )}
+            </p>
+        </div>
+    );
+};
+
+export default CalendarFeedLink;
@@ -0,0 +1,86 @@
+import React, { useMemo } from "react";
+import { Label } from "./ui";
+import { Config, Leave } from "../types";
+import { usePublishedRosters } from "../hooks/useStaffing";
+import { getDatesInRange, formatDate, getWeekStart } from "../utils/date";
+import { getCoverage, isUnderstaffed, ShiftCoverage } from "../utils/staffing";
+
+interface CoverageStripProps {
+    leaves: Leave[];
+    config: Config;
+    startDate: string;
+    endDate: string;
+}
+
+// Longer report ranges only show the first days, to keep the roster fetches bounded
+const MAX_DAYS = 62;
+
+const describe = (c: ShiftCoverage, shiftName: string) =>
+    `${formatDate(c.date)} ${shiftName}: ${c.available} available of ${c.assigned} rostered` +
+    (c.minimum > 0 ? `, minimum ${c.minimum}` : ", no minimum");
+
+// One row per shift with a staffing rule and one cell per day of the report
+// range, red where approved leave takes the shift below its minimum.
+export const CoverageStrip: React.FC<CoverageStripProps> = ({ leaves, config, startDate, endDate }) => {
+    const rules = config.staffingRules ?? [];
+    const dates = useMemo(() => (startDate && endDate ? getDatesInRange(startDate, endDate).slice(0, MAX_DAYS) : []), [startDate, endDate]);
+    const weekStarts = useMemo(() => Array.from(new Set(dates.map(getWeekStart))), [dates]);
+    const shifts = useMemo(() => config.shifts.filter((s) => rules.some((r) => r.shiftId === s.id)), [config.shifts, rules]);
+    const { rosters, isLoading } = usePublishedRosters(rules.length > 0 ? weekStarts : []);
+
+    const coverage = useMemo(
+        () => (isLoading ? [] : getCoverage(rules, rosters, leaves, shifts, dates)),
+        [isLoading, rules, rosters, leaves, shifts, dates]
+    );
+
+    if (rules.length === 0 || dates.length === 0) return null;
+
+    const shortCount = coverage.filter(isUnderstaffed).length;
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between">
+                <Label>Daily Coverage</Label>
+                <span className={`text-xs ${shortCount > 0 ? "text-red-600 dark:text-red-400 font-semibold" : "text-muted-foreground"}`}>
+                    {isLoading ? "Loading rosters..." : shortCount > 0 ? `${shortCount} understaffed shift-day(s)` : "All shifts at or above minimum"}
+                </span>
+            </div>
+            {!isLoading && (
+                <div className="border rounded-lg p-2 overflow-x-auto dark:border-border/50">
+                    <table className="text-xs">
+                        <tbody>
+                            {shifts.map((shift) => (
+                                <tr key={shift.id}>
+                                    <th scope="row" className="pr-2 text-left font-medium whitespace-nowrap">{shift.name}</th>
+                                    {coverage
+                                        .filter((c) => c.shiftId === shift.id)
+                                        .map((c) => {
+                                            const label = describe(c, shift.name);
+                                            return (
+                                                <td key={c.date} className="p-0.5">
+                                                    <span
+                                                        role="img"
+                                                        aria-label={label}
+                                                        title={label}
+                                                        className={`block h-4 w-3 rounded-sm ${c.minimum === 0
+                                                            ? "bg-muted"
+                                                            : isUnderstaffed(c)
+                                                                ? "bg-red-500"
+                                                                : "bg-green-500"
+                                                            }`}
+                                                    />
+                                                </td>
+                                            );
+                                        })}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {getDatesInRange(startDate, endDate).length > MAX_DAYS && (
+                        <p className="mt-1 text-xs text-muted-foreground">Showing the first {MAX_DAYS} days of the range.</p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,211 @@
+import React, { useState, useEffect } from "react";
+import { toast } from "react-hot-toast";
+import { Button, Card, CardContent, CardDescription, CardHeader, CardTitle, Input, Label, Select } from "./ui";
+import { User, Config, Entitlement, AccrualFrequency } from "../types";
+import { useEntitlements, useUserBalances, useSaveEntitlementMutation, useDeleteEntitlementMutation } from "../hooks/useBalances";
+import { getLeaveTypes, formatDays, getAvailableDays } from "../utils/leaves";
+import LeaveTypeBadge from "./LeaveTypeBadge";
+
+interface EntitlementManagementProps {
+    users: User[];
+    config: Config;
+}
+
+type EntitlementDraft = Omit<Entitlement, "id" | "userId" | "leaveTypeId">;
+
+const DEFAULT_DRAFT: EntitlementDraft = {
+    daysPerYear: 12,
+    accrual: "MONTHLY",
+    carryForwardCap: 0,
+    resetDate: "01-01",
+};
+
+const RESET_DATE_PATTERN = /^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+export const EntitlementManagement: React.FC<EntitlementManagementProps> = ({ users, config }) => {
+    const [selectedUserId, setSelectedUserId] = useState("");
+    const [drafts, setDrafts] = useState<Record<string, EntitlementDraft>>({});
+
+    const { data: entitlementData, isLoading } = useEntitlements(selectedUserId || undefined);
+    const { data: balances = [] } = useUserBalances(selectedUserId);
+    const saveMutation = useSaveEntitlementMutation();
+    const deleteMutation = useDeleteEntitlementMutation();
+
+    const entitlements = entitlementData ?? [];
+    const leaveTypes = getLeaveTypes(config);
+    const sortedUsers = [...users].sort((a, b) => a.name.localeCompare(b.name));
+
+    // Re-seed the editable rows whenever another user is picked or data is refetched
+    useEffect(() => {
+        const next: Record<string, EntitlementDraft> = {};
+        (entitlementData ?? [])
+            .filter((e) => e.userId === selectedUserId)
+            .forEach(({ daysPerYear, accrual, carryForwardCap, resetDate, leaveTypeId }) => {
+                next[leaveTypeId] = { daysPerYear, accrual, carryForwardCap, resetDate };
+            });
+        setDrafts(next);
+    }, [entitlementData, selectedUserId]);
+
+    const getEntitlement = (leaveTypeId: string) =>
+        entitlements.find((e) => e.userId === selectedUserId && e.leaveTypeId === leaveTypeId);
+
+    const updateDraft = (leaveTypeId: string, changes: Partial<EntitlementDraft>) => {
+        setDrafts((prev) => ({
+            ...prev,
+            [leaveTypeId]: { ...(prev[leaveTypeId] ?? DEFAULT_DRAFT), ...changes },
+        }));
+    };
+
+    const handleSave = (leaveTypeId: string) => {
+        const draft = drafts[leaveTypeId] ?? DEFAULT_DRAFT;
+        if (!RESET_DATE_PATTERN.test(draft.resetDate)) {
+            toast.error("Reset date must be in MM-DD format");
+            return;
+        }
+
+        toast
+            .promise(
+                saveMutation.mutateAsync({
+                    ...draft,
+                    id: getEntitlement(leaveTypeId)?.id,
+                    userId: selectedUserId,
+                    leaveTypeId,
+                }),
+                {
+                    loading: "Saving entitlement...",
+                    success: "Entitlement saved successfully!",
+                    error: (error: any) => error.response?.data?.message || "Failed to save entitlement.",
+                }
+            )
+            .catch(() => { });
+    };
+
+    const handleRemove = (entitlement: Entitlement) => {
+        toast
+            .promise(deleteMutation.mutateAsync(entitlement.id), {
+                loading: "Removing entitlement...",
+                success: "Entitlement removed.",
+                error: (error: any) => error.response?.data?.message || "Failed to remove entitlement.",
+            })
+            .catch(() => { });
+    };
+
+    const isBusy = saveMutation.isPending || deleteMutation.isPending;
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Leave Entitlements</CardTitle>
+                <CardDescription>
+                    Set how many days each user may take per leave type. Balances are debited when a leave is approved and credited back when it is cancelled or rejected.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="grid gap-2 max-w-sm">
+                    <Label htmlFor="entitlement-user">User</Label>
+                    <Select id="entitlement-user" value={selectedUserId} onChange={(e) => setSelectedUserId(e.target.value)}>
+                        <option value="">-- Choose a user --</option>
+                        {sortedUsers.map((u) => (
+                            <option key={u.id} value={u.id}>
+                                {u.name}
+                            </option>
+                        ))}
+                    </Select>
+                </div>
+
+                {selectedUserId && !isLoading && (
+                    <div className="border rounded-lg overflow-x-auto dark:border-border/50">
+                        <table className="w-full min-w-[760px] text-sm text-left">
+                            <thead className="bg-muted/50">
+                                <tr>
+                                    <th className="p-3 font-medium">Type</th>
+                                    <th className="p-3 font-medium">Days / Year</th>
+                                    <th className="p-3 font-medium">Accrual</th>
+                                    <th className="p-3 font-medium">Carry-forward Cap</th>
+                                    <th className="p-3 font-medium">Reset (MM-DD)</th>
+                                    <th className="p-3 font-medium">Balance</th>
+                                    <th className="p-3 font-medium"></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {leaveTypes.map((type) => {
+                                    const entitlement = getEntitlement(type.id);
+                                    const draft = drafts[type.id] ?? DEFAULT_DRAFT;
+                                    const balance = balances.find((b) => b.leaveTypeId === type.id);
+
+                                    return (
+                                        <tr key={type.id} className="border-b last:border-0 dark:border-border/50">
+                                            <td className="p-3">
+                                                <LeaveTypeBadge leaveType={type} />
+                                            </td>
+                                            <td className="p-3">
+                                                <Input
+                                                    type="number"
+                                                    min="0"
+                                                    value={draft.daysPerYear}
+                                                    onChange={(e) => updateDraft(type.id, { daysPerYear: Math.max(0, Number(e.target.value)) })}
+                                                    className="w-20"
+                                                />
+                                            </td>
+                                            <td className="p-3">
+                                                <Select
+                                                    value={draft.accrual}
+                                                    onChange={(e) => updateDraft(type.id, { accrual: e.target.value as AccrualFrequency })}
+                                                    className="w-28">
+                                                    <option value="MONTHLY">Monthly</option>
+                                                    <option value="YEARLY">Yearly</option>
+                                                </Select>
+                                            </td>
+                                            <td className="p-3">
+                                                <Input
+                                                    type="number"
+                                                    min="0"
+                                                    value={draft.carryForwardCap}
+                                                    onChange={(e) => updateDraft(type.id, { carryForwardCap: Math.max(0, Number(e.target.value)) })}
+                                                    className="w-20"
+                                                />
+                                            </td>
+                                            <td className="p-3">
+                                                <Input
+                                                    value={draft.resetDate}
+                                                    onChange={(e) => updateDraft(type.id, { resetDate: e.target.value })}
+                                                    placeholder="01-01"
+                                                    className="w-24"
+                                                />
+                                            </td>
+                                            <td className="p-3 text-xs text-muted-foreground">
+                                                {balance
+                                                    ? `${formatDays(getAvailableDays(balance))} of ${formatDays(balance.accrued)} free`
+                                                    : "-"}
+                                            </td>
+                                            <td className="p-3">
+                                                <div className="flex gap-2 justify-end">
+                                                    <Button size="sm" onClick={() => handleSave(type.id)} disabled={isBusy}>
+                                                        {entitlement ? "Update" : "Add"}
+                                                    </Button>
+                                                    {entitlement && (
+                                                        <Button
+                                                            size="sm"
+                                                            variant="destructive"
+                                                            onClick={() => handleRemove(entitlement)}
+                                                            disabled={isBusy}>
+                                                            Remove
+                                                        </Button>
+                                                    )}
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
+                <p className="text-xs text-muted-foreground">
+                    Leave types without an entitlement are not limited. Unused days above the carry-forward cap lapse on the reset date.
+                </p>
+            </CardContent>
+        </Card>
+    );
+};
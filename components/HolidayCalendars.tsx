@@ -0,0 +1,263 @@
+import React, { useState, useRef } from "react";
+import { toast } from "react-hot-toast";
+import { Button, Checkbox, Input, Label } from "./ui";
+import { Holiday, HolidayCalendar } from "../types";
+import { parseHolidaysFromCsv, parseHolidaysFromIcs } from "../utils/holidays";
+import { formatDate } from "../utils/date";
+
+interface HolidayCalendarsProps {
+    calendars: HolidayCalendar[];
+    onChange: (calendars: HolidayCalendar[]) => void;
+}
+
+const emptyHoliday = { name: "", date: "", yearly: false, blocksLeave: true };
+
+// Holiday calendar editor for Settings. Changes are kept in the settings form
+// and saved together with the rest of the config.
+export const HolidayCalendars: React.FC<HolidayCalendarsProps> = ({ calendars, onChange }) => {
+    const [expandedId, setExpandedId] = useState<string | null>(calendars[0]?.id ?? null);
+    const [newHoliday, setNewHoliday] = useState(emptyHoliday);
+    const [importBlocksLeave, setImportBlocksLeave] = useState(true);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const updateCalendar = (id: string, changes: Partial<HolidayCalendar>) =>
+        onChange(calendars.map((c) => (c.id === id ? { ...c, ...changes } : c)));
+
+    const updateHoliday = (calendar: HolidayCalendar, holidayId: string, changes: Partial<Holiday>) =>
+        updateCalendar(calendar.id, {
+            holidays: calendar.holidays.map((h) => (h.id === holidayId ? { ...h, ...changes } : h)),
+        });
+
+    const handleAddCalendar = () => {
+        const calendar: HolidayCalendar = { id: `hc${Date.now()}`, name: "New Calendar", enabled: true, holidays: [] };
+        onChange([...calendars, calendar]);
+        setExpandedId(calendar.id);
+    };
+
+    const handleRemoveCalendar = (calendar: HolidayCalendar) => {
+        if (calendar.holidays.length > 0 && !window.confirm(`Remove "${calendar.name}" and its ${calendar.holidays.length} holiday(s)?`)) {
+            return;
+        }
+        onChange(calendars.filter((c) => c.id !== calendar.id));
+    };
+
+    const handleAddHoliday = (calendar: HolidayCalendar) => {
+        if (!newHoliday.name.trim() || !newHoliday.date) {
+            toast.error("Please enter a name and a date");
+            return;
+        }
+        const holiday: Holiday = {
+            id: `h${Date.now()}`,
+            name: newHoliday.name.trim(),
+            date: newHoliday.date,
+            recurrence: newHoliday.yearly ? "YEARLY" : "NONE",
+            blocksLeave: newHoliday.blocksLeave,
+        };
+        updateCalendar(calendar.id, {
+            holidays: [...calendar.holidays, holiday].sort((a, b) => a.date.localeCompare(b.date)),
+        });
+        setNewHoliday(emptyHoliday);
+    };
+
+    const handleImport = async (calendar: HolidayCalendar, file: File) => {
+        const text = await file.text();
+        let imported: Holiday[];
+        let invalidRows: number[] = [];
+
+        if (/\.ics$/i.test(file.name) || text.includes("BEGIN:VCALENDAR")) {
+            imported = parseHolidaysFromIcs(text, importBlocksLeave);
+        } else {
+            ({ holidays: imported, invalidRows } = parseHolidaysFromCsv(text, importBlocksLeave));
+        }
+
+        // Re-importing the same file shouldn't create duplicates
+        const existing = new Set(calendar.holidays.map((h) => `${h.date}|${h.name.toLowerCase()}`));
+        const added = imported.filter((h) => !existing.has(`${h.date}|${h.name.toLowerCase()}`));
+
+        if (added.length > 0) {
+            updateCalendar(calendar.id, {
+                holidays: [...calendar.holidays, ...added].sort((a, b) => a.date.localeCompare(b.date)),
+            });
+        }
+
+        const skipped = imported.length - added.length;
+        if (added.length === 0 && invalidRows.length === 0) {
+            toast(imported.length > 0 ? "All holidays in the file are already in this calendar." : "No holidays found in the file.");
+        } else {
+            toast.success(`Imported ${added.length} holiday(s)${skipped > 0 ? `, ${skipped} already present` : ""}. Save settings to apply.`);
+        }
+        if (invalidRows.length > 0) {
+            toast.error(`Skipped line(s) ${invalidRows.join(", ")}: expected a name and a date.`);
+        }
+    };
+
+    return (
+        <div className="space-y-4 pt-4 border-t dark:border-border/50">
+            <div className="flex justify-between items-center">
+                <Label className="text-lg font-bold">Holiday Calendars</Label>
+                <Button size="sm" onClick={handleAddCalendar}>
+                    Add Calendar
+                </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+                Holidays are shown by name on the leave calendar and in reports. Blocking holidays can't be booked.
+                Import an .ics file or a CSV with the columns name, date, recurring (yes/no), blocks leave (yes/no).
+            </p>
+
+            {calendars.length === 0 && <p className="text-sm text-muted-foreground">No holiday calendars yet.</p>}
+
+            {calendars.map((calendar) => {
+                const isExpanded = expandedId === calendar.id;
+                return (
+                    <div key={calendar.id} className="border rounded-lg dark:border-border/50">
+                        <div className="flex flex-wrap items-center gap-2 p-3 bg-muted/30">
+                            <Checkbox
+                                checked={calendar.enabled}
+                                onCheckedChange={(checked) => updateCalendar(calendar.id, { enabled: checked === true })}
+                                aria-label={`Enable ${calendar.name}`}
+                            />
+                            <Input
+                                value={calendar.name}
+                                onChange={(e) => updateCalendar(calendar.id, { name: e.target.value })}
+                                className="flex-grow w-auto"
+                                aria-label="Calendar name"
+                            />
+                            <span className="text-xs text-muted-foreground">{calendar.holidays.length} holiday(s)</span>
+                            <Button size="sm" variant="ghost" onClick={() => setExpandedId(isExpanded ? null : calendar.id)} aria-expanded={isExpanded}>
+                                {isExpanded ? "Hide" : "Edit"}
+                            </Button>
+                            <Button variant="destructive" size="icon" className="h-8 w-8" onClick={() => handleRemoveCalendar(calendar)}>
+                                <span className="text-lg">×</span>
+                            </Button>
+                        </div>
+
+                        {isExpanded && (
+                            <div className="p-3 space-y-3">
+                                <div className="flex flex-wrap items-center gap-2">
+                                    <input
+                                        ref={fileInputRef}
+                                        type="file"
+                                        accept=".ics,.csv,text/calendar,text/csv"
+                                        className="hidden"
+                                        onChange={(e) => {
+                                            const file = e.target.files?.[0];
+                                            if (file) handleImport(calendar, file);
+                                            e.target.value = "";
+                                        }}
+                                    />
+                                    <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+                                        Import .ics / CSV
+                                    </Button>
+                                    <div className="flex items-center gap-2">
+                                        <Checkbox
+                                            id={`import-blocks-${calendar.id}`}
+                                            checked={importBlocksLeave}
+                                            onCheckedChange={(checked) => setImportBlocksLeave(checked === true)}
+                                        />
+                                        <Label htmlFor={`import-blocks-${calendar.id}`} className="text-sm font-normal">
+                                            Imported holidays block leave
+                                        </Label>
+                                    </div>
+                                </div>
+
+                                <div className="border rounded-lg max-h-72 overflow-auto dark:border-border/50">
+                                    <table className="w-full text-sm text-left">
+                                        <thead className="bg-muted/50 sticky top-0">
+                                            <tr>
+                                                <th className="p-2 font-medium">Date</th>
+                                                <th className="p-2 font-medium">Name</th>
+                                                <th className="p-2 font-medium">Yearly</th>
+                                                <th className="p-2 font-medium">Blocks Leave</th>
+                                                <th className="p-2"></th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {calendar.holidays.map((holiday) => (
+                                                <tr key={holiday.id} className="border-b last:border-0 dark:border-border/50">
+                                                    <td className="p-2 whitespace-nowrap">{formatDate(holiday.date)}</td>
+                                                    <td className="p-2">
+                                                        <Input
+                                                            value={holiday.name}
+                                                            onChange={(e) => updateHoliday(calendar, holiday.id, { name: e.target.value })}
+                                                            className="h-8"
+                                                            aria-label="Holiday name"
+                                                        />
+                                                    </td>
+                                                    <td className="p-2">
+                                                        <Checkbox
+                                                            checked={holiday.recurrence === "YEARLY"}
+                                                            onCheckedChange={(checked) =>
+                                                                updateHoliday(calendar, holiday.id, { recurrence: checked === true ? "YEARLY" : "NONE" })
+                                                            }
+                                                            aria-label={`${holiday.name} repeats yearly`}
+                                                        />
+                                                    </td>
+                                                    <td className="p-2">
+                                                        <Checkbox
+                                                            checked={holiday.blocksLeave}
+                                                            onCheckedChange={(checked) => updateHoliday(calendar, holiday.id, { blocksLeave: checked === true })}
+                                                            aria-label={`${holiday.name} blocks leave`}
+                                                        />
+                                                    </td>
+                                                    <td className="p-2 text-right">
+                                                        <button
+                                                            onClick={() =>
+                                                                updateCalendar(calendar.id, { holidays: calendar.holidays.filter((h) => h.id !== holiday.id) })
+                                                            }
+                                                            className="hover:text-red-600 font-bold"
+                                                            aria-label={`Remove ${holiday.name}`}>
+                                                            ×
+                                                        </button>
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                            <tr className="bg-muted/20">
+                                                <td className="p-2">
+                                                    <Input
+                                                        type="date"
+                                                        value={newHoliday.date}
+                                                        onChange={(e) => setNewHoliday({ ...newHoliday, date: e.target.value })}
+                                                        className="h-8"
+                                                        aria-label="New holiday date"
+                                                    />
+                                                </td>
+                                                <td className="p-2">
+                                                    <Input
+                                                        value={newHoliday.name}
+                                                        onChange={(e) => setNewHoliday({ ...newHoliday, name: e.target.value })}
+                                                        placeholder="e.g. Diwali"
+                                                        className="h-8"
+                                                        aria-label="New holiday name"
+                                                    />
+                                                </td>
+                                                <td className="p-2">
+                                                    <Checkbox
+                                                        checked={newHoliday.yearly}
+                                                        onCheckedChange={(checked) => setNewHoliday({ ...newHoliday, yearly: checked === true })}
+                                                        aria-label="New holiday repeats yearly"
+                                                    />
+                                                </td>
+                                                <td className="p-2">
+                                                    <Checkbox
+                                                        checked={newHoliday.blocksLeave}
+                                                        onCheckedChange={(checked) => setNewHoliday({ ...newHoliday, blocksLeave: checked === true })}
+                                                        aria-label="New holiday blocks leave"
+                                                    />
+                                                </td>
+                                                <td className="p-2 text-right">
+                                                    <Button size="sm" onClick={() => handleAddHoliday(calendar)}>
+                                                        Add
+                                                    </Button>
+                                                </td>
+                                            </tr>
+                                        </tbody>
+                                    </table>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
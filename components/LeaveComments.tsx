@@ -0,0 +1,207 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { formatDistanceToNow } from 'date-fns';
+import { FaPaperclip } from 'react-icons/fa';
+import { Leave, LeaveAttachment, LeaveComment, User } from '../types';
+import { Button, Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui';
+import { useAddLeaveCommentMutation, useLeaveComments } from '../hooks/useLeaveComments';
+import * as api from '../services/api';
+import { formatDateExtended } from '../utils/date';
+
+const MAX_ATTACHMENT_SIZE = 5 * 1024 * 1024;
+const ACCEPTED_FILES = 'image/*,.pdf,.doc,.docx';
+
+const formatFileSize = (bytes: number) =>
+    bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const AttachmentLink: React.FC<{ leaveId: string; attachment: LeaveAttachment }> = ({ leaveId, attachment }) => {
+    const [isDownloading, setIsDownloading] = useState(false);
+
+    const handleDownload = async () => {
+        setIsDownloading(true);
+        try {
+            const blob = await api.downloadLeaveAttachment(leaveId, attachment.id);
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = attachment.fileName;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+        } catch (error: any) {
+            toast.error(error.response?.data?.message || 'Failed to download attachment.');
+        } finally {
+            setIsDownloading(false);
+        }
+    };
+
+    return (
+        <button
+            type="button"
+            onClick={handleDownload}
+            disabled={isDownloading}
+            className="inline-flex items-center gap-1 text-xs text-primary underline-offset-2 hover:underline disabled:opacity-50"
+        >
+            <FaPaperclip className="h-3 w-3 shrink-0" /> {attachment.fileName} <span className="text-muted-foreground">({formatFileSize(attachment.size)})</span>
+        </button>
+    );
+};
+
+const CommentBubble: React.FC<{ comment: LeaveComment; leave: Leave; isOwn: boolean }> = ({ comment, leave, isOwn }) => (
+    <li className={`flex flex-col ${isOwn ? 'items-end' : 'items-start'}`}>
+        <div className={`max-w-[85%] rounded-lg px-3 py-2 text-sm ${isOwn ? 'bg-primary text-primary-foreground' : 'bg-muted'}`}>
+            {comment.text && <p className="whitespace-pre-wrap break-words">{comment.text}</p>}
+            {comment.attachments.length > 0 && (
+                <div className={`flex flex-col gap-1 ${comment.text ? 'mt-2' : ''} ${isOwn ? '[&_button]:text-primary-foreground' : ''}`}>
+                    {comment.attachments.map(a => <AttachmentLink key={a.id} leaveId={leave.id} attachment={a} />)}
+                </div>
+            )}
+        </div>
+        <p className="text-[11px] text-muted-foreground mt-1">
+            {isOwn ? 'You' : comment.authorName}
+            {comment.authorId !== leave.userId && ' (manager)'}
+            {' · '}
+            {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+        </p>
+    </li>
+);
+
+// Discussion thread for a single leave, shared by the requester and whoever
+// manages it. Pass `leave` as null to close.
+const LeaveCommentsDialog: React.FC<{ leave: Leave | null; currentUser: User; onClose: () => void }> = ({ leave, currentUser, onClose }) => {
+    const [text, setText] = useState('');
+    const [files, setFiles] = useState<File[]>([]);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const listEndRef = useRef<HTMLDivElement>(null);
+
+    const { data: comments = [], isLoading, isError } = useLeaveComments(leave?.id ?? '', { enabled: !!leave });
+    const addCommentMutation = useAddLeaveCommentMutation();
+
+    useEffect(() => {
+        setText('');
+        setFiles([]);
+    }, [leave?.id]);
+
+    useEffect(() => {
+        listEndRef.current?.scrollIntoView({ block: 'end' });
+    }, [comments.length]);
+
+    const handleFilesSelected = (selected: FileList | null) => {
+        const accepted: File[] = [];
+        Array.from(selected ?? []).forEach(file => {
+            if (file.size > MAX_ATTACHMENT_SIZE) {
+                toast.error(`${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}.`);
+            } else {
+                accepted.push(file);
+            }
+        });
+        setFiles(prev => [...prev, ...accepted]);
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!leave || (!text.trim() && files.length === 0)) return;
+
+        toast.promise(
+            addCommentMutation.mutateAsync({ leaveId: leave.id, text: text.trim(), files }),
+            {
+                loading: files.length > 0 ? 'Uploading...' : 'Sending...',
+                success: () => {
+                    setText('');
+                    setFiles([]);
+                    return 'Comment added.';
+                },
+                error: (error: any) => error.response?.data?.message || 'Failed to add comment.',
+            }
+        ).catch(() => { });
+    };
+
+    return (
+        <Dialog open={!!leave} onOpenChange={open => !open && onClose()}>
+            <DialogContent className="max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>Comments</DialogTitle>
+                    {leave && (
+                        <DialogDescription>
+                            {leave.userId === currentUser.id ? 'Your' : `${leave.userName}'s`} leave on {formatDateExtended(leave.date)} ({leave.shiftName}, {leave.status.toLowerCase()})
+                        </DialogDescription>
+                    )}
+                </DialogHeader>
+
+                <div className="max-h-80 overflow-y-auto pr-1">
+                    {isLoading ? (
+                        <p className="text-sm text-muted-foreground text-center py-6">Loading comments...</p>
+                    ) : isError ? (
+                        <p className="text-sm text-destructive text-center py-6">Could not load comments.</p>
+                    ) : comments.length === 0 ? (
+                        <p className="text-sm text-muted-foreground text-center py-6">
+                            No comments yet. Add context for this request or ask for supporting documents.
+                        </p>
+                    ) : (
+                        <ul className="space-y-3">
+                            {[...comments]
+                                .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+                                .map(comment => leave && (
+                                    <CommentBubble key={comment.id} comment={comment} leave={leave} isOwn={comment.authorId === currentUser.id} />
+                                ))}
+                        </ul>
+                    )}
+                    <div ref={listEndRef} />
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-2">
+                    <textarea
+                        value={text}
+                        onChange={e => setText(e.target.value)}
+                        className="w-full min-h-[80px] px-3 py-2 text-sm rounded-md border border-input bg-background dark:border-border/50"
+                        placeholder="Write a comment..."
+                        aria-label="Comment"
+                    />
+                    {files.length > 0 && (
+                        <ul className="flex flex-wrap gap-2">
+                            {files.map((file, index) => (
+                                <li key={`${file.name}-${index}`} className="flex items-center gap-1 bg-muted px-2 py-1 rounded-md text-xs">
+                                    {file.name} ({formatFileSize(file.size)})
+                                    <button
+                                        type="button"
+                                        onClick={() => setFiles(files.filter((_, i) => i !== index))}
+                                        className="hover:text-red-600 font-bold"
+                                        aria-label={`Remove ${file.name}`}
+                                    >
+                                        ×
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    <div className="flex justify-between gap-2">
+                        <input
+                            ref={fileInputRef}
+                            type="file"
+                            multiple
+                            accept={ACCEPTED_FILES}
+                            className="hidden"
+                            onChange={e => {
+                                handleFilesSelected(e.target.files);
+                                e.target.value = '';
+                            }}
+                        />
+                        <Button type="button" variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                            <FaPaperclip className="h-3 w-3 mr-2" /> Attach File
+                        </Button>
+                        <Button
+                            type="submit"
+                            size="sm"
+                            disabled={addCommentMutation.isPending || (!text.trim() && files.length === 0)}
+                        >
+                            {addCommentMutation.isPending ? 'Sending...' : 'Send'}
+                        </Button>
+                    </div>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default LeaveCommentsDialog;
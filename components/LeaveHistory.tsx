@@ -1,11 +1,20 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { toast } from 'react-hot-toast';
 import { User, Leave, LeaveStatus } from '../types';
-import { useUserLeaves, useCancelLeaveMutation } from '../hooks/useLeaves';
-import { Button, Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui';
-import { CalendarIcon, ChevronLeftIcon } from './icons';
+import { useUserLeaves, useCancelLeaveMutation, useUserWaitlist, useLeaveWaitlistMutation } from '../hooks/useLeaves';
+import { useConfig } from '../hooks/useConfig';
+import { Button, Card, CardContent, CardDescription, CardHeader, CardTitle, Select } from './ui';
+import { CalendarIcon, ChevronLeftIcon, DownloadIcon } from './icons';
 import LeaveItem from './LeaveItem';
+import CalendarFeedLink from './CalendarFeedLink';
+import LeaveCommentsDialog from './LeaveComments';
+import { getLeaveTypes, getLeaveTypeOf } from '../utils/leaves';
+import { formatDateExtended } from '../utils/date';
+import { enqueueAction, isNetworkError, isOffline, removeQueuedAction } from '../utils/offlineQueue';
+import { useQueuedActions } from '../hooks/useOfflineQueue';
+import { useCalendarFeed, useResetCalendarFeedMutation, useCalendarExport } from '../hooks/useCalendarFeed';
+import { downloadIcs } from '../utils/ical';
 
 const Skeleton = ({ className }: { className?: string }) => (
     <div className={`animate-pulse rounded-md bg-muted ${className}`} />
@@ -13,23 +22,85 @@ const Skeleton = ({ className }: { className?: string }) => (
 
 const LeaveHistory: React.FC<{ user: User }> = ({ user }) => {
     const { data: leaves, isLoading, isError } = useUserLeaves(user.id);
+    const { data: config } = useConfig();
     const cancelLeaveMutation = useCancelLeaveMutation();
+    const { data: waitlist } = useUserWaitlist(user.id);
+    const leaveWaitlistMutation = useLeaveWaitlistMutation();
+    const [filterType, setFilterType] = React.useState('ALL');
+    const [commentsLeave, setCommentsLeave] = useState<Leave | null>(null);
+    const queuedActions = useQueuedActions(user.id);
+    const { data: calendarFeed, isLoading: isFeedLoading } = useCalendarFeed();
+    const resetFeedMutation = useResetCalendarFeedMutation();
+    const exportCalendar = useCalendarExport();
 
     const sortedLeaves = React.useMemo(() => 
-        leaves ? [...leaves].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()) : [],
-    [leaves]);
+        leaves ? [...leaves]
+            .filter(leave => filterType === 'ALL' || !config || getLeaveTypeOf(leave, config).id === filterType)
+            .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()) : [],
+    [leaves, config, filterType]);
     
     const handleBack = () => {
         window.location.hash = '#/';
     };
     
+    const queueCancellation = (leaveId: string) => {
+        const leave = leaves?.find(l => l.id === leaveId);
+        enqueueAction(user.id, { type: 'CANCEL_LEAVE', payload: { leaveId } },
+            `Cancel leave on ${leave ? formatDateExtended(leave.date) : leaveId}`);
+    };
+
     const handleCancelLeave = (leaveId: string) => {
+        if (isOffline()) {
+            queueCancellation(leaveId);
+            toast("You're offline. The cancellation will be sent when you're back online.");
+            return;
+        }
+
         toast.promise(
             cancelLeaveMutation.mutateAsync(leaveId),
             {
                 loading: 'Cancelling request...',
                 success: 'Leave request cancelled successfully!',
-                error: (error: any) => error.response?.data?.message || 'Failed to cancel leave request.',
+                error: (error: any) => {
+                    if (isNetworkError(error)) {
+                        queueCancellation(leaveId);
+                        return 'Connection lost. The cancellation has been queued and will be sent automatically.';
+                    }
+                    return error.response?.data?.message || 'Failed to cancel leave request.';
+                },
+            }
+        ).catch(() => {});
+    };
+
+    const handleExportCalendar = async () => {
+        if (!leaves || !config) return;
+        try {
+            downloadIcs('offday.ics', await exportCalendar(user.id, leaves, config));
+            toast.success('Calendar file downloaded.');
+        } catch (error: any) {
+            toast.error(error.response?.data?.message || 'Failed to export calendar.');
+        }
+    };
+
+    const handleResetFeed = () => {
+        if (!window.confirm('Reset your subscribe link? Calendars using the old link will stop updating.')) return;
+        toast.promise(
+            resetFeedMutation.mutateAsync(),
+            {
+                loading: 'Resetting link...',
+                success: 'A new subscribe link has been created.',
+                error: (error: any) => error.response?.data?.message || 'Failed to reset link.',
+            }
+        ).catch(() => {});
+    };
+
+    const handleLeaveWaitlist = (entryId: string) => {
+        toast.promise(
+            leaveWaitlistMutation.mutateAsync(entryId),
+            {
+                loading: 'Leaving waitlist...',
+                success: 'You have left the waitlist.',
+                error: (error: any) => error.response?.data?.message || 'Failed to leave waitlist.',
             }
         ).catch(() => {});
     };
@@ -68,24 +139,112 @@ const LeaveHistory: React.FC<{ user: User }> = ({ user }) => {
                     Back to Dashboard
                 </Button>
             </div>
+            {queuedActions.length > 0 && (
+                <Card className="mb-4">
+                    <CardHeader>
+                        <CardTitle>Waiting to Sync</CardTitle>
+                        <CardDescription>Changes made while offline. They are sent automatically when you're back online.</CardDescription>
+                    </CardHeader>
+                    <CardContent className="p-0">
+                        {queuedActions.map(item => (
+                            <div key={item.id} className="flex items-center justify-between p-4 border-b border-border last:border-b-0 dark:border-border/50">
+                                <p className="font-semibold">{item.label}</p>
+                                <Button variant="ghost" size="sm" onClick={() => removeQueuedAction(user.id, item.id)}>
+                                    Discard
+                                </Button>
+                            </div>
+                        ))}
+                    </CardContent>
+                </Card>
+            )}
+            {waitlist && waitlist.length > 0 && (
+                <Card className="mb-4">
+                    <CardHeader>
+                        <CardTitle>Waitlist</CardTitle>
+                        <CardDescription>Full shifts you are queued for. You move to pending automatically when a slot frees up.</CardDescription>
+                    </CardHeader>
+                    <CardContent className="p-0">
+                        {waitlist.map(entry => (
+                            <div key={entry.id} className="flex items-center justify-between p-4 border-b border-border last:border-b-0 dark:border-border/50">
+                                <div>
+                                    <p className="font-semibold">{formatDateExtended(entry.date)}</p>
+                                    <p className="text-sm text-muted-foreground">{entry.shiftName}</p>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <span className="px-2.5 py-0.5 text-xs font-semibold rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300">
+                                        #{entry.position} in queue
+                                    </span>
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => handleLeaveWaitlist(entry.id)}
+                                        disabled={leaveWaitlistMutation.isPending}
+                                    >
+                                        Leave
+                                    </Button>
+                                </div>
+                            </div>
+                        ))}
+                    </CardContent>
+                </Card>
+            )}
             <Card>
                 <CardHeader>
-                    <CardTitle>Full Leave History</CardTitle>
-                    <CardDescription>A complete record of all your leave requests.</CardDescription>
+                    <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+                        <div>
+                            <CardTitle>Full Leave History</CardTitle>
+                            <CardDescription>A complete record of all your leave requests.</CardDescription>
+                        </div>
+                        {config && (
+                            <Select
+                                value={filterType}
+                                onChange={e => setFilterType(e.target.value)}
+                                className="w-full sm:w-48"
+                                aria-label="Filter by leave type"
+                            >
+                                <option value="ALL">All Types</option>
+                                {getLeaveTypes(config).map(type => (
+                                    <option key={type.id} value={type.id}>{type.name}</option>
+                                ))}
+                            </Select>
+                        )}
+                    </div>
                 </CardHeader>
                 <CardContent className="p-0">
                     {sortedLeaves.length > 0 ? (
                         <div className="max-h-[70vh] overflow-y-auto">
-                           {sortedLeaves.map(leave => <LeaveItem key={leave.id} leave={leave} onCancel={handleCancelLeave} isActionLoading={cancelLeaveMutation.isPending} />)}
+                           {sortedLeaves.map(leave => <LeaveItem key={leave.id} leave={leave} leaveType={config ? getLeaveTypeOf(leave, config) : undefined} onCancel={handleCancelLeave} onOpenComments={setCommentsLeave} isActionLoading={cancelLeaveMutation.isPending} />)}
                         </div>
                     ) : (
                         <div className="p-6 text-center text-muted-foreground">
                             <CalendarIcon className="mx-auto h-12 w-12" />
-                            <p className="mt-4">You have no leave history.</p>
+                            <p className="mt-4">{filterType === 'ALL' ? 'You have no leave history.' : 'You have no leaves of this type.'}</p>
                         </div>
                     )}
                 </CardContent>
             </Card>
+            <Card className="mt-4">
+                <CardHeader>
+                    <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+                        <div>
+                            <CardTitle>Calendar</CardTitle>
+                            <CardDescription>Approved leaves and your assigned shifts in your phone or desktop calendar.</CardDescription>
+                        </div>
+                        <Button variant="outline" onClick={handleExportCalendar} disabled={!leaves || !config}>
+                            <DownloadIcon className="w-4 h-4 mr-2" /> Export .ics
+                        </Button>
+                    </div>
+                </CardHeader>
+                <CardContent>
+                    <CalendarFeedLink
+                        feed={calendarFeed}
+                        isLoading={isFeedLoading}
+                        onReset={handleResetFeed}
+                        isResetting={resetFeedMutation.isPending}
+                    />
+                </CardContent>
+            </Card>
+            <LeaveCommentsDialog leave={commentsLeave} currentUser={user} onClose={() => setCommentsLeave(null)} />
         </div>
     );
 };
@@ -1,8 +1,9 @@
 
 import React from 'react';
-import { Leave, LeaveStatus } from '../types';
+import { Leave, LeaveStatus, LeaveType } from '../types';
 import { Button } from './ui';
-import { FaRegTrashAlt } from "react-icons/fa";
+import LeaveTypeBadge from './LeaveTypeBadge';
+import { FaRegCommentDots, FaRegTrashAlt } from "react-icons/fa";
 // import { TrashIcon } from './icons';
 
 const getStatusBadge = (status: LeaveStatus) => {
@@ -21,24 +22,40 @@ import { formatDateExtended } from '../utils/date';
 
 interface LeaveItemProps {
   leave: Leave;
+  leaveType?: LeaveType;
   onCancel?: (leaveId: string) => void;
+  onOpenComments?: (leave: Leave) => void;
   isNextActive?: boolean;
   isActionLoading?: boolean;
 }
 
-const LeaveItem: React.FC<LeaveItemProps> = ({ leave, onCancel, isNextActive, isActionLoading }) => {
+const LeaveItem: React.FC<LeaveItemProps> = ({ leave, leaveType, onCancel, onOpenComments, isNextActive, isActionLoading }) => {
   const isCancellable = leave.status === LeaveStatus.PENDING && onCancel;
 
   return (
     <div className={`flex items-center justify-between p-4 border-b border-border last:border-b-0 transition-colors dark:border-border/50 ${isNextActive ? 'bg-primary/10' : ''}`}>
       <div>
         <p className="font-semibold">{formatDateExtended(leave.date)}</p>
-        <p className="text-sm text-muted-foreground">{leave.shiftName}</p>
+        <div className="flex items-center gap-2">
+          <p className="text-sm text-muted-foreground">{leave.shiftName}</p>
+          {leaveType && <LeaveTypeBadge leaveType={leaveType} />}
+        </div>
       </div>
       <div className="flex items-center gap-2">
         <span className={`px-2.5 py-0.5 text-xs font-semibold rounded-full ${getStatusBadge(leave.status)}`}>
           {leave.status}
         </span>
+        {onOpenComments && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onOpenComments(leave)}
+            aria-label={`Comments for ${formatDateExtended(leave.date)}${leave.commentCount ? ` (${leave.commentCount})` : ''}`}
+          >
+            <FaRegCommentDots className="h-4 w-4" />
+            {!!leave.commentCount && <span className="ml-1 text-xs">{leave.commentCount}</span>}
+          </Button>
+        )}
         {isCancellable && (
           <Button
             variant="ghost"
@@ -0,0 +1,300 @@
+import React, { useState, useMemo } from 'react';
+import { toast } from 'react-hot-toast';
+import { Config, User, Leave, LeaveStatus, LeaveSwap, SwapStatus } from '../types';
+import { Button, Card, CardContent, CardDescription, CardHeader, CardTitle, Input, Label, Select } from './ui';
+import {
+    useSwaps,
+    useCreateSwapOfferMutation,
+    useAcceptSwapMutation,
+    useCancelSwapMutation,
+    useUpdateSwapStatusMutation,
+    useSwapSlotCheck,
+} from '../hooks/useSwaps';
+import { getOrgToday } from '../utils/booking';
+import { formatDate } from '../utils/date';
+
+const getSwapStatusBadge = (status: SwapStatus) => {
+    switch (status) {
+        case SwapStatus.APPROVED:
+            return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300';
+        case SwapStatus.REJECTED:
+        case SwapStatus.CANCELLED:
+            return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300';
+        case SwapStatus.ACCEPTED:
+            return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300';
+        case SwapStatus.OPEN:
+        default:
+            return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300';
+    }
+};
+
+const isActiveSwap = (swap: LeaveSwap) => swap.status === SwapStatus.OPEN || swap.status === SwapStatus.ACCEPTED;
+
+const SwapSummary: React.FC<{ swap: LeaveSwap }> = ({ swap }) => (
+    <div>
+        <p className="font-semibold">
+            {swap.offeredByName}: {formatDate(swap.offeredDate)} ({swap.offeredShiftName})
+        </p>
+        {swap.acceptedByName && swap.acceptedDate && (
+            <p className="text-sm">
+                ⇄ {swap.acceptedByName}: {formatDate(swap.acceptedDate)} ({swap.acceptedShiftName})
+            </p>
+        )}
+        {swap.note && <p className="text-xs text-muted-foreground mt-1">"{swap.note}"</p>}
+    </div>
+);
+
+const LeaveSwaps: React.FC<{ user: User; myLeaves: Leave[]; config: Config }> = ({ user, myLeaves, config }) => {
+    const [offerLeaveId, setOfferLeaveId] = useState('');
+    const [offerNote, setOfferNote] = useState('');
+    // Leave the user would give back, per open offer
+    const [acceptChoice, setAcceptChoice] = useState<Record<string, string>>({});
+
+    const { data: swaps = [] } = useSwaps();
+    const createOfferMutation = useCreateSwapOfferMutation();
+    const acceptMutation = useAcceptSwapMutation();
+    const cancelMutation = useCancelSwapMutation();
+    const checkSwapSlots = useSwapSlotCheck();
+
+    // Only upcoming approved leaves that aren't already part of a swap can be traded
+    const swappableLeaves = useMemo(() => {
+        const today = getOrgToday(config);
+        const lockedLeaveIds = new Set(
+            swaps.filter(isActiveSwap).flatMap(s => [s.offeredLeaveId, s.acceptedLeaveId])
+        );
+        return myLeaves
+            .filter(l => l.status === LeaveStatus.APPROVED && l.date > today && !lockedLeaveIds.has(l.id))
+            .sort((a, b) => a.date.localeCompare(b.date));
+    }, [myLeaves, swaps, config]);
+
+    const openOffers = swaps.filter(s => s.status === SwapStatus.OPEN && s.offeredByUserId !== user.id);
+    const mySwaps = swaps.filter(s => s.offeredByUserId === user.id || s.acceptedByUserId === user.id);
+
+    const handleOffer = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!offerLeaveId) {
+            toast.error('Please select a leave to offer.');
+            return;
+        }
+
+        toast.promise(
+            createOfferMutation.mutateAsync({ leaveId: offerLeaveId, note: offerNote.trim() || undefined }),
+            {
+                loading: 'Posting swap offer...',
+                success: () => {
+                    setOfferLeaveId('');
+                    setOfferNote('');
+                    return 'Swap offer posted!';
+                },
+                error: (error: any) => error.response?.data?.message || 'Failed to post swap offer.',
+            }
+        ).catch(() => { });
+    };
+
+    const handleAccept = async (swap: LeaveSwap) => {
+        const leave = swappableLeaves.find(l => l.id === acceptChoice[swap.id]);
+        if (!leave) {
+            toast.error('Please choose one of your leaves to give in return.');
+            return;
+        }
+
+        try {
+            const slotProblem = await checkSwapSlots(
+                { date: swap.offeredDate, shiftId: swap.offeredShiftId, shiftName: swap.offeredShiftName },
+                leave
+            );
+            if (slotProblem) {
+                toast.error(slotProblem);
+                return;
+            }
+        } catch (error: any) {
+            toast.error(error.response?.data?.message || 'Failed to check slot availability.');
+            return;
+        }
+
+        toast.promise(
+            acceptMutation.mutateAsync({ swapId: swap.id, leaveId: leave.id }),
+            {
+                loading: 'Accepting swap...',
+                success: 'Swap accepted. It will take effect once an admin approves it.',
+                error: (error: any) => error.response?.data?.message || 'Failed to accept swap.',
+            }
+        ).catch(() => { });
+    };
+
+    const handleCancel = (swapId: string) => {
+        toast.promise(
+            cancelMutation.mutateAsync(swapId),
+            {
+                loading: 'Cancelling swap...',
+                success: 'Swap cancelled.',
+                error: (error: any) => error.response?.data?.message || 'Failed to cancel swap.',
+            }
+        ).catch(() => { });
+    };
+
+    const isBusy = createOfferMutation.isPending || acceptMutation.isPending || cancelMutation.isPending;
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Leave Swaps</CardTitle>
+                <CardDescription>Trade an approved day off with a colleague. Swaps take effect once an admin approves them.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+                <form onSubmit={handleOffer} className="grid gap-2 sm:grid-cols-[1fr_1fr_auto] sm:items-end">
+                    <div className="grid gap-2">
+                        <Label htmlFor="swap-offer-leave">Offer my leave</Label>
+                        <Select id="swap-offer-leave" value={offerLeaveId} onChange={e => setOfferLeaveId(e.target.value)}>
+                            <option value="">Select a leave</option>
+                            {swappableLeaves.map(l => (
+                                <option key={l.id} value={l.id}>{formatDate(l.date)} - {l.shiftName}</option>
+                            ))}
+                        </Select>
+                    </div>
+                    <div className="grid gap-2">
+                        <Label htmlFor="swap-offer-note">Note (optional)</Label>
+                        <Input id="swap-offer-note" value={offerNote} onChange={e => setOfferNote(e.target.value)} placeholder="e.g. Looking for any day next week" />
+                    </div>
+                    <Button type="submit" disabled={isBusy || !offerLeaveId}>Offer Swap</Button>
+                </form>
+
+                <div className="space-y-2">
+                    <h4 className="text-sm font-medium">Open offers from colleagues</h4>
+                    {openOffers.length > 0 ? (
+                        <div className="border rounded-lg dark:border-border/50">
+                            {openOffers.map(swap => (
+                                <div key={swap.id} className="flex flex-col md:flex-row md:items-center justify-between gap-2 p-4 border-b last:border-b-0 dark:border-border/50">
+                                    <SwapSummary swap={swap} />
+                                    <div className="flex gap-2">
+                                        <Select
+                                            value={acceptChoice[swap.id] ?? ''}
+                                            onChange={e => setAcceptChoice(prev => ({ ...prev, [swap.id]: e.target.value }))}
+                                            aria-label={`Leave to give ${swap.offeredByName} in return`}
+                                            className="w-48"
+                                        >
+                                            <option value="">Give in return...</option>
+                                            {swappableLeaves.map(l => (
+                                                <option key={l.id} value={l.id}>{formatDate(l.date)} - {l.shiftName}</option>
+                                            ))}
+                                        </Select>
+                                        <Button size="sm" onClick={() => handleAccept(swap)} disabled={isBusy || !acceptChoice[swap.id]}>
+                                            Accept
+                                        </Button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <p className="text-sm text-muted-foreground">No open offers right now.</p>
+                    )}
+                </div>
+
+                {mySwaps.length > 0 && (
+                    <div className="space-y-2">
+                        <h4 className="text-sm font-medium">My swaps</h4>
+                        <div className="border rounded-lg dark:border-border/50">
+                            {mySwaps.map(swap => (
+                                <div key={swap.id} className="flex items-center justify-between gap-2 p-4 border-b last:border-b-0 dark:border-border/50">
+                                    <SwapSummary swap={swap} />
+                                    <div className="flex items-center gap-2">
+                                        <span className={`px-2.5 py-0.5 text-xs font-semibold rounded-full ${getSwapStatusBadge(swap.status)}`}>
+                                            {swap.status}
+                                        </span>
+                                        {isActiveSwap(swap) && (
+                                            <Button size="sm" variant="ghost" onClick={() => handleCancel(swap.id)} disabled={isBusy}>
+                                                Cancel
+                                            </Button>
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+};
+
+interface SwapApprovalsProps {
+    canApproveShift: (shiftId: string) => boolean;
+}
+
+// Admin queue of swaps both colleagues have agreed to. A swap moves both
+// leaves, so it is only shown to approvers of both shifts.
+export const SwapApprovals: React.FC<SwapApprovalsProps> = ({ canApproveShift }) => {
+    const { data: swaps = [] } = useSwaps();
+    const updateStatusMutation = useUpdateSwapStatusMutation();
+    const checkSwapSlots = useSwapSlotCheck();
+
+    const pendingSwaps = swaps.filter(s =>
+        s.status === SwapStatus.ACCEPTED &&
+        canApproveShift(s.offeredShiftId) &&
+        (!s.acceptedShiftId || canApproveShift(s.acceptedShiftId))
+    );
+
+    const handleDecision = async (swap: LeaveSwap, status: SwapStatus.APPROVED | SwapStatus.REJECTED) => {
+        if (status === SwapStatus.APPROVED && swap.acceptedDate && swap.acceptedShiftId) {
+            try {
+                // Slots may have filled up since the colleague accepted
+                const slotProblem = await checkSwapSlots(
+                    { date: swap.offeredDate, shiftId: swap.offeredShiftId, shiftName: swap.offeredShiftName },
+                    { date: swap.acceptedDate, shiftId: swap.acceptedShiftId, shiftName: swap.acceptedShiftName ?? '' }
+                );
+                if (slotProblem) {
+                    toast.error(slotProblem);
+                    return;
+                }
+            } catch (error: any) {
+                toast.error(error.response?.data?.message || 'Failed to check slot availability.');
+                return;
+            }
+        }
+
+        toast.promise(
+            updateStatusMutation.mutateAsync({ swapId: swap.id, status }),
+            {
+                loading: 'Updating swap...',
+                success: `Swap has been ${status.toLowerCase()}.`,
+                error: (error: any) => error.response?.data?.message || 'Failed to update swap.',
+            }
+        ).catch(() => { });
+    };
+
+    if (pendingSwaps.length === 0) return null;
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Swap Requests</CardTitle>
+                <CardDescription>Approving a swap moves both leaves in one step.</CardDescription>
+            </CardHeader>
+            <CardContent className="p-0">
+                {pendingSwaps.map(swap => (
+                    <div key={swap.id} className="flex flex-col md:flex-row md:items-center justify-between gap-2 p-4 border-b last:border-b-0 dark:border-border/50">
+                        <SwapSummary swap={swap} />
+                        <div className="flex gap-2">
+                            <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleDecision(swap, SwapStatus.APPROVED)}
+                                disabled={updateStatusMutation.isPending}>
+                                Approve
+                            </Button>
+                            <Button
+                                size="sm"
+                                variant="destructive"
+                                onClick={() => handleDecision(swap, SwapStatus.REJECTED)}
+                                disabled={updateStatusMutation.isPending}>
+                                Reject
+                            </Button>
+                        </div>
+                    </div>
+                ))}
+            </CardContent>
+        </Card>
+    );
+};
+
+export default LeaveSwaps;
@@ -0,0 +1,20 @@
+import React from 'react';
+import { LeaveType } from '../types';
+
+interface LeaveTypeBadgeProps {
+  leaveType: LeaveType;
+  className?: string;
+}
+
+// Type colours are admin-defined hex values, so they are applied inline rather
+// than through Tailwind classes.
+const LeaveTypeBadge: React.FC<LeaveTypeBadgeProps> = ({ leaveType, className = '' }) => (
+  <span
+    className={`inline-flex items-center px-2 py-0.5 text-xs font-medium rounded-full border ${className}`}
+    style={{ color: leaveType.color, borderColor: leaveType.color, backgroundColor: `${leaveType.color}1a` }}
+  >
+    {leaveType.name}
+  </span>
+);
+
+export default LeaveTypeBadge;
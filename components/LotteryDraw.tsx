@@ -0,0 +1,178 @@
+import React, { useState } from "react";
+import { toast } from "react-hot-toast";
+import { Button, Card, CardContent, CardDescription, CardHeader, CardTitle, Label } from "./ui";
+import { Config, Leave, LeaveStatus, LotteryDraw as LotteryDrawRecord, LotteryEntry } from "../types";
+import { useLotteryBallot, useLotteryDraws, useRunLotteryDrawMutation } from "../hooks/useLottery";
+import {
+    describeLotteryVerificationFailure, getBallotLeaves, getBallotPeriod, hashLotterySeed, isLotteryEnabled, runLottery, verifyLotteryDraw
+} from "../utils/lottery";
+import { formatDate } from "../utils/date";
+
+interface LotteryDrawProps {
+    config: Config;
+    leaves: Leave[];
+}
+
+const formatInstant = (date: Date | string) =>
+    new Date(date).toLocaleString("en-GB", { dateStyle: "medium", timeStyle: "short" });
+
+const DrawResults: React.FC<{ entries: LotteryEntry[]; shiftName: (id: string) => string }> = ({ entries, shiftName }) => (
+    <div className="border rounded-lg max-h-80 overflow-auto dark:border-border/50">
+        <table className="w-full text-sm text-left">
+            <thead className="bg-muted/50 sticky top-0">
+                <tr>
+                    <th className="p-2 font-medium">#</th>
+                    <th className="p-2 font-medium">User</th>
+                    <th className="p-2 font-medium">Date</th>
+                    <th className="p-2 font-medium">Shift</th>
+                    <th className="p-2 font-medium">Weight</th>
+                    <th className="p-2 font-medium">Result</th>
+                </tr>
+            </thead>
+            <tbody>
+                {entries.map((entry) => (
+                    <tr key={entry.leaveId} className="border-b last:border-0 dark:border-border/50">
+                        <td className="p-2">{entry.rank}</td>
+                        <td className="p-2">{entry.userName}</td>
+                        <td className="p-2">{formatDate(entry.date)}</td>
+                        <td className="p-2">{shiftName(entry.shiftId)}</td>
+                        <td className="p-2">{entry.weight.toFixed(2)}</td>
+                        <td className={`p-2 font-medium ${entry.status === LeaveStatus.APPROVED ? "text-green-600 dark:text-green-400" : "text-red-500"}`}>
+                            {entry.status}
+                        </td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    </div>
+);
+
+// Runs the ballot draw once the collection period has closed and keeps the
+// published draws, with their seeds, for auditing. The seed is fixed by the
+// server when the ballot opens; admins see its hash up front and can preview
+// the draw with the revealed seed, but the server runs the draw itself.
+export const LotteryDraw: React.FC<LotteryDrawProps> = ({ config, leaves }) => {
+    const [preview, setPreview] = useState<LotteryEntry[] | null>(null);
+    const [expandedDrawId, setExpandedDrawId] = useState<string | null>(null);
+
+    const { data: ballot } = useLotteryBallot({ enabled: isLotteryEnabled(config) });
+    const { data: draws = [] } = useLotteryDraws();
+    const runDrawMutation = useRunLotteryDrawMutation();
+
+    const ballotLeaves = getBallotLeaves(leaves);
+    const period = getBallotPeriod(config);
+    const start = ballot ? new Date(ballot.ballotStart) : period.start;
+    const end = ballot ? new Date(ballot.ballotEnd) : period.end;
+    const isBallotClosed = new Date() >= end;
+    const shiftName = (id: string) => config.shifts.find((s) => s.id === id)?.name ?? id;
+
+    if (!isLotteryEnabled(config) && draws.length === 0) return null;
+
+    const handlePreview = async () => {
+        if (!ballot?.seed) return;
+        if ((await hashLotterySeed(ballot.seed)) !== ballot.seedHash) {
+            toast.error(describeLotteryVerificationFailure("SEED_MISMATCH"));
+            return;
+        }
+        setPreview(runLottery(config, leaves, ballot.seed));
+    };
+
+    const handleRunDraw = () => {
+        if (!ballot) return;
+        toast
+            .promise(runDrawMutation.mutateAsync({ ballotStart: ballot.ballotStart }), {
+                loading: "Running the draw...",
+                success: () => {
+                    setPreview(null);
+                    return "Draw results published!";
+                },
+                error: (error: any) => error.response?.data?.message || "Failed to run the draw.",
+            })
+            .catch(() => { });
+    };
+
+    const handleVerify = async (draw: LotteryDrawRecord) => {
+        const failure = await verifyLotteryDraw(draw);
+        if (failure) {
+            toast.error(describeLotteryVerificationFailure(failure));
+        } else {
+            toast.success("The seed matches its commitment and re-running the draw gives the same result.");
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Lottery Draw</CardTitle>
+                <CardDescription>
+                    Ballot {formatInstant(start)} - {formatInstant(end)}. {ballotLeaves.length} request(s) waiting for the draw.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {ballot && (
+                    <div className="grid gap-1 text-sm">
+                        <Label>Seed commitment (SHA-256)</Label>
+                        <p className="font-mono text-xs break-all">{ballot.seedHash}</p>
+                        <p className="text-xs text-muted-foreground">
+                            Committed {formatInstant(ballot.seedCommittedAt)}.{" "}
+                            {ballot.seed ? (
+                                <>Revealed seed: <span className="font-mono">{ballot.seed}</span></>
+                            ) : (
+                                "The seed is revealed when the ballot closes."
+                            )}
+                        </p>
+                    </div>
+                )}
+                {ballot && !ballot.drawId && ballotLeaves.length > 0 && (
+                    <div className="flex flex-wrap gap-4 items-end">
+                        <Button variant="outline" onClick={handlePreview} disabled={!isBallotClosed || !ballot.seed}>
+                            Preview Draw
+                        </Button>
+                        <Button onClick={handleRunDraw} disabled={!isBallotClosed || !ballot.seed || runDrawMutation.isPending}>
+                            Run Draw &amp; Publish
+                        </Button>
+                        {!isBallotClosed && (
+                            <p className="text-sm text-muted-foreground w-full">The draw can be run once the ballot closes.</p>
+                        )}
+                    </div>
+                )}
+
+                {preview && <DrawResults entries={preview} shiftName={shiftName} />}
+
+                {draws.length > 0 && (
+                    <div className="space-y-2">
+                        <h4 className="text-sm font-medium">Published draws</h4>
+                        <div className="border rounded-lg dark:border-border/50">
+                            {[...draws]
+                                .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+                                .map((draw) => (
+                                    <div key={draw.id} className="p-3 border-b last:border-b-0 text-sm dark:border-border/50">
+                                        <div className="flex flex-wrap items-center justify-between gap-2">
+                                            <span>
+                                                {formatInstant(draw.createdAt)} by {draw.runByName}:{" "}
+                                                {draw.entries.filter((e) => e.status === LeaveStatus.APPROVED).length}/{draw.entries.length} approved
+                                                <span className="text-muted-foreground font-mono"> (seed {draw.seed})</span>
+                                            </span>
+                                            <div className="flex gap-2">
+                                                <Button size="sm" variant="ghost" onClick={() => setExpandedDrawId(expandedDrawId === draw.id ? null : draw.id)}>
+                                                    {expandedDrawId === draw.id ? "Hide" : "Details"}
+                                                </Button>
+                                                <Button size="sm" variant="outline" onClick={() => handleVerify(draw)}>
+                                                    Verify
+                                                </Button>
+                                            </div>
+                                        </div>
+                                        {expandedDrawId === draw.id && (
+                                            <div className="mt-2">
+                                                <DrawResults entries={[...draw.entries].sort((a, b) => a.rank - b.rank)} shiftName={shiftName} />
+                                            </div>
+                                        )}
+                                    </div>
+                                ))}
+                        </div>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+};
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { formatDistanceToNow } from 'date-fns';
+import { IoIosNotificationsOutline } from 'react-icons/io';
+import { AppNotification, NotificationType } from '../types';
+import { Button, Checkbox, Label, Popover, PopoverContent, PopoverTrigger } from './ui';
+import { SettingsIcon } from './icons';
+import {
+    useNotifications,
+    useMarkNotificationReadMutation,
+    useMarkAllNotificationsReadMutation,
+    useNotificationPreferences,
+    useUpdateNotificationPreferencesMutation,
+} from '../hooks/useNotifications';
+
+const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+    LEAVE_APPROVED: 'Leave approved',
+    LEAVE_REJECTED: 'Leave rejected',
+    LEAVE_CREATED_BY_ADMIN: 'Leave added by an admin',
+    SHIFT_REASSIGNED: 'Shift reassigned',
+    SHIFT_SWAPPED: 'Shift swapped',
+    BOOKING_WINDOW_OPENED: 'Booking window opened',
+    LEAVE_COMMENT: 'New comment on a leave',
+    ROSTER_PUBLISHED: 'Roster published with a change for you',
+};
+
+// A button rather than a clickable row, so unread notifications can be marked
+// read from the keyboard too
+const NotificationRow: React.FC<{ notification: AppNotification; onRead: (id: string) => void }> = ({ notification, onRead }) => (
+    <li className="border-b last:border-b-0 dark:border-border/50">
+        <button
+            type="button"
+            className={`block w-full p-3 text-left focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-ring ${notification.read ? '' : 'bg-primary/5'}`}
+            onClick={() => !notification.read && onRead(notification.id)}
+        >
+            <span className="flex items-start justify-between gap-2">
+                <span className={`text-sm ${notification.read ? '' : 'font-semibold'}`}>{notification.title}</span>
+                {!notification.read && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-primary" aria-label="Unread" />}
+            </span>
+            <span className="block text-xs text-muted-foreground mt-0.5">{notification.message}</span>
+            <span className="block text-[11px] text-muted-foreground mt-1">
+                {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+            </span>
+        </button>
+    </li>
+);
+
+export const NotificationCenter: React.FC = () => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [showPreferences, setShowPreferences] = useState(false);
+
+    const { data: notifications = [] } = useNotifications();
+    const { data: preferences } = useNotificationPreferences();
+    const markReadMutation = useMarkNotificationReadMutation();
+    const markAllReadMutation = useMarkAllNotificationsReadMutation();
+    const updatePreferencesMutation = useUpdateNotificationPreferencesMutation();
+
+    const mutedTypes = preferences?.mutedTypes ?? [];
+    // Anything raised before a type was muted is hidden as well
+    const visibleNotifications = notifications
+        .filter(n => !mutedTypes.includes(n.type))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    const unreadCount = visibleNotifications.filter(n => !n.read).length;
+
+    const handleToggleMute = (type: NotificationType, muted: boolean) => {
+        const nextMutedTypes = muted ? [...mutedTypes, type] : mutedTypes.filter(t => t !== type);
+        toast.promise(
+            updatePreferencesMutation.mutateAsync({ ...preferences, mutedTypes: nextMutedTypes }),
+            {
+                loading: 'Saving preferences...',
+                success: 'Notification preferences saved.',
+                error: (error: any) => error.response?.data?.message || 'Failed to save preferences.',
+            }
+        ).catch(() => { });
+    };
+
+    const handleMarkAllRead = () => {
+        markAllReadMutation.mutateAsync().catch((error: any) => {
+            toast.error(error.response?.data?.message || 'Failed to mark notifications as read.');
+        });
+    };
+
+    const handleRead = (id: string) => {
+        markReadMutation.mutate(id);
+    };
+
+    return (
+        <Popover open={isOpen} onOpenChange={open => { setIsOpen(open); if (!open) setShowPreferences(false); }}>
+            <PopoverTrigger asChild>
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    className="relative"
+                    aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+                >
+                    <IoIosNotificationsOutline className="h-5 w-5" />
+                    {unreadCount > 0 && (
+                        <span className="absolute top-1 right-1 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-semibold flex items-center justify-center">
+                            {unreadCount > 99 ? '99+' : unreadCount}
+                        </span>
+                    )}
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-80 p-0" align="end">
+                <div className="flex items-center justify-between p-3 border-b dark:border-border/50">
+                    <span className="font-semibold text-sm">{showPreferences ? 'Notification settings' : 'Notifications'}</span>
+                    <div className="flex items-center gap-1">
+                        {!showPreferences && unreadCount > 0 && (
+                            <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={handleMarkAllRead} disabled={markAllReadMutation.isPending}>
+                                Mark all read
+                            </Button>
+                        )}
+                        <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7"
+                            onClick={() => setShowPreferences(prev => !prev)}
+                            aria-label={showPreferences ? 'Back to notifications' : 'Notification settings'}
+                        >
+                            <SettingsIcon className="h-4 w-4" />
+                        </Button>
+                    </div>
+                </div>
+
+                {showPreferences ? (
+                    <div className="p-3 space-y-3">
+                        <p className="text-xs text-muted-foreground">Muted events won't show up here.</p>
+                        {(Object.keys(NOTIFICATION_TYPE_LABELS) as NotificationType[]).map(type => (
+                            <div key={type} className="flex items-center justify-between gap-2">
+                                <Label htmlFor={`notify-${type}`} className="text-sm font-normal">
+                                    {NOTIFICATION_TYPE_LABELS[type]}
+                                </Label>
+                                <Checkbox
+                                    id={`notify-${type}`}
+                                    checked={!mutedTypes.includes(type)}
+                                    onCheckedChange={checked => handleToggleMute(type, !checked)}
+                                    disabled={updatePreferencesMutation.isPending}
+                                />
+                            </div>
+                        ))}
+                    </div>
+                ) : visibleNotifications.length > 0 ? (
+                    <ul className="max-h-96 overflow-y-auto">
+                        {visibleNotifications.map(notification => (
+                            <NotificationRow key={notification.id} notification={notification} onRead={handleRead} />
+                        ))}
+                    </ul>
+                ) : (
+                    <p className="p-6 text-center text-sm text-muted-foreground">You're all caught up.</p>
+                )}
+            </PopoverContent>
+        </Popover>
+    );
+};
@@ -0,0 +1,265 @@
+import React, { useState, useMemo, useRef, useEffect } from "react";
+import { Badge, cn } from "./ui";
+import { Shift, User } from "../types";
+
+interface RosterBoardProps {
+    users: User[];
+    shifts: Shift[];
+    weekShifts: any[];
+    changedUserIds?: Set<string>; // Users whose draft shift differs from the published one
+    // A null shift takes the users off the roster for the week
+    onMove: (userIds: string[], shiftId: string | null) => Promise<unknown>;
+    onSwap: (userId: string, otherUserId: string) => Promise<unknown>;
+    isLoading: boolean;
+}
+
+interface BoardColumn {
+    id: string | null; // null is the unassigned column
+    title: string;
+    slots?: number;
+    users: User[];
+}
+
+const columnKey = (id: string | null) => id ?? "unassigned";
+
+// One column per shift for the selected week. Mouse users drag cards between
+// columns or onto a person to swap; the keyboard equivalents are listed in
+// KEYBOARD_HELP and every change is announced through a live region.
+export const RosterBoard: React.FC<RosterBoardProps> = ({ users, shifts, weekShifts, changedUserIds, onMove, onSwap, isLoading }) => {
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [dragIds, setDragIds] = useState<string[]>([]);
+    const [dropTarget, setDropTarget] = useState<string | null>(null);
+    const [pickedUpId, setPickedUpId] = useState<string | null>(null);
+    const [announcement, setAnnouncement] = useState("");
+    const [pendingFocusId, setPendingFocusId] = useState<string | null>(null);
+    const cardRefs = useRef(new Map<string, HTMLButtonElement>());
+
+    const columns = useMemo<BoardColumn[]>(() => {
+        const shiftByUser = new Map<string, string>(weekShifts.map((ws: any) => [ws.userId, ws.shiftId]));
+        const byName = (a: User, b: User) => a.name.localeCompare(b.name);
+        return [
+            { id: null, title: "Unassigned", users: users.filter((u) => !shiftByUser.has(u.id)).sort(byName) },
+            ...shifts.map((shift) => ({
+                id: shift.id,
+                title: shift.name,
+                slots: shift.slots,
+                users: users.filter((u) => shiftByUser.get(u.id) === shift.id).sort(byName),
+            })),
+        ];
+    }, [users, shifts, weekShifts]);
+
+    const userColumn = useMemo(() => {
+        const map = new Map<string, number>();
+        columns.forEach((column, index) => column.users.forEach((u) => map.set(u.id, index)));
+        return map;
+    }, [columns]);
+
+    const nameOf = (userId: string) => users.find((u) => u.id === userId)?.name ?? "Unknown";
+
+    // Keep keyboard focus on a card after it moves to another column
+    useEffect(() => {
+        if (pendingFocusId && userColumn.has(pendingFocusId)) {
+            cardRefs.current.get(pendingFocusId)?.focus();
+            setPendingFocusId(null);
+        }
+    }, [userColumn, pendingFocusId]);
+
+    const toggleSelected = (userId: string) =>
+        setSelectedIds((prev) => (prev.includes(userId) ? prev.filter((id) => id !== userId) : [...prev, userId]));
+
+    const moveUsers = (userIds: string[], column: BoardColumn) => {
+        const toMove = userIds.filter((id) => userColumn.get(id) !== columns.indexOf(column));
+        if (toMove.length === 0) return;
+        setSelectedIds([]);
+        setAnnouncement(`Moving ${toMove.length === 1 ? nameOf(toMove[0]) : `${toMove.length} users`} to ${column.title}`);
+        onMove(toMove, column.id).catch(() => { });
+    };
+
+    const swapUsers = (userId: string, otherUserId: string) => {
+        if (userColumn.get(userId) === userColumn.get(otherUserId)) return;
+        setSelectedIds([]);
+        setAnnouncement(`Swapping ${nameOf(userId)} with ${nameOf(otherUserId)}`);
+        onSwap(userId, otherUserId).catch(() => { });
+    };
+
+    // Dragging a selected card takes the whole selection with it
+    const handleDragStart = (e: React.DragEvent, userId: string) => {
+        const ids = selectedIds.includes(userId) ? selectedIds : [userId];
+        setDragIds(ids);
+        e.dataTransfer.effectAllowed = "move";
+        e.dataTransfer.setData("text/plain", ids.join(","));
+    };
+
+    const handleDragEnd = () => {
+        setDragIds([]);
+        setDropTarget(null);
+    };
+
+    const handleDropOnColumn = (e: React.DragEvent, column: BoardColumn) => {
+        e.preventDefault();
+        moveUsers(dragIds, column);
+        handleDragEnd();
+    };
+
+    // A single card dropped on a person swaps them; a multi-card drag just
+    // lands in that person's column
+    const handleDropOnCard = (e: React.DragEvent, column: BoardColumn, userId: string) => {
+        e.preventDefault();
+        e.stopPropagation();
+        if (dragIds.length === 1 && dragIds[0] !== userId) {
+            swapUsers(dragIds[0], userId);
+        } else {
+            moveUsers(dragIds, column);
+        }
+        handleDragEnd();
+    };
+
+    const handleCardKeyDown = (e: React.KeyboardEvent, userId: string) => {
+        const columnIndex = userColumn.get(userId) ?? 0;
+        const column = columns[columnIndex];
+        const rowIndex = column.users.findIndex((u) => u.id === userId);
+
+        switch (e.key) {
+            case " ":
+                e.preventDefault();
+                toggleSelected(userId);
+                setAnnouncement(`${nameOf(userId)} ${selectedIds.includes(userId) ? "deselected" : "selected"}`);
+                break;
+            case "ArrowLeft":
+            case "ArrowRight": {
+                e.preventDefault();
+                const target = columns[columnIndex + (e.key === "ArrowLeft" ? -1 : 1)];
+                if (!target || isLoading) break;
+                setPendingFocusId(userId);
+                moveUsers(selectedIds.includes(userId) ? selectedIds : [userId], target);
+                break;
+            }
+            case "ArrowUp":
+            case "ArrowDown": {
+                e.preventDefault();
+                const next = column.users[rowIndex + (e.key === "ArrowUp" ? -1 : 1)];
+                if (next) cardRefs.current.get(next.id)?.focus();
+                break;
+            }
+            case "Enter":
+                e.preventDefault();
+                if (!pickedUpId) {
+                    setPickedUpId(userId);
+                    setAnnouncement(`${nameOf(userId)} picked up. Move to another person and press Enter to swap, or Escape to cancel.`);
+                } else if (pickedUpId === userId) {
+                    setPickedUpId(null);
+                    setAnnouncement("Swap cancelled");
+                } else {
+                    swapUsers(pickedUpId, userId);
+                    setPickedUpId(null);
+                }
+                break;
+            case "Escape":
+                if (pickedUpId || selectedIds.length > 0) {
+                    setPickedUpId(null);
+                    setSelectedIds([]);
+                    setAnnouncement("Selection cleared");
+                }
+                break;
+        }
+    };
+
+    return (
+        <div className="space-y-3">
+            <p id="roster-board-help" className="text-xs text-muted-foreground">
+                {KEYBOARD_HELP}
+            </p>
+            <div className="sr-only" aria-live="polite">
+                {announcement}
+            </div>
+            <div className="flex gap-3 overflow-x-auto pb-2" aria-busy={isLoading}>
+                {columns.map((column) => {
+                    const key = columnKey(column.id);
+                    const overCapacity = column.slots !== undefined && column.users.length > column.slots;
+                    return (
+                        <section
+                            key={key}
+                            aria-label={`${column.title}, ${column.users.length} ${column.users.length === 1 ? "user" : "users"}`}
+                            onDragOver={(e) => {
+                                if (dragIds.length === 0) return;
+                                e.preventDefault();
+                                setDropTarget(key);
+                            }}
+                            onDragLeave={(e) => {
+                                if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null);
+                            }}
+                            onDrop={(e) => handleDropOnColumn(e, column)}
+                            className={cn(
+                                "flex flex-col w-56 shrink-0 rounded-lg border bg-muted/30 dark:border-border/50",
+                                dropTarget === key && "ring-2 ring-primary"
+                            )}>
+                            <header className="flex items-center justify-between p-2 border-b dark:border-border/50">
+                                <h3 className="font-semibold text-sm truncate">{column.title}</h3>
+                                {column.slots !== undefined ? (
+                                    <Badge
+                                        variant={overCapacity ? "destructive" : "secondary"}
+                                        title={overCapacity ? "More people than the shift's slots" : undefined}>
+                                        {column.users.length} / {column.slots}
+                                    </Badge>
+                                ) : (
+                                    <Badge variant="outline">{column.users.length}</Badge>
+                                )}
+                            </header>
+                            <ul className="flex-1 p-2 space-y-1.5 min-h-[6rem] max-h-[28rem] overflow-y-auto">
+                                {column.users.length === 0 && (
+                                    <li className="text-xs text-muted-foreground italic p-2">Drop users here</li>
+                                )}
+                                {column.users.map((user) => {
+                                    const isSelected = selectedIds.includes(user.id);
+                                    return (
+                                        <li key={user.id}>
+                                            <button
+                                                ref={(el) => {
+                                                    if (el) cardRefs.current.set(user.id, el);
+                                                    else cardRefs.current.delete(user.id);
+                                                }}
+                                                type="button"
+                                                draggable={!isLoading}
+                                                onDragStart={(e) => handleDragStart(e, user.id)}
+                                                onDragEnd={handleDragEnd}
+                                                onDragOver={(e) => {
+                                                    if (dragIds.length === 0) return;
+                                                    e.preventDefault();
+                                                    setDropTarget(key);
+                                                }}
+                                                onDrop={(e) => handleDropOnCard(e, column, user.id)}
+                                                onClick={() => toggleSelected(user.id)}
+                                                onKeyDown={(e) => handleCardKeyDown(e, user.id)}
+                                                aria-pressed={isSelected}
+                                                aria-describedby="roster-board-help"
+                                                className={cn(
+                                                    "w-full text-left rounded-md border px-2 py-1.5 text-sm bg-background cursor-grab active:cursor-grabbing focus:outline-none focus-visible:ring-2 focus-visible:ring-ring dark:border-border/50",
+                                                    isSelected && "border-primary bg-primary/10",
+                                                    pickedUpId === user.id && "ring-2 ring-amber-500",
+                                                    dragIds.includes(user.id) && "opacity-50"
+                                                )}>
+                                                {user.name}
+                                                {changedUserIds?.has(user.id) && (
+                                                    <span
+                                                        className="ml-1.5 inline-block h-2 w-2 rounded-full bg-amber-500 align-middle"
+                                                        title="Unpublished change"
+                                                        aria-label="Unpublished change"
+                                                    />
+                                                )}
+                                            </button>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        </section>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+const KEYBOARD_HELP =
+    "Drag people between shifts, or onto a person to swap them. Click or press Space to select several. " +
+    "With the keyboard: Left/Right arrows move the selection to the neighbouring shift, Up/Down move between people, " +
+    "Enter picks a person up and Enter on another person swaps them, Escape clears.";
@@ -0,0 +1,401 @@
+import React, { useState, useMemo, useEffect } from "react";
+import { FaCheck, FaSort } from "react-icons/fa";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "react-hot-toast";
+import {
+    Button, Card, CardContent, CardDescription, CardHeader, CardTitle, Input, Label, Select, cn,
+    Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList,
+    Popover, PopoverContent, PopoverTrigger
+} from "./ui";
+import { Config, RotationAssignment, RotationPattern, Shift, User } from "../types";
+import { bulkAssignUserShifts, removeUserShift } from "../services/api";
+import { describePattern, getAssignmentWeek, getRotationBatches, getRotationSchedule, getUpcomingWeeks } from "../utils/rotation";
+import { getOrgToday } from "../utils/booking";
+import { formatDate } from "../utils/date";
+
+interface RotationPatternsProps {
+    users: User[];
+    shifts: Shift[];
+    config: Config;
+    onSave: (config: Config) => void;
+    isSaving: boolean;
+}
+
+const OFF = "off";
+
+// Patterns and who follows them live in the config; generating writes the
+// resulting weeks into each week's draft roster, ready to review and publish.
+export const RotationPatterns: React.FC<RotationPatternsProps> = ({ users, shifts, config, onSave, isSaving }) => {
+    const [patterns, setPatterns] = useState<RotationPattern[]>(config.rotationPatterns ?? []);
+    const [assignments, setAssignments] = useState<RotationAssignment[]>(config.rotationAssignments ?? []);
+    const [previewWeeks, setPreviewWeeks] = useState(8);
+
+    const queryClient = useQueryClient();
+
+    useEffect(() => {
+        setPatterns(config.rotationPatterns ?? []);
+        setAssignments(config.rotationAssignments ?? []);
+    }, [config]);
+
+    const isDirty =
+        JSON.stringify(patterns) !== JSON.stringify(config.rotationPatterns ?? []) ||
+        JSON.stringify(assignments) !== JSON.stringify(config.rotationAssignments ?? []);
+
+    const shiftNames = useMemo(() => new Map(config.shifts.map((s) => [s.id, s.name])), [config.shifts]);
+    const today = getOrgToday(config);
+    const weeks = useMemo(() => getUpcomingWeeks(today, previewWeeks), [today, previewWeeks]);
+
+    const generateMutation = useMutation({
+        mutationFn: async () => {
+            const { batches, removals } = getRotationBatches(getRotationSchedule(config, weeks));
+            await Promise.all([
+                ...batches.map((b) => bulkAssignUserShifts({ userIds: b.userIds, shiftId: b.shiftId, startDate: b.weekStart, draft: true })),
+                ...removals.map((r) => removeUserShift(r.userId, r.weekStart, true)),
+            ]);
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ["week-shifts"] });
+        },
+    });
+
+    const updatePattern = (id: string, changes: Partial<RotationPattern>) =>
+        setPatterns(patterns.map((p) => (p.id === id ? { ...p, ...changes } : p)));
+
+    const updateAssignment = (id: string, changes: Partial<RotationAssignment>) =>
+        setAssignments(assignments.map((a) => (a.id === id ? { ...a, ...changes } : a)));
+
+    const handleAddPattern = () =>
+        setPatterns([...patterns, { id: `rp${Date.now()}`, name: "New Rotation", steps: shifts[0] ? [{ shiftId: shifts[0].id, weeks: 1 }] : [] }]);
+
+    const handleRemovePattern = (pattern: RotationPattern) => {
+        const inUse = assignments.filter((a) => a.patternId === pattern.id).length;
+        if (inUse > 0 && !window.confirm(`"${pattern.name}" is used by ${inUse} assignment(s), which will also be removed. Continue?`)) {
+            return;
+        }
+        setPatterns(patterns.filter((p) => p.id !== pattern.id));
+        setAssignments(assignments.filter((a) => a.patternId !== pattern.id));
+    };
+
+    const handleAddAssignment = () => {
+        if (patterns.length === 0) return;
+        setAssignments([...assignments, { id: `ra${Date.now()}`, patternId: patterns[0].id, userIds: [], anchorDate: weeks[0], overrides: [] }]);
+    };
+
+    const handleOverride = (assignment: RotationAssignment, userId: string, weekStart: string, value: string, rotationShiftId: string | null) => {
+        const overrides = assignment.overrides.filter((o) => !(o.userId === userId && o.weekStart === weekStart));
+        const shiftId = value === OFF ? null : value;
+        // Picking what the rotation already gives clears the override
+        if (value !== "" && shiftId !== rotationShiftId) overrides.push({ userId, weekStart, shiftId });
+        updateAssignment(assignment.id, { overrides });
+    };
+
+    const handleSave = () => {
+        const invalid = patterns.find((p) => p.steps.length === 0 || p.steps.some((s) => !s.shiftId || s.weeks < 1));
+        if (invalid) {
+            toast.error(`"${invalid.name}" needs at least one step, each with a shift and one or more weeks.`);
+            return;
+        }
+        // Drop overrides for past weeks and for users no longer on the assignment
+        const currentWeek = weeks[0];
+        onSave({
+            ...config,
+            rotationPatterns: patterns,
+            rotationAssignments: assignments.map((a) => ({
+                ...a,
+                overrides: a.overrides.filter((o) => o.weekStart >= currentWeek && a.userIds.includes(o.userId)),
+            })),
+        });
+    };
+
+    const handleGenerate = () => {
+        const userCount = new Set(assignments.flatMap((a) => a.userIds)).size;
+        if (!window.confirm(`Write the next ${previewWeeks} week(s) of rotations for ${userCount} user(s)? Their draft assignments in those weeks will be replaced; publish each week from the Shift Scheduler.`)) {
+            return;
+        }
+        toast
+            .promise(generateMutation.mutateAsync(), {
+                loading: "Generating shift assignments...",
+                success: `Draft assignments generated for ${previewWeeks} week(s)`,
+                error: (error: any) => error.response?.data?.message || "Failed to generate shift assignments.",
+            })
+            .catch(() => { });
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3">
+                    <div>
+                        <CardTitle>Rotation Patterns</CardTitle>
+                        <CardDescription>
+                            Repeating shift sequences that fill in the weekly roster automatically.
+                        </CardDescription>
+                    </div>
+                    <Button size="sm" onClick={handleSave} disabled={!isDirty || isSaving}>
+                        {isSaving ? "Saving..." : "Save Rotations"}
+                    </Button>
+                </div>
+            </CardHeader>
+            <CardContent className="space-y-6">
+                {/* Patterns */}
+                <div className="space-y-3">
+                    <div className="flex justify-between items-center">
+                        <Label className="text-base font-semibold">Patterns</Label>
+                        <Button size="sm" variant="outline" onClick={handleAddPattern} disabled={shifts.length === 0}>
+                            Add Pattern
+                        </Button>
+                    </div>
+                    {patterns.length === 0 && (
+                        <p className="text-sm text-muted-foreground">No patterns yet, e.g. 2 weeks Morning → 2 weeks Night → 1 week General.</p>
+                    )}
+                    {patterns.map((pattern) => (
+                        <div key={pattern.id} className="p-3 border rounded-lg space-y-3 bg-muted/30 dark:border-border/50">
+                            <div className="flex items-center gap-2">
+                                <Input
+                                    value={pattern.name}
+                                    onChange={(e) => updatePattern(pattern.id, { name: e.target.value })}
+                                    className="h-8 flex-grow"
+                                    aria-label="Pattern name"
+                                />
+                                <button
+                                    onClick={() => handleRemovePattern(pattern)}
+                                    className="hover:text-red-600 font-bold px-2"
+                                    aria-label={`Remove ${pattern.name}`}>
+                                    ×
+                                </button>
+                            </div>
+                            <div className="flex flex-wrap items-center gap-2">
+                                {pattern.steps.map((step, index) => (
+                                    <div key={index} className="flex items-center gap-1">
+                                        {index > 0 && <span className="text-muted-foreground px-1">→</span>}
+                                        <Input
+                                            type="number"
+                                            min="1"
+                                            value={step.weeks}
+                                            onChange={(e) =>
+                                                updatePattern(pattern.id, {
+                                                    steps: pattern.steps.map((s, i) => (i === index ? { ...s, weeks: Math.max(1, Number(e.target.value)) } : s)),
+                                                })
+                                            }
+                                            className="h-8 w-14"
+                                            aria-label={`Weeks for step ${index + 1}`}
+                                        />
+                                        <span className="text-sm text-muted-foreground">wk</span>
+                                        <Select
+                                            value={step.shiftId}
+                                            onChange={(e) =>
+                                                updatePattern(pattern.id, {
+                                                    steps: pattern.steps.map((s, i) => (i === index ? { ...s, shiftId: e.target.value } : s)),
+                                                })
+                                            }
+                                            className="h-8 min-w-[7rem]"
+                                            aria-label={`Shift for step ${index + 1}`}>
+                                            {!shifts.some((s) => s.id === step.shiftId) && (
+                                                <option value={step.shiftId}>{shiftNames.get(step.shiftId) ?? "Removed shift"}</option>
+                                            )}
+                                            {shifts.map((shift) => (
+                                                <option key={shift.id} value={shift.id}>
+                                                    {shift.name}
+                                                </option>
+                                            ))}
+                                        </Select>
+                                        <button
+                                            onClick={() => updatePattern(pattern.id, { steps: pattern.steps.filter((_, i) => i !== index) })}
+                                            className="hover:text-red-600 text-sm px-1"
+                                            aria-label={`Remove step ${index + 1}`}>
+                                            ×
+                                        </button>
+                                    </div>
+                                ))}
+                                <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    className="h-8"
+                                    onClick={() => updatePattern(pattern.id, { steps: [...pattern.steps, { shiftId: shifts[0]?.id ?? "", weeks: 1 }] })}>
+                                    + Step
+                                </Button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                {/* Assignments */}
+                <div className="space-y-3 pt-4 border-t dark:border-border/50">
+                    <div className="flex justify-between items-center">
+                        <Label className="text-base font-semibold">Who Follows Them</Label>
+                        <Button size="sm" variant="outline" onClick={handleAddAssignment} disabled={patterns.length === 0}>
+                            Add Assignment
+                        </Button>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                        The week containing the anchor date runs the first step. A user on more than one assignment follows the lowest one.
+                    </p>
+                    {assignments.map((assignment) => (
+                        <div key={assignment.id} className="flex flex-col md:flex-row md:items-center gap-2 p-3 border rounded-lg dark:border-border/50">
+                            <Select
+                                value={assignment.patternId}
+                                onChange={(e) => updateAssignment(assignment.id, { patternId: e.target.value })}
+                                className="h-9 md:w-48"
+                                aria-label="Rotation pattern">
+                                {patterns.map((p) => (
+                                    <option key={p.id} value={p.id}>
+                                        {p.name}
+                                    </option>
+                                ))}
+                            </Select>
+                            <Input
+                                type="date"
+                                value={assignment.anchorDate}
+                                onChange={(e) => updateAssignment(assignment.id, { anchorDate: e.target.value })}
+                                className="h-9 md:w-40"
+                                aria-label="Anchor date"
+                            />
+                            <UserPicker
+                                users={users}
+                                selectedIds={assignment.userIds}
+                                onChange={(userIds) => updateAssignment(assignment.id, { userIds })}
+                            />
+                            <button
+                                onClick={() => setAssignments(assignments.filter((a) => a.id !== assignment.id))}
+                                className="hover:text-red-600 font-bold px-2 self-end md:self-auto"
+                                aria-label="Remove assignment">
+                                ×
+                            </button>
+                        </div>
+                    ))}
+                </div>
+
+                {/* Preview */}
+                <div className="space-y-3 pt-4 border-t dark:border-border/50">
+                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                        <div className="flex items-center gap-2">
+                            <Label htmlFor="rotation-preview-weeks" className="text-base font-semibold">Next</Label>
+                            <Input
+                                id="rotation-preview-weeks"
+                                type="number"
+                                min="1"
+                                max="52"
+                                value={previewWeeks}
+                                onChange={(e) => setPreviewWeeks(Math.min(52, Math.max(1, Number(e.target.value))))}
+                                className="h-8 w-16"
+                            />
+                            <Label htmlFor="rotation-preview-weeks" className="text-base font-semibold">weeks</Label>
+                        </div>
+                        <Button
+                            size="sm"
+                            onClick={handleGenerate}
+                            disabled={isDirty || generateMutation.isPending || (config.rotationAssignments ?? []).length === 0}
+                            title={isDirty ? "Save your changes before generating" : undefined}>
+                            {generateMutation.isPending ? "Generating..." : "Generate Assignments"}
+                        </Button>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                        Change a cell to override a single week; the rotation carries on as normal afterwards. Overridden weeks are highlighted.
+                    </p>
+                    {assignments.some((a) => a.userIds.length > 0) && (
+                        <div className="border rounded-lg overflow-x-auto dark:border-border/50">
+                            <table className="w-full text-sm text-left">
+                                <thead className="bg-muted/50">
+                                    <tr>
+                                        <th className="p-2 font-medium sticky left-0 bg-muted">User</th>
+                                        {weeks.map((week) => (
+                                            <th key={week} className="p-2 font-medium whitespace-nowrap">{formatDate(week).slice(0, 5)}</th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {assignments.flatMap((assignment) => {
+                                        const pattern = patterns.find((p) => p.id === assignment.patternId);
+                                        if (!pattern) return [];
+                                        return assignment.userIds.map((userId) => (
+                                            <tr key={`${assignment.id}-${userId}`} className="border-b last:border-0 dark:border-border/50">
+                                                <td className="p-2 sticky left-0 bg-background whitespace-nowrap">
+                                                    {users.find((u) => u.id === userId)?.name ?? "Unknown"}
+                                                    <span className="block text-xs text-muted-foreground" title={describePattern(pattern, shiftNames)}>
+                                                        {pattern.name}
+                                                    </span>
+                                                </td>
+                                                {weeks.map((week) => {
+                                                    const entry = getAssignmentWeek(assignment, pattern, userId, week);
+                                                    if (!entry) {
+                                                        return <td key={week} className="p-2 text-muted-foreground">—</td>;
+                                                    }
+                                                    return (
+                                                        <td key={week} className="p-1">
+                                                            <Select
+                                                                value={entry.overridden ? entry.shiftId ?? OFF : ""}
+                                                                onChange={(e) => handleOverride(assignment, userId, week, e.target.value, entry.rotationShiftId)}
+                                                                className={cn("h-8 min-w-[7rem] text-xs", entry.overridden && "border-amber-500 bg-amber-50 dark:bg-amber-900/20")}
+                                                                aria-label={`Shift for week of ${formatDate(week)}`}>
+                                                                <option value="">
+                                                                    {entry.rotationShiftId ? shiftNames.get(entry.rotationShiftId) ?? "Removed shift" : "No shift"}
+                                                                </option>
+                                                                {shifts
+                                                                    .filter((s) => s.id !== entry.rotationShiftId)
+                                                                    .map((s) => (
+                                                                        <option key={s.id} value={s.id}>
+                                                                            {s.name}
+                                                                        </option>
+                                                                    ))}
+                                                                {entry.rotationShiftId && <option value={OFF}>No shift</option>}
+                                                            </Select>
+                                                        </td>
+                                                    );
+                                                })}
+                                            </tr>
+                                        ));
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </div>
+            </CardContent>
+        </Card>
+    );
+};
+
+const UserPicker: React.FC<{ users: User[]; selectedIds: string[]; onChange: (userIds: string[]) => void }> = ({
+    users,
+    selectedIds,
+    onChange,
+}) => {
+    const [open, setOpen] = useState(false);
+
+    const toggle = (userId: string) =>
+        onChange(selectedIds.includes(userId) ? selectedIds.filter((id) => id !== userId) : [...selectedIds, userId]);
+
+    return (
+        <Popover open={open} onOpenChange={setOpen}>
+            <PopoverTrigger asChild>
+                <Button variant="outline" role="combobox" size="sm" className="h-9 flex-1 justify-between">
+                    {selectedIds.length > 0 ? `${selectedIds.length} user(s)` : "Select users..."}
+                    <FaSort className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-[300px] p-0" align="start">
+                <Command>
+                    <CommandInput placeholder="Search users..." />
+                    <CommandList>
+                        <CommandEmpty>No users found.</CommandEmpty>
+                        <CommandGroup>
+                            {users.map((user) => (
+                                <CommandItem key={user.id} value={user.name} onSelect={() => toggle(user.id)}>
+                                    <div className={cn(
+                                        "mr-2 flex h-4 w-4 items-center justify-center rounded-sm border border-primary dark:border-border/50",
+                                        selectedIds.includes(user.id)
+                                            ? "bg-primary text-primary-foreground"
+                                            : "opacity-50 [&_svg]:invisible"
+                                    )}>
+                                        <FaCheck className="h-4 w-4" />
+                                    </div>
+                                    {user.name}
+                                </CommandItem>
+                            ))}
+                        </CommandGroup>
+                    </CommandList>
+                </Command>
+            </PopoverContent>
+        </Popover>
+    );
+};
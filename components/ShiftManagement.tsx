@@ -8,19 +8,33 @@ import {
     Popover, PopoverContent, PopoverTrigger,
     Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle
 } from "./ui";
-import { User, Shift } from "../types";
+import { User, Shift, Leave, StaffingRule, RosterGeneratorSettings, UserStatus } from "../types";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { getShiftsForWeek, removeUserShift, copyPreviousWeek, updateUserShift, swapUserShifts } from "../services/api";
+import { getShiftsForWeek, removeUserShift, copyPreviousWeek, updateUserShift, swapUserShifts, publishRosterDraft, discardRosterDraft, bulkAssignUserShifts } from "../services/api";
 import { toast } from "react-hot-toast";
+import { RosterBoard } from "./RosterBoard";
+import { getRosterChanges, summariseRosterChanges } from "../utils/roster";
+import { getCoverage, isUnderstaffed } from "../utils/staffing";
+import { formatDate } from "../utils/date";
+import { DEFAULT_ROSTER_GENERATOR_SETTINGS, ROSTER_HISTORY_WEEKS, RosterIssue, generateRoster } from "../utils/rosterGenerator";
+import { usePublishedRosters } from "../hooks/useStaffing";
 
 interface ShiftManagementProps {
     users: User[];
     shifts: Shift[];
+    leaves: Leave[];
+    staffingRules: StaffingRule[];
+    rosterGenerator?: RosterGeneratorSettings;
 }
 
-export const ShiftManagement: React.FC<ShiftManagementProps> = ({ users, shifts }) => {
+export const ShiftManagement: React.FC<ShiftManagementProps> = ({ users, shifts, leaves, staffingRules, rosterGenerator }) => {
     const [selectedDate, setSelectedDate] = useState(new Date());
     const [showCopyDialog, setShowCopyDialog] = useState(false);
+    const [view, setView] = useState<"board" | "list">("board");
+    const [showPublishDialog, setShowPublishDialog] = useState(false);
+    const [publishSummary, setPublishSummary] = useState("");
+    const [showGenerateDialog, setShowGenerateDialog] = useState(false);
+    const [generatedIssues, setGeneratedIssues] = useState<{ weekStart: string; issues: RosterIssue[] } | null>(null);
 
     const queryClient = useQueryClient();
 
@@ -28,13 +42,41 @@ export const ShiftManagement: React.FC<ShiftManagementProps> = ({ users, shifts
     const weekStart = useMemo(() => startOfWeek(selectedDate, { weekStartsOn: 1 }), [selectedDate]);
     const weekEnd = useMemo(() => addDays(weekStart, 6), [weekStart]);
 
+    // Every edit here goes to the week's draft; staff only see the published roster
     const { data: weekShifts = [] } = useQuery({
-        queryKey: ["week-shifts", format(weekStart, "yyyy-MM-dd")],
+        queryKey: ["week-shifts", format(weekStart, "yyyy-MM-dd"), "draft"],
+        queryFn: () => getShiftsForWeek(format(weekStart, "yyyy-MM-dd"), true),
+    });
+
+    const { data: publishedShifts = [] } = useQuery({
+        queryKey: ["week-shifts", format(weekStart, "yyyy-MM-dd"), "published"],
         queryFn: () => getShiftsForWeek(format(weekStart, "yyyy-MM-dd")),
     });
 
+    const historyWeeks = useMemo(
+        () => Array.from({ length: ROSTER_HISTORY_WEEKS }, (_, i) => format(subWeeks(weekStart, i + 1), "yyyy-MM-dd")),
+        [weekStart]
+    );
+    const { rosters: history, isLoading: isHistoryLoading } = usePublishedRosters(historyWeeks);
+
+    // Active users, except those this manager can't see because they are on another shift
+    const generatorUsers = useMemo(() => {
+        const shiftIds = new Set(shifts.map(s => s.id));
+        const elsewhere = new Set(weekShifts.filter((ws: any) => !shiftIds.has(ws.shiftId)).map((ws: any) => ws.userId));
+        return users.filter(u => u.status === UserStatus.ACTIVE && !elsewhere.has(u.id));
+    }, [users, shifts, weekShifts]);
+
+    const draftChanges = useMemo(() => getRosterChanges(publishedShifts, weekShifts), [publishedShifts, weekShifts]);
+
+    // Checked against the draft, so problems show up before publishing
+    const staffingShortfalls = useMemo(() => {
+        const weekKey = format(weekStart, "yyyy-MM-dd");
+        const dates = Array.from({ length: 7 }, (_, i) => format(addDays(weekStart, i), "yyyy-MM-dd"));
+        return getCoverage(staffingRules, new Map([[weekKey, weekShifts]]), leaves, shifts, dates).filter(isUnderstaffed);
+    }, [staffingRules, weekShifts, leaves, shifts, weekStart]);
+
     const copyPreviousWeekMutation = useMutation({
-        mutationFn: copyPreviousWeek,
+        mutationFn: (date: string) => copyPreviousWeek(date, true),
         onSuccess: (data) => {
             queryClient.invalidateQueries({ queryKey: ["week-shifts"] });
             toast.success(data.message || "Previous week copied successfully");
@@ -46,7 +88,7 @@ export const ShiftManagement: React.FC<ShiftManagementProps> = ({ users, shifts
     });
 
     const updateShiftMutation = useMutation({
-        mutationFn: updateUserShift,
+        mutationFn: (data: { userId: string; shiftId: string; startDate: string }) => updateUserShift({ ...data, draft: true }),
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: ["week-shifts"] });
             // Don't show toast here - will be handled by caller for bulk operations
@@ -57,7 +99,7 @@ export const ShiftManagement: React.FC<ShiftManagementProps> = ({ users, shifts
     });
 
     const swapShiftMutation = useMutation({
-        mutationFn: swapUserShifts,
+        mutationFn: (data: { user1Id: string; user2Id: string; startDate: string }) => swapUserShifts({ ...data, draft: true }),
         onSuccess: (data) => {
             queryClient.invalidateQueries({ queryKey: ["week-shifts"] });
             toast.success(data.message || "Shifts swapped successfully");
@@ -69,7 +111,7 @@ export const ShiftManagement: React.FC<ShiftManagementProps> = ({ users, shifts
 
     const removeUserMutation = useMutation({
         mutationFn: ({ userId, date, skipToast: _skipToast }: { userId: string; date: string; skipToast?: boolean }) =>
-            removeUserShift(userId, date),
+            removeUserShift(userId, date, true),
         onSuccess: (_data, variables) => {
             queryClient.invalidateQueries({ queryKey: ["week-shifts"] });
             if (!variables.skipToast) {
@@ -83,6 +125,63 @@ export const ShiftManagement: React.FC<ShiftManagementProps> = ({ users, shifts
         },
     });
 
+    const publishMutation = useMutation({
+        mutationFn: publishRosterDraft,
+        onSuccess: (data) => {
+            queryClient.invalidateQueries({ queryKey: ["week-shifts"] });
+            queryClient.invalidateQueries({ queryKey: ["user-shift"] });
+            toast.success(`Roster published; ${data.notifiedCount} user(s) notified`);
+            setShowPublishDialog(false);
+            setPublishSummary("");
+        },
+        onError: (error: any) => {
+            toast.error(error.response?.data?.message || "Failed to publish roster");
+        },
+    });
+
+    const generateMutation = useMutation({
+        mutationFn: async () => {
+            const weekKey = format(weekStart, "yyyy-MM-dd");
+            const result = generateRoster({
+                weekStart: weekKey,
+                users: generatorUsers,
+                shifts,
+                leaves,
+                staffingRules,
+                settings: rosterGenerator ?? DEFAULT_ROSTER_GENERATOR_SETTINGS,
+                history: historyWeeks.map(week => history.get(week) ?? []),
+            });
+            await Promise.all(shifts.map(shift => {
+                const userIds = result.assignments.filter(a => a.shiftId === shift.id).map(a => a.userId);
+                return userIds.length > 0
+                    ? bulkAssignUserShifts({ userIds, shiftId: shift.id, startDate: weekKey, draft: true })
+                    : Promise.resolve();
+            }));
+            return { weekStart: weekKey, issues: result.issues };
+        },
+        onSuccess: (data) => {
+            queryClient.invalidateQueries({ queryKey: ["week-shifts"] });
+            setGeneratedIssues(data);
+            setShowGenerateDialog(false);
+            toast.success("Roster generated as a draft");
+        },
+        onError: (error: any) => {
+            queryClient.invalidateQueries({ queryKey: ["week-shifts"] });
+            toast.error(error.response?.data?.message || "Failed to generate roster");
+        },
+    });
+
+    const discardMutation = useMutation({
+        mutationFn: discardRosterDraft,
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ["week-shifts"] });
+            toast.success("Draft changes discarded");
+        },
+        onError: (error: any) => {
+            toast.error(error.response?.data?.message || "Failed to discard draft");
+        },
+    });
+
     // Create a map of userId to their shift for this week
     const userShiftMap = useMemo(() => {
         const map = new Map<string, { shiftId: string; shift: Shift }>();
@@ -188,6 +287,58 @@ export const ShiftManagement: React.FC<ShiftManagementProps> = ({ users, shifts
         }
     };
 
+    const handlePublish = () => {
+        publishMutation.mutate({
+            date: format(weekStart, "yyyy-MM-dd"),
+            summary: publishSummary.trim() || undefined,
+        });
+    };
+
+    const handleDiscardDraft = () => {
+        if (!window.confirm(`Discard ${draftChanges.length} unpublished change(s) for this week?`)) return;
+        discardMutation.mutate(format(weekStart, "yyyy-MM-dd"));
+    };
+
+    const shiftName = (shiftId: string | null) =>
+        shiftId ? shifts.find(s => s.id === shiftId)?.name ?? "Other shift" : "No shift";
+
+    const handleBoardMove = (userIds: string[], shiftId: string | null) => {
+        const startDate = format(weekStart, "yyyy-MM-dd");
+        const movePromise = Promise.all(userIds.map(userId =>
+            shiftId
+                ? updateShiftMutation.mutateAsync({ userId, shiftId, startDate })
+                : handleRemoveUser(userId, true)
+        ));
+        return movePromise.then(
+            () => {
+                toast.success(shiftId ? `${userIds.length} user(s) moved successfully` : `${userIds.length} user(s) removed successfully`);
+            },
+            (error: any) => {
+                // Update errors are toasted by the mutation; silent removals are not
+                if (!shiftId) toast.error(error.response?.data?.message || "Failed to remove user");
+                throw error;
+            }
+        );
+    };
+
+    // swapUserShifts needs both users on a shift; with an unassigned user the
+    // swap is a move plus a removal
+    const handleBoardSwap = async (userId: string, otherUserId: string) => {
+        const shiftId = userShiftMap.get(userId)?.shiftId;
+        const otherShiftId = userShiftMap.get(otherUserId)?.shiftId;
+        if (shiftId && otherShiftId) {
+            return swapShiftMutation.mutateAsync({
+                user1Id: userId,
+                user2Id: otherUserId,
+                startDate: format(weekStart, "yyyy-MM-dd"),
+            });
+        }
+        await Promise.all([
+            handleBoardMove([userId], otherShiftId ?? null),
+            handleBoardMove([otherUserId], shiftId ?? null),
+        ]);
+    };
+
     return (
         <Card className="h-full">
             <CardHeader>
@@ -195,18 +346,46 @@ export const ShiftManagement: React.FC<ShiftManagementProps> = ({ users, shifts
                     <div>
                         <CardTitle>Shift Scheduler</CardTitle>
                         <CardDescription className="hidden sm:block">
-                            Manage weekly shift assignments for all users.
+                            Edit the week's draft roster, then publish it to staff.
                         </CardDescription>
                     </div>
-                    <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => setShowCopyDialog(true)}
-                        className="gap-2 w-full sm:w-auto"
-                    >
-                        <FaCopy className="h-4 w-4" />
-                        <span className="sm:inline">Copy Previous Week</span>
-                    </Button>
+                    <div className="flex gap-2 w-full sm:w-auto">
+                        <div className="flex rounded-md border dark:border-border/50" role="group" aria-label="View">
+                            <Button
+                                variant={view === "board" ? "default" : "ghost"}
+                                size="sm"
+                                onClick={() => setView("board")}
+                                aria-pressed={view === "board"}
+                            >
+                                Board
+                            </Button>
+                            <Button
+                                variant={view === "list" ? "default" : "ghost"}
+                                size="sm"
+                                onClick={() => setView("list")}
+                                aria-pressed={view === "list"}
+                            >
+                                List
+                            </Button>
+                        </div>
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setShowGenerateDialog(true)}
+                            className="flex-1 sm:flex-none"
+                        >
+                            Generate Roster
+                        </Button>
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setShowCopyDialog(true)}
+                            className="gap-2 flex-1 sm:flex-none"
+                        >
+                            <FaCopy className="h-4 w-4" />
+                            <span className="sm:inline">Copy Previous Week</span>
+                        </Button>
+                    </div>
                 </div>
             </CardHeader>
             <CardContent className="space-y-4 md:space-y-6">
@@ -226,8 +405,79 @@ export const ShiftManagement: React.FC<ShiftManagementProps> = ({ users, shifts
                     </Button>
                 </div>
 
+                {/* Draft Status */}
+                {draftChanges.length > 0 ? (
+                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 rounded-lg border border-amber-300 bg-amber-50 dark:bg-amber-900/20 dark:border-amber-700">
+                        <div className="text-sm">
+                            <span className="font-semibold">Draft: {draftChanges.length} unpublished change(s)</span>
+                            <span className="text-muted-foreground"> ({summariseRosterChanges(draftChanges)}). Staff still see the published roster.</span>
+                        </div>
+                        <div className="flex gap-2">
+                            <Button size="sm" variant="outline" onClick={handleDiscardDraft} disabled={discardMutation.isPending}>
+                                Discard
+                            </Button>
+                            <Button size="sm" onClick={() => setShowPublishDialog(true)}>
+                                Review & Publish
+                            </Button>
+                        </div>
+                    </div>
+                ) : (
+                    <p className="text-sm text-muted-foreground">This week is published; changes you make are saved as a draft.</p>
+                )}
+
+                {/* Generator Results */}
+                {generatedIssues && generatedIssues.weekStart === format(weekStart, "yyyy-MM-dd") && (
+                    <div className="p-3 rounded-lg border text-sm dark:border-border/50">
+                        <div className="flex items-center justify-between gap-2">
+                            <p className="font-medium">
+                                {generatedIssues.issues.length === 0
+                                    ? "Generated roster meets every constraint."
+                                    : `Generated roster could not meet ${generatedIssues.issues.length} constraint(s):`}
+                            </p>
+                            <Button variant="ghost" size="sm" onClick={() => setGeneratedIssues(null)} aria-label="Dismiss generator results">
+                                <FaTimes className="h-3 w-3" />
+                            </Button>
+                        </div>
+                        {generatedIssues.issues.length > 0 && (
+                            <ul className="list-disc pl-5 mt-1 space-y-0.5 max-h-48 overflow-y-auto">
+                                {generatedIssues.issues.map((issue, index) => (
+                                    <li key={index}>{issue.message}</li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                )}
+
+                {/* Staffing Warnings */}
+                {staffingShortfalls.length > 0 && (
+                    <div className="p-3 rounded-lg border text-sm border-yellow-300 bg-yellow-50 text-yellow-800 dark:border-yellow-700/50 dark:bg-yellow-900/30 dark:text-yellow-300" role="alert">
+                        <p className="font-medium">Below minimum staffing once approved leave is taken out:</p>
+                        <ul className="list-disc pl-5 mt-1">
+                            {staffingShortfalls.slice(0, 7).map(c => (
+                                <li key={`${c.date}|${c.shiftId}`}>
+                                    {format(new Date(`${c.date}T00:00:00`), "EEE")} {formatDate(c.date)}, {shiftName(c.shiftId)}: {c.available} available
+                                    {c.onLeave > 0 && ` (${c.onLeave} on leave)`}, minimum {c.minimum}
+                                </li>
+                            ))}
+                        </ul>
+                        {staffingShortfalls.length > 7 && <p className="mt-1">…and {staffingShortfalls.length - 7} more.</p>}
+                    </div>
+                )}
+
+                {view === "board" && (
+                    <RosterBoard
+                        users={users}
+                        shifts={shifts}
+                        weekShifts={weekShifts}
+                        changedUserIds={new Set(draftChanges.map(c => c.userId))}
+                        onMove={handleBoardMove}
+                        onSwap={handleBoardSwap}
+                        isLoading={updateShiftMutation.isPending || removeUserMutation.isPending || swapShiftMutation.isPending}
+                    />
+                )}
+
                 {/* Shifts List */}
-                <div className="space-y-4">
+                {view === "list" && <div className="space-y-4">
                     {shifts.map((shift) => (
                         <ShiftRow
                             key={shift.id}
@@ -242,10 +492,10 @@ export const ShiftManagement: React.FC<ShiftManagementProps> = ({ users, shifts
                             isLoading={updateShiftMutation.isPending || removeUserMutation.isPending || swapShiftMutation.isPending}
                         />
                     ))}
-                </div>
+                </div>}
 
                 {/* Unassigned Users */}
-                {availableUsers.length > 0 && (
+                {view === "list" && availableUsers.length > 0 && (
                     <div className="border-t pt-4 dark:border-border/50">
                         <Label className="text-muted-foreground">Unassigned Users ({availableUsers.length})</Label>
                         <div className="flex flex-wrap gap-2 mt-2">
@@ -265,8 +515,8 @@ export const ShiftManagement: React.FC<ShiftManagementProps> = ({ users, shifts
                     <DialogHeader>
                         <DialogTitle>Copy Previous Week</DialogTitle>
                         <DialogDescription>
-                            This will copy all shift assignments from the previous week to the current week.
-                            Any existing assignments for this week will be replaced.
+                            This will copy all published shift assignments from the previous week into this week's draft.
+                            Any draft assignments for this week will be replaced.
                         </DialogDescription>
                     </DialogHeader>
                     <DialogFooter>
@@ -282,6 +532,83 @@ export const ShiftManagement: React.FC<ShiftManagementProps> = ({ users, shifts
                     </DialogFooter>
                 </DialogContent>
             </Dialog>
+
+            {/* Generate Roster Dialog */}
+            <Dialog open={showGenerateDialog} onOpenChange={setShowGenerateDialog}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Generate Roster</DialogTitle>
+                        <DialogDescription>
+                            Places {generatorUsers.length} active user(s) on shifts for the week of {format(weekStart, "MMM d, yyyy")},
+                            honouring approved leave, shift preferences, the night limit, minimum staffing and a fair share of
+                            unpopular shifts. Their draft assignments for this week will be replaced; nothing is published yet.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setShowGenerateDialog(false)}>
+                            Cancel
+                        </Button>
+                        <Button
+                            onClick={() => generateMutation.mutate()}
+                            disabled={generateMutation.isPending || isHistoryLoading || generatorUsers.length === 0 || shifts.length === 0}
+                        >
+                            {generateMutation.isPending ? "Generating..." : isHistoryLoading ? "Loading history..." : "Generate"}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            {/* Publish Dialog */}
+            <Dialog open={showPublishDialog} onOpenChange={setShowPublishDialog}>
+                <DialogContent className="sm:max-w-lg">
+                    <DialogHeader>
+                        <DialogTitle>Publish Roster</DialogTitle>
+                        <DialogDescription>
+                            Week of {format(weekStart, "MMM d, yyyy")}. The {draftChanges.length} user(s) below will be notified.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4">
+                        <div className="border rounded-lg max-h-64 overflow-y-auto dark:border-border/50">
+                            <table className="w-full text-sm">
+                                <thead className="bg-muted/50 sticky top-0">
+                                    <tr>
+                                        <th className="px-3 py-2 text-left font-medium">User</th>
+                                        <th className="px-3 py-2 text-left font-medium">Published</th>
+                                        <th className="px-3 py-2 text-left font-medium">Draft</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {draftChanges.map(change => (
+                                        <tr key={change.userId} className="border-t dark:border-border/50">
+                                            <td className="px-3 py-2">{users.find(u => u.id === change.userId)?.name ?? "Unknown"}</td>
+                                            <td className="px-3 py-2 text-muted-foreground">{shiftName(change.fromShiftId)}</td>
+                                            <td className="px-3 py-2 font-medium">{shiftName(change.toShiftId)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="publish-summary">Note to staff (optional)</Label>
+                            <textarea
+                                id="publish-summary"
+                                className="w-full min-h-[80px] px-3 py-2 text-sm rounded-md border border-input bg-background dark:border-border/50"
+                                placeholder={`e.g. ${summariseRosterChanges(draftChanges)} to cover the audit week`}
+                                value={publishSummary}
+                                onChange={(e) => setPublishSummary(e.target.value)}
+                            />
+                        </div>
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setShowPublishDialog(false)}>
+                            Cancel
+                        </Button>
+                        <Button onClick={handlePublish} disabled={publishMutation.isPending || draftChanges.length === 0}>
+                            {publishMutation.isPending ? "Publishing..." : "Publish"}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
         </Card>
     );
 };
@@ -0,0 +1,172 @@
+import React from "react";
+import { Button, Input, Label, Select } from "./ui";
+import { Shift, SlotOverride } from "../types";
+import { SlotOverrideConflict } from "../utils/slots";
+import { formatDate } from "../utils/date";
+
+interface SlotOverridesProps {
+    overrides: SlotOverride[];
+    shifts: Shift[];
+    conflicts: SlotOverrideConflict[];
+    today: string; // In the org time zone; new overrides start on it
+    onChange: (overrides: SlotOverride[]) => void;
+}
+
+export const WEEKDAYS = [
+    { label: "M", name: "Monday", value: 1 },
+    { label: "T", name: "Tuesday", value: 2 },
+    { label: "W", name: "Wednesday", value: 3 },
+    { label: "T", name: "Thursday", value: 4 },
+    { label: "F", name: "Friday", value: 5 },
+    { label: "S", name: "Saturday", value: 6 },
+    { label: "S", name: "Sunday", value: 0 },
+];
+
+// Grid editor for Settings; saved together with the rest of the config.
+export const SlotOverrides: React.FC<SlotOverridesProps> = ({ overrides, shifts, conflicts, today, onChange }) => {
+    const updateOverride = (id: string, changes: Partial<SlotOverride>) =>
+        onChange(overrides.map((o) => (o.id === id ? { ...o, ...changes } : o)));
+
+    const toggleWeekday = (override: SlotOverride, day: number) =>
+        updateOverride(override.id, {
+            weekdays: override.weekdays.includes(day) ? override.weekdays.filter((d) => d !== day) : [...override.weekdays, day],
+        });
+
+    const handleAddOverride = () => {
+        onChange([
+            ...overrides,
+            { id: `so${Date.now()}`, label: "", startDate: today, endDate: today, weekdays: [], slots: 0 },
+        ]);
+    };
+
+    return (
+        <div className="space-y-4 pt-4 border-t dark:border-border/50">
+            <div className="flex justify-between items-center">
+                <Label className="text-lg font-bold">Slot Overrides</Label>
+                <Button size="sm" onClick={handleAddOverride}>
+                    Add Override
+                </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+                Change the number of slots for a date range, optionally only on some weekdays or for one shift.
+                With no weekday selected the override applies every day. Later rows win where overrides overlap.
+            </p>
+
+            {overrides.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No overrides; every shift uses its usual slots.</p>
+            ) : (
+                <div className="border rounded-lg overflow-x-auto dark:border-border/50">
+                    <table className="w-full text-sm text-left">
+                        <thead className="bg-muted/50">
+                            <tr>
+                                <th className="p-2 font-medium">Label</th>
+                                <th className="p-2 font-medium">From</th>
+                                <th className="p-2 font-medium">To</th>
+                                <th className="p-2 font-medium">Weekdays</th>
+                                <th className="p-2 font-medium">Shift</th>
+                                <th className="p-2 font-medium">Slots</th>
+                                <th className="p-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {overrides.map((override) => (
+                                <tr key={override.id} className="border-b last:border-0 dark:border-border/50">
+                                    <td className="p-2">
+                                        <Input
+                                            value={override.label ?? ""}
+                                            onChange={(e) => updateOverride(override.id, { label: e.target.value })}
+                                            placeholder="e.g. Month-end"
+                                            className="h-8 min-w-[8rem]"
+                                            aria-label="Override label"
+                                        />
+                                    </td>
+                                    <td className="p-2">
+                                        <Input
+                                            type="date"
+                                            value={override.startDate}
+                                            onChange={(e) => updateOverride(override.id, { startDate: e.target.value })}
+                                            className="h-8"
+                                            aria-label="Override start date"
+                                        />
+                                    </td>
+                                    <td className="p-2">
+                                        <Input
+                                            type="date"
+                                            value={override.endDate}
+                                            min={override.startDate}
+                                            onChange={(e) => updateOverride(override.id, { endDate: e.target.value })}
+                                            className="h-8"
+                                            aria-label="Override end date"
+                                        />
+                                    </td>
+                                    <td className="p-2">
+                                        <div className="flex gap-1">
+                                            {WEEKDAYS.map((day) => (
+                                                <Button
+                                                    key={day.value}
+                                                    size="sm"
+                                                    variant={override.weekdays.includes(day.value) ? "default" : "outline"}
+                                                    className="h-8 w-8 p-0"
+                                                    onClick={() => toggleWeekday(override, day.value)}
+                                                    aria-pressed={override.weekdays.includes(day.value)}
+                                                    aria-label={day.name}>
+                                                    {day.label}
+                                                </Button>
+                                            ))}
+                                        </div>
+                                    </td>
+                                    <td className="p-2">
+                                        <Select
+                                            value={override.shiftId ?? ""}
+                                            onChange={(e) => updateOverride(override.id, { shiftId: e.target.value || undefined })}
+                                            className="h-8 min-w-[8rem]"
+                                            aria-label="Override shift">
+                                            <option value="">All Shifts</option>
+                                            {shifts.map((shift) => (
+                                                <option key={shift.id} value={shift.id}>
+                                                    {shift.name} ({shift.slots})
+                                                </option>
+                                            ))}
+                                        </Select>
+                                    </td>
+                                    <td className="p-2">
+                                        <Input
+                                            type="number"
+                                            min="0"
+                                            value={override.slots}
+                                            onChange={(e) => updateOverride(override.id, { slots: Math.max(0, Number(e.target.value)) })}
+                                            className="h-8 w-16"
+                                            aria-label="Override slots"
+                                        />
+                                    </td>
+                                    <td className="p-2 text-right">
+                                        <button
+                                            onClick={() => onChange(overrides.filter((o) => o.id !== override.id))}
+                                            className="hover:text-red-600 font-bold"
+                                            aria-label="Remove override">
+                                            ×
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {conflicts.length > 0 && (
+                <div className="p-3 rounded-lg border text-sm border-yellow-300 bg-yellow-50 text-yellow-800 dark:border-yellow-700/50 dark:bg-yellow-900/30 dark:text-yellow-300">
+                    <p className="font-medium">These overrides leave fewer slots than leaves already approved:</p>
+                    <ul className="list-disc pl-5 mt-1">
+                        {conflicts.slice(0, 5).map((c) => (
+                            <li key={`${c.date}|${c.shiftId}`}>
+                                {formatDate(c.date)}, {c.shiftName}: {c.slots} slot(s), {c.approved} approved
+                            </li>
+                        ))}
+                    </ul>
+                    {conflicts.length > 5 && <p className="mt-1">…and {conflicts.length - 5} more.</p>}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,112 @@
+import React from "react";
+import { Button, Input, Label, Select } from "./ui";
+import { Shift, StaffingRule } from "../types";
+import { WEEKDAYS } from "./SlotOverrides";
+
+interface StaffingRulesProps {
+    rules: StaffingRule[];
+    shifts: Shift[];
+    onChange: (rules: StaffingRule[]) => void;
+}
+
+// Grid editor for Settings; saved together with the rest of the config.
+export const StaffingRules: React.FC<StaffingRulesProps> = ({ rules, shifts, onChange }) => {
+    const updateRule = (id: string, changes: Partial<StaffingRule>) =>
+        onChange(rules.map((r) => (r.id === id ? { ...r, ...changes } : r)));
+
+    const toggleWeekday = (rule: StaffingRule, day: number) =>
+        updateRule(rule.id, {
+            weekdays: rule.weekdays.includes(day) ? rule.weekdays.filter((d) => d !== day) : [...rule.weekdays, day],
+        });
+
+    const handleAddRule = () => {
+        if (shifts.length === 0) return;
+        onChange([...rules, { id: `sr${Date.now()}`, shiftId: shifts[0].id, weekdays: [], minStaff: 1 }]);
+    };
+
+    return (
+        <div className="space-y-4 pt-4 border-t dark:border-border/50">
+            <div className="flex justify-between items-center">
+                <Label className="text-lg font-bold">Minimum Staffing</Label>
+                <Button size="sm" onClick={handleAddRule} disabled={shifts.length === 0}>
+                    Add Rule
+                </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+                The fewest people each shift needs once approved leave is taken out of the roster. Shortfalls are
+                flagged in the shift scheduler, before approving leave and in reports. With no weekday selected the
+                rule applies every day; later rows win where rules overlap.
+            </p>
+
+            {rules.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No rules; shifts are never flagged as understaffed.</p>
+            ) : (
+                <div className="border rounded-lg overflow-x-auto dark:border-border/50">
+                    <table className="w-full text-sm text-left">
+                        <thead className="bg-muted/50">
+                            <tr>
+                                <th className="p-2 font-medium">Shift</th>
+                                <th className="p-2 font-medium">Weekdays</th>
+                                <th className="p-2 font-medium">Minimum</th>
+                                <th className="p-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rules.map((rule) => (
+                                <tr key={rule.id} className="border-b last:border-0 dark:border-border/50">
+                                    <td className="p-2">
+                                        <Select
+                                            value={rule.shiftId}
+                                            onChange={(e) => updateRule(rule.id, { shiftId: e.target.value })}
+                                            className="h-8 min-w-[8rem]"
+                                            aria-label="Rule shift">
+                                            {shifts.map((shift) => (
+                                                <option key={shift.id} value={shift.id}>
+                                                    {shift.name}
+                                                </option>
+                                            ))}
+                                        </Select>
+                                    </td>
+                                    <td className="p-2">
+                                        <div className="flex gap-1">
+                                            {WEEKDAYS.map((day) => (
+                                                <Button
+                                                    key={day.value}
+                                                    size="sm"
+                                                    variant={rule.weekdays.includes(day.value) ? "default" : "outline"}
+                                                    className="h-8 w-8 p-0"
+                                                    onClick={() => toggleWeekday(rule, day.value)}
+                                                    aria-pressed={rule.weekdays.includes(day.value)}
+                                                    aria-label={day.name}>
+                                                    {day.label}
+                                                </Button>
+                                            ))}
+                                        </div>
+                                    </td>
+                                    <td className="p-2">
+                                        <Input
+                                            type="number"
+                                            min="0"
+                                            value={rule.minStaff}
+                                            onChange={(e) => updateRule(rule.id, { minStaff: Math.max(0, Number(e.target.value)) })}
+                                            className="h-8 w-16"
+                                            aria-label="Minimum staff"
+                                        />
+                                    </td>
+                                    <td className="p-2 text-right">
+                                        <button
+                                            onClick={() => onChange(rules.filter((r) => r.id !== rule.id))}
+                                            className="hover:text-red-600 font-bold"
+                                            aria-label="Remove rule">
+                                            ×
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
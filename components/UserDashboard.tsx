@@ -1,12 +1,21 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { toast } from 'react-hot-toast';
-import { User, Config, Leave, LeaveStatus } from '../types';
+import { User, Config, Leave, LeaveStatus, LeaveType, WaitlistEntry } from '../types';
 import { Button, Card, CardContent, CardDescription, CardHeader, CardTitle, Label, Select } from './ui';
 import { CalendarIcon, ChevronLeftIcon, ChevronRightIcon, CheckCircleIcon, AlertCircleIcon } from './icons';
 import { useConfig } from '../hooks/useConfig';
-import { useUserLeaves, useCreateLeaveMutation, useSlotInfoForDate, useSlotInfoForDateRange, useUserShift } from '../hooks/useLeaves';
-import { BOOKING_CONSTANTS } from '../utils/constants';
-import { formatDateExtended } from '../utils/date';
+import { useUserLeaves, useCreateLeaveMutation, useCreateLeaveRangeMutation, useUserWaitlist, useJoinWaitlistMutation, useSlotInfoForDate, useSlotInfoForDateRange, useSlotInfoForDates, useUserShift } from '../hooks/useLeaves';
+import { getBookingWindow, getUnbookableReason } from '../utils/booking';
+import { formatDate, formatDateExtended, getDatesInRange } from '../utils/date';
+import { applyLeaveTypeRules, findLeaveType, formatDays, getAvailableDays, getLeaveTypeOf, getLeaveTypes } from '../utils/leaves';
+import { useUserBalances } from '../hooks/useBalances';
+import LeaveTypeBadge from './LeaveTypeBadge';
+import LeaveSwaps from './LeaveSwaps';
+import BookingWindowCountdown from './BookingWindowCountdown';
+import { getBallotPeriod, isBallotOpen } from '../utils/lottery';
+import { enqueueAction, isNetworkError, isOffline } from '../utils/offlineQueue';
+import { formatHolidayNames, getHolidaysInRange } from '../utils/holidays';
+import { getDaySlotChange } from '../utils/slots';
 
 const getStatusBadge = (status: LeaveStatus) => {
     // ... (rest of the file remains same, just fixing imports)
@@ -23,12 +32,15 @@ const getStatusBadge = (status: LeaveStatus) => {
 
 
 
-const LeaveItem: React.FC<{ leave: Leave; isNextActive?: boolean }> = ({ leave, isNextActive }) => (
+const LeaveItem: React.FC<{ leave: Leave; leaveType: LeaveType; isNextActive?: boolean }> = ({ leave, leaveType, isNextActive }) => (
     <div className={`flex flex-col p-4 border-b border-border last:border-b-0 transition-colors dark:border-border/50 ${isNextActive ? 'bg-blue-50 dark:bg-blue-900/50 border-l-4 border-blue-500 pl-3' : ''}`}>
         <div className="flex items-center justify-between w-full">
             <div>
                 <p className="font-semibold">{formatDateExtended(leave.date)}</p>
-                <p className="text-sm text-muted-foreground">{leave.shiftName}</p>
+                <div className="flex items-center gap-2">
+                    <p className="text-sm text-muted-foreground">{leave.shiftName}</p>
+                    <LeaveTypeBadge leaveType={leaveType} />
+                </div>
             </div>
             <span className={`px-2.5 py-0.5 text-xs font-semibold rounded-full ${getStatusBadge(leave.status)}`}>
                 {leave.status}
@@ -57,6 +69,8 @@ const getDayAriaLabel = (date: Date, isSelected: boolean, isDisabled: boolean, d
 
     if (isDisabled) {
         label += ", Not available";
+    } else if (daySlotInfo && daySlotInfo.availableSlots <= 0) {
+        label += ', Full, waitlist open';
     } else if (daySlotInfo) {
         label += `, ${daySlotInfo.availableSlots} of ${daySlotInfo.totalSlots} slots available`;
     } else {
@@ -69,10 +83,14 @@ const getDayAriaLabel = (date: Date, isSelected: boolean, isDisabled: boolean, d
 const CalendarView: React.FC<{
     config: Config;
     onDateSelect: (date: string) => void;
+    onRangeSelect: (startDate: string, endDate: string) => void;
     selectedDate: string;
+    selectedEndDate: string;
     slotInfo: { [date: string]: { availableSlots: number; totalSlots: number } };
     myLeaves: Leave[];
-}> = ({ config, onDateSelect, selectedDate, slotInfo, myLeaves }) => {
+    myWaitlist?: WaitlistEntry[];
+    ignoreSlots?: boolean; // The selected leave type doesn't consume a slot
+}> = ({ config, onDateSelect, onRangeSelect, selectedDate, selectedEndDate, slotInfo, myLeaves, myWaitlist, ignoreSlots }) => {
     const [viewDate, setViewDate] = useState(() => {
         const now = new Date();
         return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
@@ -87,6 +105,37 @@ const CalendarView: React.FC<{
         return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
     });
     const gridRef = useRef<HTMLDivElement>(null);
+    const waitlistedDates = useMemo(() => new Set((myWaitlist ?? []).map(e => e.date)), [myWaitlist]);
+    // Date where a mouse drag started; null when no drag is in progress
+    const dragAnchorRef = useRef<string | null>(null);
+
+    useEffect(() => {
+        const endDrag = () => { dragAnchorRef.current = null; };
+        window.addEventListener('mouseup', endDrag);
+        return () => window.removeEventListener('mouseup', endDrag);
+    }, []);
+
+    const isInSelection = (dateString: string) => {
+        if (!selectedDate) return false;
+        const end = selectedEndDate || selectedDate;
+        const [from, to] = selectedDate <= end ? [selectedDate, end] : [end, selectedDate];
+        return dateString >= from && dateString <= to;
+    };
+
+    const handleDayClick = (e: React.MouseEvent, dateString: string) => {
+        if (e.shiftKey && selectedDate) {
+            onRangeSelect(selectedDate, dateString);
+        } else {
+            onDateSelect(dateString);
+        }
+    };
+
+    const handleDayMouseEnter = (dateString: string) => {
+        const anchor = dragAnchorRef.current;
+        if (anchor && anchor !== dateString) {
+            onRangeSelect(anchor, dateString);
+        }
+    };
 
     // const getStartOfWeekUTC = useCallback((date: Date): string => {
     //     const d = new Date(date.getTime());
@@ -177,7 +226,11 @@ const CalendarView: React.FC<{
                 const dateString = focusedDate.toISOString().split('T')[0];
                 const button = gridRef.current?.querySelector(`[data-date="${dateString}"]`) as HTMLButtonElement;
                 if (button && !button.disabled) {
-                    onDateSelect(dateString);
+                    if (e.shiftKey && selectedDate) {
+                        onRangeSelect(selectedDate, dateString);
+                    } else {
+                        onDateSelect(dateString);
+                    }
                 }
                 break;
             default: preventDefault = false; break;
@@ -201,52 +254,12 @@ const CalendarView: React.FC<{
         const adjustedStartDay = (firstDayOfMonth + 6) % 7;
         const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
 
-        const now = new Date();
-        const istNow = new Date(now.getTime() + BOOKING_CONSTANTS.IST_OFFSET_MS);
-
-        const day = istNow.getUTCDay(); // 0=Sunday (in IST)
-        const hour = istNow.getUTCHours(); // (in IST)
-        const minute = istNow.getUTCMinutes(); // (in IST)
-
-        const [resetHour, resetMinute] = (config.openingTime || BOOKING_CONSTANTS.WEEKLY_RESET_TIME).split(':').map(Number);
-        const openingDay = config.openingDay ?? BOOKING_CONSTANTS.WEEKLY_RESET_DAY;
-
-        let virtualToday = new Date(istNow);
-        if (day === openingDay && (hour < resetHour || (hour === resetHour && minute < resetMinute))) {
-            // It's the opening day before the opening time, stay on previous day's schedule
-            virtualToday.setUTCDate(virtualToday.getUTCDate() - 1);
-        }
-
-        const today = new Date(Date.UTC(virtualToday.getUTCFullYear(), virtualToday.getUTCMonth(), virtualToday.getUTCDate()));
-
-        const minNoticeDays = config.minNoticeDays ?? BOOKING_CONSTANTS.MIN_NOTICE_DAYS;
-        const minDate = new Date(today.getTime());
-        minDate.setUTCDate(minDate.getUTCDate() + minNoticeDays);
-
-        const maxDate = new Date(today.getTime());
-        const dayOfWeek = today.getUTCDay(); // 0=Sun, 1=Mon...
-        const daysToNextSunday = (7 - dayOfWeek) % 7; 
-
-        switch (config.weekRange) {
-            case '1_WEEK':
-                maxDate.setUTCDate(today.getUTCDate() + daysToNextSunday);
-                break;
-            case '2_WEEKS':
-                maxDate.setUTCDate(today.getUTCDate() + daysToNextSunday + 7);
-                break;
-            case '3_WEEKS':
-                maxDate.setUTCDate(today.getUTCDate() + daysToNextSunday + 14);
-                break;
-            case '1_MONTH':
-                // Monthly should work calendar-wise for the current month? 
-                // Or just +30 days as requested? 
-                // "When slot booking is set to monthly, it should work calendar-wise"
-                // This usually means the current month.
-                const nextMonth = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() + 1, 0));
-                maxDate.setTime(nextMonth.getTime());
-                break;
-        }
-
+        const bookingWindow = getBookingWindow(config);
+        const holidaysInMonth = getHolidaysInRange(
+            config,
+            new Date(Date.UTC(year, month, 1)).toISOString().split('T')[0],
+            new Date(Date.UTC(year, month, daysInMonth)).toISOString().split('T')[0]
+        );
 
         const dayCells = [];
         for (let i = 0; i < adjustedStartDay; i++) {
@@ -256,13 +269,15 @@ const CalendarView: React.FC<{
         for (let day = 1; day <= daysInMonth; day++) {
             const currentDate = new Date(Date.UTC(year, month, day));
             const dateString = currentDate.toISOString().split('T')[0];
-            const isSelected = selectedDate === dateString;
+            const isSelected = isInSelection(dateString);
             const isFocused = focusedDate.getTime() === currentDate.getTime();
 
-            const isPast = currentDate < minDate;
-            const isFutureDisabled = currentDate > maxDate;
-            const isDayDisabledByConfig = config.disabledDays.includes(currentDate.getUTCDay());
-            const isBlockedDate = config.blockedDates?.includes(dateString);
+            const unbookableReason = getUnbookableReason(dateString, config, bookingWindow);
+            const isPast = unbookableReason === 'BEFORE_NOTICE';
+            const isFutureDisabled = unbookableReason === 'AFTER_WINDOW';
+            const isDayDisabledByConfig = unbookableReason === 'DISABLED_WEEKDAY';
+            const isBlockedDate = unbookableReason === 'BLOCKED_DATE' || unbookableReason === 'HOLIDAY';
+            const holidayName = holidaysInMonth.has(dateString) ? formatHolidayNames(holidaysInMonth.get(dateString)!) : '';
             const leaveOnDate = leavesByDate.get(dateString);
             
             const weekStartStr = getStartOfWeekUTC(currentDate);
@@ -272,8 +287,13 @@ const CalendarView: React.FC<{
             const isWeekBooked = weekLimitReached && (!leaveOnDate || (leaveOnDate.status !== LeaveStatus.APPROVED && leaveOnDate.status !== LeaveStatus.PENDING));
 
             const daySlotInfo = slotInfo[dateString];
-            const hasSlots = daySlotInfo && daySlotInfo.availableSlots > 0;
-            const isDisabled = isPast || (isFutureDisabled && !isSelected) || isDayDisabledByConfig || isBlockedDate || (daySlotInfo && !hasSlots) || isWeekBooked || (leaveOnDate && leaveOnDate.status !== LeaveStatus.REJECTED);
+            const hasSlots = ignoreSlots || (daySlotInfo && daySlotInfo.availableSlots > 0);
+            // Full days stay selectable so the user can join the waitlist
+            const isFull = !!daySlotInfo && !hasSlots;
+            // Slot overrides make some days tighter or roomier than usual
+            const slotChange = getDaySlotChange(config, dateString);
+            const slotChangeLabel = slotChange < 0 ? 'Fewer slots than usual' : slotChange > 0 ? 'More slots than usual' : '';
+            const isDisabled = isPast || (isFutureDisabled && !isSelected) || isDayDisabledByConfig || isBlockedDate || isWeekBooked || (leaveOnDate && leaveOnDate.status !== LeaveStatus.REJECTED);
 
 
             let dayClass = '';
@@ -286,27 +306,37 @@ const CalendarView: React.FC<{
             }
             if (isSelected) {
                 dayClass = 'bg-primary text-primary-foreground';
+            } else if (!leaveOnDate && waitlistedDates.has(dateString)) {
+                dayClass = 'border-2 border-dashed border-blue-400 hover:bg-accent';
             } else if (!leaveOnDate) {
-                dayClass = 'hover:bg-accent';
+                dayClass = isFull ? 'bg-muted hover:bg-accent' : 'hover:bg-accent';
             }
 
 
             dayCells.push(
                 <div role="gridcell" key={day}>
                     <button
-                        onClick={() => onDateSelect(dateString)}
+                        onClick={(e) => handleDayClick(e, dateString)}
+                        onMouseDown={(e) => { if (!e.shiftKey) dragAnchorRef.current = dateString; }}
+                        onMouseEnter={() => handleDayMouseEnter(dateString)}
                         disabled={isDisabled}
                         tabIndex={isFocused ? 0 : -1}
                         data-date={dateString}
                         aria-selected={isSelected}
                         aria-disabled={isDisabled}
-                        aria-label={getDayAriaLabel(currentDate, isSelected, !!isDisabled, daySlotInfo, leaveOnDate?.status)}
+                        aria-label={`${getDayAriaLabel(currentDate, isSelected, !!isDisabled, daySlotInfo, leaveOnDate?.status)}${holidayName ? `, ${holidayName}` : ''}${slotChangeLabel && !isDisabled ? `, ${slotChangeLabel}` : ''}`}
+                        title={[holidayName, !isDisabled && slotChangeLabel].filter(Boolean).join(' - ') || undefined}
                         className={`w-full text-center p-1 sm:p-2 rounded-lg transition-colors text-xs sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-ring ${dayClass} ${isPast || isFutureDisabled || isDayDisabledByConfig ? 'text-muted-foreground' : ''}`}
                     >
                         <div className="font-semibold" aria-hidden="true">{day}</div>
+                        {holidayName && (
+                            <div className="text-[9px] sm:text-[10px] leading-tight truncate text-purple-700 dark:text-purple-300" aria-hidden="true">
+                                {holidayName}
+                            </div>
+                        )}
                         {!isDisabled && daySlotInfo && (
-                            <div className="text-[10px] sm:text-xs truncate scale-90 sm:scale-100 origin-center" aria-hidden="true">
-                                {daySlotInfo.availableSlots}/{daySlotInfo.totalSlots}
+                            <div className={`text-[10px] sm:text-xs truncate scale-90 sm:scale-100 origin-center ${!isSelected && slotChange < 0 ? 'text-orange-600 dark:text-orange-400 font-semibold' : ''} ${!isSelected && slotChange > 0 ? 'text-emerald-600 dark:text-emerald-400 font-semibold' : ''}`} aria-hidden="true">
+                                {isFull ? 'Full' : `${daySlotInfo.availableSlots}/${daySlotInfo.totalSlots}`}
                             </div>
                         )}
                         {!isDisabled && !daySlotInfo && (
@@ -338,7 +368,7 @@ const CalendarView: React.FC<{
                 <h3 id="calendar-heading" aria-live="polite" className="text-lg font-semibold">{viewDate.toLocaleString('default', { month: 'long', year: 'numeric', timeZone: 'UTC' })}</h3>
                 <Button variant="ghost" size="icon" onClick={() => changeMonth(1)} aria-label="Next month"><ChevronRightIcon /></Button>
             </div>
-            <div role="grid" aria-labelledby="calendar-heading">
+            <div role="grid" aria-labelledby="calendar-heading" aria-multiselectable="true" className="select-none">
                 <div role="row" className="grid grid-cols-7 gap-2 text-center text-xs text-muted-foreground">
                     <div role="columnheader" aria-label="Monday"><span aria-hidden="true">Mon</span></div>
                     <div role="columnheader" aria-label="Tuesday"><span aria-hidden="true">Tue</span></div>
@@ -352,6 +382,7 @@ const CalendarView: React.FC<{
                     {renderCalendar()}
                 </div>
             </div>
+            <p className="text-xs text-muted-foreground">Shift-click or drag to select several days.</p>
         </div>
     );
 };
@@ -362,60 +393,32 @@ const Skeleton = ({ className }: { className?: string }) => (
 
 const UserDashboard: React.FC<{ user: User }> = ({ user }) => {
     const [selectedDate, setSelectedDate] = useState('');
+    // Other end of a multi-day selection; empty for a single day
+    const [selectedEndDate, setSelectedEndDate] = useState('');
     const [selectedShift, setSelectedShift] = useState('');
+    const [selectedLeaveTypeId, setSelectedLeaveTypeId] = useState('');
+    // Bumped when the booking window opens so the date range is recomputed
+    const [windowOpenedAt, setWindowOpenedAt] = useState(0);
 
     const { data: config, isLoading: isConfigLoading, isError: isConfigError } = useConfig();
     const { data: myLeaves, isLoading: areLeavesLoading, isError: isLeavesError } = useUserLeaves(user.id);
+    const { data: balances } = useUserBalances(user.id);
+    const { data: myWaitlist } = useUserWaitlist(user.id);
 
-    const { dateRange } = useMemo(() => {
-        if (!config) return { dateRange: null };
-        const getMinMaxDates = (currentConfig: Config) => {
-            const now = new Date();
-            const istNow = new Date(now.getTime() + BOOKING_CONSTANTS.IST_OFFSET_MS);
-
-            const day = istNow.getUTCDay(); // 0=Sunday (in IST)
-            const hour = istNow.getUTCHours(); // (in IST)
-            const minute = istNow.getUTCMinutes(); // (in IST)
-
-            const [resetHour, resetMinute] = (currentConfig.openingTime || BOOKING_CONSTANTS.WEEKLY_RESET_TIME).split(':').map(Number);
-            const openingDay = currentConfig.openingDay ?? BOOKING_CONSTANTS.WEEKLY_RESET_DAY;
+    const selectedLeaveType = config ? findLeaveType(config, selectedLeaveTypeId) ?? getLeaveTypes(config)[0] : undefined;
+    const consumesSlot = selectedLeaveType?.consumesSlot ?? true;
+    const selectedBalance = balances?.find(b => b.leaveTypeId === selectedLeaveType?.id);
 
-            let virtualToday = new Date(istNow);
-            if (day === openingDay && (hour < resetHour || (hour === resetHour && minute < resetMinute))) {
-                // It's the opening day before opening time, stay on previous day's schedule
-                virtualToday.setUTCDate(virtualToday.getUTCDate() - 1);
-            }
+    // Config with the selected type's notice rule applied
+    const bookingConfig = useMemo(() =>
+        config ? applyLeaveTypeRules(config, selectedLeaveType) : undefined,
+        [config, selectedLeaveType]);
 
-            const today = new Date(Date.UTC(virtualToday.getUTCFullYear(), virtualToday.getUTCMonth(), virtualToday.getUTCDate()));
-
-            const minNoticeDays = currentConfig.minNoticeDays ?? BOOKING_CONSTANTS.MIN_NOTICE_DAYS;
-            const minDate = new Date(today.getTime());
-            minDate.setUTCDate(minDate.getUTCDate() + minNoticeDays);
-
-            const maxDate = new Date(today.getTime());
-            const dayOfWeek = today.getUTCDay(); // 0=Sun
-            const daysToNextSunday = (7 - dayOfWeek) % 7;
-
-            switch (currentConfig.weekRange) {
-                case '1_WEEK': 
-                    maxDate.setUTCDate(today.getUTCDate() + daysToNextSunday); 
-                    break;
-                case '2_WEEKS': 
-                    maxDate.setUTCDate(today.getUTCDate() + daysToNextSunday + 7); 
-                    break;
-                case '1_MONTH': 
-                    const nextMonth = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() + 1, 0));
-                    maxDate.setTime(nextMonth.getTime());
-                    break;
-            }
-            return {
-                minDateStr: minDate.toISOString().split('T')[0],
-                maxDateStr: maxDate.toISOString().split('T')[0]
-            };
-        };
-        const { minDateStr, maxDateStr } = getMinMaxDates(config);
-        return { dateRange: { startDate: minDateStr, endDate: maxDateStr } };
-    }, [config]);
+    const dateRange = useMemo(() => {
+        if (!bookingConfig) return null;
+        const { startDate, endDate } = getBookingWindow(bookingConfig);
+        return { startDate, endDate };
+    }, [bookingConfig, windowOpenedAt]);
 
     const { data: slotRangeInfo, isLoading: areSlotsLoading } = useSlotInfoForDateRange(dateRange, { enabled: !!dateRange });
     const { data: slotInfoForDate, isLoading: isSlotInfoForDateLoading } = useSlotInfoForDate(selectedDate, { enabled: !!selectedDate });
@@ -430,6 +433,13 @@ const UserDashboard: React.FC<{ user: User }> = ({ user }) => {
     }, [assignedShift]);
 
     const createLeaveMutation = useCreateLeaveMutation();
+    const createLeaveRangeMutation = useCreateLeaveRangeMutation();
+    const joinWaitlistMutation = useJoinWaitlistMutation();
+
+    const selectedDates = useMemo(() =>
+        selectedDate ? getDatesInRange(selectedDate, selectedEndDate || selectedDate) : [],
+        [selectedDate, selectedEndDate]);
+    const { slotsByDate: rangeSlotsByDate, isLoading: areRangeSlotsLoading } = useSlotInfoForDates(selectedDates.length > 1 ? selectedDates : []);
 
     const sortedLeaves = useMemo(() =>
         myLeaves ? [...myLeaves].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()) : [],
@@ -453,9 +463,90 @@ const UserDashboard: React.FC<{ user: User }> = ({ user }) => {
 
     const handleDateSelect = (date: string) => {
         setSelectedDate(date);
+        setSelectedEndDate('');
         setSelectedShift('');
     };
 
+    const handleRangeSelect = (startDate: string, endDate: string) => {
+        setSelectedDate(startDate);
+        setSelectedEndDate(endDate === startDate ? '' : endDate);
+    };
+
+    const resetSelection = () => {
+        setSelectedDate('');
+        setSelectedEndDate('');
+        setSelectedShift('');
+    };
+
+    const handleLeaveTypeChange = (leaveTypeId: string) => {
+        setSelectedLeaveTypeId(leaveTypeId);
+        // Notice rules differ per type, so a previous selection may no longer be valid
+        resetSelection();
+    };
+
+    // Every day of a range must be bookable and have a free slot on the chosen
+    // shift, otherwise the grouped request would only half-succeed.
+    // Booking window, holidays and the user's own leaves; these hold offline too
+    const getDateError = (): string | null => {
+        if (!bookingConfig || !myLeaves) return null;
+        const bookingWindow = getBookingWindow(bookingConfig);
+        const bookedDates = new Set(myLeaves.filter(l => l.status !== LeaveStatus.REJECTED).map(l => l.date));
+        const unavailable = selectedDates.find(date => getUnbookableReason(date, bookingConfig, bookingWindow) || bookedDates.has(date));
+        return unavailable ? `${formatDate(unavailable)} is not available for leave.` : null;
+    };
+
+    const getRangeSlotError = (): string | null => {
+        if (!consumesSlot) return null;
+        if (areRangeSlotsLoading) return 'Still checking slot availability, please try again in a moment.';
+        const fullDate = selectedDates.find(date => {
+            const shiftSlots = rangeSlotsByDate.get(date)?.find(s => s.shiftId === selectedShift);
+            return !shiftSlots || shiftSlots.availableSlots <= 0;
+        });
+        return fullDate ? `No available slots on ${formatDate(fullDate)} for the selected shift.` : null;
+    };
+
+    const selectedShiftSlots = slotInfoForDate?.find(s => s.shiftId === selectedShift);
+    const isSelectedShiftFull = consumesSlot && !!selectedShift && (!selectedShiftSlots || selectedShiftSlots.availableSlots <= 0);
+
+    const handleJoinWaitlist = () => {
+        if (myWaitlist?.some(entry => entry.date === selectedDate && entry.shiftId === selectedShift)) {
+            toast.error('You are already on the waitlist for this shift.');
+            return;
+        }
+
+        toast.promise(
+            joinWaitlistMutation.mutateAsync({ userId: user.id, date: selectedDate, shiftId: selectedShift, leaveTypeId: selectedLeaveType?.id }) as Promise<WaitlistEntry>,
+            {
+                loading: 'Joining waitlist...',
+                success: (entry: WaitlistEntry) => {
+                    resetSelection();
+                    return `You are #${entry.position} on the waitlist. You'll be moved to pending if a slot frees up.`;
+                },
+                error: (error: any) => error.response?.data?.message || 'Failed to join waitlist.',
+            }
+        ).catch(() => { });
+    };
+
+    // Keeps the current selection as a request to send once the device is online
+    const queueLeaveRequest = () => {
+        const payload = { userId: user.id, shiftId: selectedShift, leaveTypeId: selectedLeaveType?.id, creatorId: user.id };
+        if (selectedDates.length > 1) {
+            enqueueAction(user.id, { type: 'CREATE_LEAVE_RANGE', payload: { ...payload, dates: selectedDates } },
+                `Leave ${formatDate(selectedDates[0])} to ${formatDate(selectedDates[selectedDates.length - 1])}`);
+        } else {
+            enqueueAction(user.id, { type: 'CREATE_LEAVE', payload: { ...payload, date: selectedDate } }, `Leave on ${formatDate(selectedDate)}`);
+        }
+        resetSelection();
+    };
+
+    const getSubmitErrorMessage = (error: any): string => {
+        if (isNetworkError(error)) {
+            queueLeaveRequest();
+            return 'Connection lost. Your request has been queued and will be sent automatically.';
+        }
+        return error.response?.data?.message || 'Failed to submit leave request.';
+    };
+
     const handleApplyLeave = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!selectedDate || !selectedShift) {
@@ -463,26 +554,69 @@ const UserDashboard: React.FC<{ user: User }> = ({ user }) => {
             return;
         }
 
-        const shiftSlots = slotInfoForDate?.find(s => s.shiftId === selectedShift);
-        if (!shiftSlots || shiftSlots.availableSlots <= 0) {
-            toast.error('No available slots for the selected shift.');
+        const dateError = getDateError();
+        if (dateError) {
+            toast.error(dateError);
+            return;
+        }
+
+        // Slot data may be stale while offline; the server has the final say on replay
+        if (isOffline()) {
+            queueLeaveRequest();
+            toast("You're offline. Your request will be sent when you're back online.");
+            return;
+        }
+
+        if (isSelectedShiftFull) {
+            // A full single day can still be queued for; ranges cannot
+            if (selectedDates.length === 1) {
+                handleJoinWaitlist();
+            } else {
+                toast.error('No available slots for the selected shift.');
+            }
+            return;
+        }
+
+        if (selectedDates.length > 1) {
+            const slotError = getRangeSlotError();
+            if (slotError) {
+                toast.error(slotError);
+                return;
+            }
+
+            toast.promise(
+                createLeaveRangeMutation.mutateAsync({ userId: user.id, dates: selectedDates, shiftId: selectedShift, leaveTypeId: selectedLeaveType?.id, creatorId: user.id }) as Promise<Leave[]>,
+                {
+                    loading: 'Submitting request...',
+                    success: (created: Leave[]) => {
+                        resetSelection();
+                        return created.some(l => l.ballot)
+                            ? `Your request for ${selectedDates.length} days has been entered into the lottery draw.`
+                            : `Leave request for ${selectedDates.length} days submitted successfully!`;
+                    },
+                    error: getSubmitErrorMessage,
+                }
+            ).catch(() => { });
             return;
         }
 
         toast.promise(
-            createLeaveMutation.mutateAsync({ userId: user.id, date: selectedDate, shiftId: selectedShift, creatorId: user.id }),
+            createLeaveMutation.mutateAsync({ userId: user.id, date: selectedDate, shiftId: selectedShift, leaveTypeId: selectedLeaveType?.id, creatorId: user.id }) as Promise<Leave>,
             {
                 loading: 'Submitting request...',
-                success: () => {
-                    setSelectedDate('');
-                    setSelectedShift('');
-                    return 'Leave request submitted successfully!';
+                success: (created: Leave) => {
+                    resetSelection();
+                    return created.ballot
+                        ? 'Your request has been entered into the lottery draw.'
+                        : 'Leave request submitted successfully!';
                 },
-                error: (error: any) => error.response?.data?.message || 'Failed to submit leave request.',
+                error: getSubmitErrorMessage,
             }
         ).catch(() => { });
     };
 
+    const isSubmitting = createLeaveMutation.isPending || createLeaveRangeMutation.isPending || joinWaitlistMutation.isPending;
+
     if (isConfigLoading || areLeavesLoading || areSlotsLoading) {
         return (
             <div className="w-full mx-auto p-2 sm:p-8 grid gap-4 sm:gap-8 grid-cols-1 lg:grid-cols-3">
@@ -521,29 +655,66 @@ const UserDashboard: React.FC<{ user: User }> = ({ user }) => {
         );
     }
 
-    if (isConfigError || isLeavesError || !config || !myLeaves || !slotRangeInfo) {
+    if (isConfigError || isLeavesError || !config || !bookingConfig || !myLeaves || !slotRangeInfo) {
         return <div className="flex justify-center items-center h-screen text-red-500">Failed to load dashboard data. Please try again later.</div>;
     }
 
     return (
         <div className="w-full mx-auto p-2 sm:p-8 grid gap-4 sm:gap-8 grid-cols-1 lg:grid-cols-3">
-            <div className="lg:col-span-1">
+            <div className="lg:col-span-1 space-y-4 sm:space-y-8">
+                <BookingWindowCountdown user={user} config={config} onWindowOpen={() => setWindowOpenedAt(Date.now())} />
                 <Card>
                     <CardHeader>
                         <CardTitle>Apply for Leave</CardTitle>
                         <CardDescription>Select an available date to request a leave.</CardDescription>
                     </CardHeader>
                     <CardContent>
+                        {isBallotOpen(config) && (
+                            <div className="mb-4 p-3 rounded-md text-sm bg-blue-50 text-blue-800 dark:bg-blue-900/50 dark:text-blue-200">
+                                Lottery ballot open until {getBallotPeriod(config).end.toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' })}.
+                                Requests made before then are allocated by a draw, so there is no need to rush.
+                            </div>
+                        )}
+                        <div className="space-y-2 mb-4">
+                            <Label htmlFor="leave-type">Leave Type</Label>
+                            <Select
+                                id="leave-type"
+                                value={selectedLeaveType?.id ?? ''}
+                                onChange={e => handleLeaveTypeChange(e.target.value)}
+                            >
+                                {getLeaveTypes(config).map(type => (
+                                    <option key={type.id} value={type.id}>{type.name}</option>
+                                ))}
+                            </Select>
+                            {!consumesSlot && (
+                                <p className="text-xs text-muted-foreground">This leave type does not use a shift slot.</p>
+                            )}
+                            {selectedBalance && (
+                                <p className={`text-xs ${getAvailableDays(selectedBalance) < Math.max(1, selectedDates.length) ? 'text-red-500' : 'text-muted-foreground'}`}>
+                                    {formatDays(getAvailableDays(selectedBalance))} remaining after pending requests.
+                                </p>
+                            )}
+                        </div>
                         <CalendarView
-                            config={config}
+                            config={bookingConfig}
                             onDateSelect={handleDateSelect}
+                            onRangeSelect={handleRangeSelect}
                             selectedDate={selectedDate}
+                            selectedEndDate={selectedEndDate}
                             slotInfo={slotRangeInfo}
                             myLeaves={myLeaves}
+                            myWaitlist={myWaitlist}
+                            ignoreSlots={!consumesSlot}
                         />
                         {selectedDate && (
                             <form onSubmit={handleApplyLeave} className="space-y-4 pt-4 border-t mt-4 dark:border-border/50">
-                                <h3 className="text-lg font-semibold">Selected Date: {formatDateExtended(selectedDate)}</h3>
+                                {selectedDates.length > 1 ? (
+                                    <h3 className="text-lg font-semibold">
+                                        Selected Dates: {formatDate(selectedDates[0])} - {formatDate(selectedDates[selectedDates.length - 1])} ({selectedDates.length} days)
+                                    </h3>
+                                ) : (
+                                    <h3 className="text-lg font-semibold">Selected Date: {formatDateExtended(selectedDate)}</h3>
+                                )}
 
                                 {/* Display Assigned Shift */}
                                 {assignedShift && (
@@ -589,22 +760,27 @@ const UserDashboard: React.FC<{ user: User }> = ({ user }) => {
                                         value={selectedShift}
                                         onChange={e => setSelectedShift(e.target.value)}
                                         required
-                                        disabled={!slotInfoForDate || slotInfoForDate.every(s => s.availableSlots <= 0) || isSlotInfoForDateLoading || !!assignedShift}
+                                        disabled={(consumesSlot && !slotInfoForDate) || isSlotInfoForDateLoading || !!assignedShift}
                                     >
                                         <option value="">Select a shift</option>
                                         {config.shifts.map(shift => {
                                             const info = slotInfoForDate?.find(s => s.shiftId === shift.id);
-                                            const disabled = !info || info.availableSlots <= 0;
+                                            const isFull = consumesSlot && (!info || info.availableSlots <= 0);
                                             return (
-                                                <option key={shift.id} value={shift.id} disabled={disabled}>
-                                                    {shift.name} {disabled ? '(No slots)' : ''}
+                                                <option key={shift.id} value={shift.id}>
+                                                    {shift.name} {isFull ? (selectedDates.length > 1 ? '(No slots)' : '(Full - waitlist)') : ''}
                                                 </option>
                                             );
                                         })}
                                     </Select>
                                 </div>
-                                <Button type="submit" className="w-full" disabled={createLeaveMutation.isPending || !selectedShift}>
-                                    {createLeaveMutation.isPending ? 'Submitting...' : 'Apply for Leave'}
+                                {isSelectedShiftFull && selectedDates.length === 1 && (
+                                    <p className="text-sm text-muted-foreground">
+                                        This shift is full. Join the waitlist and your request will be submitted automatically if someone cancels or is rejected.
+                                    </p>
+                                )}
+                                <Button type="submit" className="w-full" disabled={isSubmitting || !selectedShift}>
+                                    {isSubmitting ? 'Submitting...' : isSelectedShiftFull && selectedDates.length === 1 ? 'Join Waitlist' : 'Apply for Leave'}
                                 </Button>
                             </form>
                         )}
@@ -612,6 +788,33 @@ const UserDashboard: React.FC<{ user: User }> = ({ user }) => {
                 </Card>
             </div>
             <div className="lg:col-span-2 space-y-8">
+                {balances && balances.length > 0 && (
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Leave Balance</CardTitle>
+                            <CardDescription>Days left in your current leave year.</CardDescription>
+                        </CardHeader>
+                        <CardContent className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                            {balances.map(balance => {
+                                const leaveType = findLeaveType(config, balance.leaveTypeId);
+                                return (
+                                    <div key={balance.leaveTypeId} className="p-4 border rounded-lg space-y-2 dark:border-border/50">
+                                        <div className="flex items-center justify-between">
+                                            {leaveType ? <LeaveTypeBadge leaveType={leaveType} /> : <span className="text-sm font-medium">{balance.leaveTypeId}</span>}
+                                            <span className="text-xs text-muted-foreground">until {formatDate(balance.periodEnd)}</span>
+                                        </div>
+                                        <p className="text-2xl font-bold">{formatDays(balance.remaining)}</p>
+                                        <p className="text-xs text-muted-foreground">
+                                            {formatDays(balance.used)} used of {formatDays(balance.accrued)}
+                                            {balance.carriedForward > 0 && ` (incl. ${formatDays(balance.carriedForward)} carried forward)`}
+                                            {balance.pending > 0 && `, ${formatDays(balance.pending)} pending`}
+                                        </p>
+                                    </div>
+                                );
+                            })}
+                        </CardContent>
+                    </Card>
+                )}
                 {nextActiveLeave && (
                     <Card>
                         <CardHeader>
@@ -646,6 +849,7 @@ const UserDashboard: React.FC<{ user: User }> = ({ user }) => {
                         </CardContent>
                     </Card>
                 )}
+                <LeaveSwaps user={user} myLeaves={myLeaves} config={config} />
                 <Card>
                     <CardHeader>
                         <CardTitle>My Leave History</CardTitle>
@@ -654,7 +858,7 @@ const UserDashboard: React.FC<{ user: User }> = ({ user }) => {
                     <CardContent className="p-0">
                         {sortedLeaves.length > 0 ? (
                             <div className="max-h-[60vh] overflow-y-auto">
-                                {sortedLeaves.map(leave => <LeaveItem key={leave.id} leave={leave} isNextActive={leave.id === nextActiveLeave?.id} />)}
+                                {sortedLeaves.map(leave => <LeaveItem key={leave.id} leave={leave} leaveType={getLeaveTypeOf(leave, config)} isNextActive={leave.id === nextActiveLeave?.id} />)}
                             </div>
                         ) : (
                             <div className="p-6 text-center text-muted-foreground">
@@ -22,8 +22,9 @@ export const UserShiftList: React.FC<UserShiftListProps> = ({ users, shifts }) =
     // Ensure Monday start
     const weekStart = useMemo(() => startOfWeek(selectedDate, { weekStartsOn: 1 }), [selectedDate]);
 
+    // Shows the published roster; changes made here go to the week's draft
     const { data: weekShifts = [], isLoading } = useQuery({
-        queryKey: ["week-shifts", format(weekStart, "yyyy-MM-dd")],
+        queryKey: ["week-shifts", format(weekStart, "yyyy-MM-dd"), "published"],
         queryFn: () => getShiftsForWeek(format(weekStart, "yyyy-MM-dd")),
     });
 
@@ -37,10 +38,10 @@ export const UserShiftList: React.FC<UserShiftListProps> = ({ users, shifts }) =
     }, [weekShifts]);
 
     const updateShiftMutation = useMutation({
-        mutationFn: updateUserShift,
+        mutationFn: (data: { userId: string; shiftId: string; startDate: string }) => updateUserShift({ ...data, draft: true }),
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: ["week-shifts"] });
-            toast.success("Shift updated successfully");
+            toast.success("Shift updated in the draft roster");
         },
         onError: (error: any) => {
             toast.error(error.response?.data?.message || "Failed to update shift");
@@ -48,7 +49,7 @@ export const UserShiftList: React.FC<UserShiftListProps> = ({ users, shifts }) =
     });
 
     const swapShiftMutation = useMutation({
-        mutationFn: swapUserShifts,
+        mutationFn: (data: { user1Id: string; user2Id: string; startDate: string }) => swapUserShifts({ ...data, draft: true }),
         onSuccess: (data) => {
             queryClient.invalidateQueries({ queryKey: ["week-shifts"] });
             toast.success(data.message || "Shifts swapped successfully");
@@ -117,7 +118,7 @@ export const UserShiftList: React.FC<UserShiftListProps> = ({ users, shifts }) =
                     <div>
                         <CardTitle>User Shift Assignments</CardTitle>
                         <CardDescription>
-                            View and manage shift assignments for all users. Change a user's shift to swap with another user.
+                            View the published shift assignments. Changes are saved to the draft roster and show here once published.
                         </CardDescription>
                     </div>
                 </div>
@@ -0,0 +1,33 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import * as api from '../services/api';
+import { Delegation } from '../types';
+
+export const useDelegations = (options?: any) => {
+    return useQuery<Delegation[]>({
+        queryKey: ['delegations'],
+        queryFn: api.getDelegations,
+        ...options
+    });
+};
+
+export const useCreateDelegationMutation = (options?: any) => {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: (data: { delegatorId: string, deputyId: string, startDate: string, endDate: string }) => api.createDelegation(data),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['delegations'] });
+        },
+        ...options
+    });
+};
+
+export const useDeleteDelegationMutation = (options?: any) => {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: (id: string) => api.deleteDelegation(id),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['delegations'] });
+        },
+        ...options
+    });
+};
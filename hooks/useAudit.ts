@@ -0,0 +1,10 @@
+import { useQuery } from '@tanstack/react-query';
+import * as api from '../services/api';
+import { AuditLogEntry, AuditLogFilters } from '../types';
+
+export const useAuditLogs = (filters: AuditLogFilters) => {
+    return useQuery<AuditLogEntry[]>({
+        queryKey: ['audit-logs', filters],
+        queryFn: () => api.getAuditLogs(filters),
+    });
+};
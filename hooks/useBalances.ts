@@ -0,0 +1,44 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import * as api from '../services/api';
+import { Entitlement, LeaveBalance } from '../types';
+
+// Balances for the current leave year of one user
+export const useUserBalances = (userId: string, options?: any) => {
+    return useQuery<LeaveBalance[]>({
+        queryKey: ['balances', userId],
+        queryFn: () => api.getBalancesForUser(userId),
+        enabled: !!userId,
+        ...options
+    });
+};
+
+export const useEntitlements = (userId?: string) => {
+    return useQuery<Entitlement[]>({
+        queryKey: ['entitlements', userId ?? 'all'],
+        queryFn: () => api.getEntitlements(userId),
+    });
+};
+
+export const useSaveEntitlementMutation = (options?: any) => {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: (data: Omit<Entitlement, 'id'> & { id?: string }) => api.saveEntitlement(data),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['entitlements'] });
+            queryClient.invalidateQueries({ queryKey: ['balances'] });
+        },
+        ...options
+    });
+};
+
+export const useDeleteEntitlementMutation = (options?: any) => {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: (id: string) => api.deleteEntitlement(id),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['entitlements'] });
+            queryClient.invalidateQueries({ queryKey: ['balances'] });
+        },
+        ...options
+    });
+};
@@ -0,0 +1,59 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import * as api from '../services/api';
+import { CalendarFeed, Config, Leave, LeaveStatus } from '../types';
+import { getOrgToday } from '../utils/booking';
+import { addDays, getWeekStart } from '../utils/date';
+import { buildCalendar, getLeaveEvents, getShiftEvents, ShiftAssignment } from '../utils/ical';
+
+// Weeks of shift assignments included in a one-off export: this week and next
+const EXPORT_WEEKS = 2;
+
+export const useCalendarFeed = (options?: any) => {
+    return useQuery<CalendarFeed>({
+        queryKey: ['calendar-feed'],
+        queryFn: api.getCalendarFeed,
+        ...options
+    });
+};
+
+export const useResetCalendarFeedMutation = (options?: any) => {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: api.resetCalendarFeed,
+        onSuccess: (data: CalendarFeed) => {
+            queryClient.setQueryData(['calendar-feed'], data);
+        },
+        ...options
+    });
+};
+
+export const useTeamCalendarFeed = (shiftId?: string, options?: any) => {
+    return useQuery<CalendarFeed>({
+        queryKey: ['calendar-feed', 'team', shiftId ?? 'all'],
+        queryFn: () => api.getTeamCalendarFeed(shiftId),
+        ...options
+    });
+};
+
+// Builds a one-off .ics of the user's approved leaves and upcoming shifts. Week
+// rosters go through the same cache as the shift screens.
+export const useCalendarExport = () => {
+    const queryClient = useQueryClient();
+
+    return async (userId: string, leaves: Leave[], config: Config): Promise<string> => {
+        const thisWeek = getWeekStart(getOrgToday(config));
+        const weekStarts = Array.from({ length: EXPORT_WEEKS }, (_, i) => addDays(thisWeek, i * 7));
+        const weeks = await Promise.all(weekStarts.map(weekStart => queryClient.fetchQuery<any[]>({
+            queryKey: ['week-shifts', weekStart, 'published'],
+            queryFn: () => api.getShiftsForWeek(weekStart),
+        })));
+
+        const leaveDates = new Set(leaves.filter(l => l.status === LeaveStatus.APPROVED).map(l => l.date));
+        const shiftEvents = weeks.flatMap((assignments, i) => {
+            const mine: ShiftAssignment | undefined = assignments.find(a => a.userId === userId && a.shift);
+            return mine ? getShiftEvents(mine, weekStarts[i], config, leaveDates) : [];
+        });
+
+        return buildCalendar('OffDay', [...getLeaveEvents(leaves, config), ...shiftEvents]);
+    };
+};
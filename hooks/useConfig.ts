@@ -2,10 +2,11 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import * as api from '../services/api';
 import { Config } from '../types';
 
-export const useConfig = () => {
+export const useConfig = (options?: any) => {
   return useQuery<Config>({
     queryKey: ['config'],
     queryFn: api.getConfig,
+    ...options
   });
 };
 
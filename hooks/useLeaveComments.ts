@@ -0,0 +1,26 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import * as api from '../services/api';
+import { LeaveComment } from '../types';
+
+export const useLeaveComments = (leaveId: string, options?: any) => {
+    return useQuery<LeaveComment[]>({
+        queryKey: ['leave-comments', leaveId],
+        queryFn: () => api.getLeaveComments(leaveId),
+        // Keep the thread current while the dialog is open
+        refetchInterval: 30 * 1000,
+        ...options
+    });
+};
+
+export const useAddLeaveCommentMutation = (options?: any) => {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: ({ leaveId, text, files }: { leaveId: string, text: string, files: File[] }) => api.addLeaveComment(leaveId, { text, files }),
+        onSuccess: (_data, { leaveId }) => {
+            queryClient.invalidateQueries({ queryKey: ['leave-comments', leaveId] });
+            // Comment counts on the leave lists
+            queryClient.invalidateQueries({ queryKey: ['leaves'] });
+        },
+        ...options
+    });
+};
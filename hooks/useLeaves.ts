@@ -1,7 +1,7 @@
-import { useQuery, useMutation, useQueryClient, UseQueryOptions } from '@tanstack/react-query';
+import { useQuery, useQueries, useMutation, useQueryClient, UseQueryOptions } from '@tanstack/react-query';
 // FIX: Changed import to use namespace import since `api.ts` exports individual functions.
 import * as api from '../services/api';
-import { Leave, LeaveStatus, LeaveSlotInfo } from '../types';
+import { Leave, LeaveStatus, LeaveSlotInfo, WaitlistEntry } from '../types';
 
 // Fetch all leaves (for admin)
 export const useAllLeaves = () => {
@@ -32,6 +32,20 @@ export const useSlotInfoForDate = (date: string, options?: Omit<UseQueryOptions<
     });
 };
 
+// Per-shift slot info for several dates, sharing useSlotInfoForDate's cache
+export const useSlotInfoForDates = (dates: string[]) => {
+    return useQueries({
+        queries: dates.map(date => ({
+            queryKey: ['slots', 'date', date],
+            queryFn: (): Promise<LeaveSlotInfo[]> => api.getSlotInfoForDate(date),
+        })),
+        combine: results => ({
+            slotsByDate: new Map(dates.map((date, i) => [date, results[i]?.data])),
+            isLoading: results.some(r => r.isLoading),
+        }),
+    });
+};
+
 // Fetch slot info for a date range
 export const useSlotInfoForDateRange = (
     range: { startDate: string; endDate: string } | null,
@@ -50,10 +64,25 @@ export const useSlotInfoForDateRange = (
 export const useCreateLeaveMutation = (options?: any) => {
     const queryClient = useQueryClient();
     return useMutation({
-        mutationFn: (data: { userId: string, date: string, shiftId: string, status?: LeaveStatus, creatorId?: string }) => api.createLeave(data),
+        mutationFn: (data: { userId: string, date: string, shiftId: string, leaveTypeId?: string, status?: LeaveStatus, creatorId?: string }) => api.createLeave(data),
         onSuccess: (data: Leave) => {
             queryClient.invalidateQueries({ queryKey: ['leaves', 'user', data.userId] });
             queryClient.invalidateQueries({ queryKey: ['slots'] });
+            queryClient.invalidateQueries({ queryKey: ['balances'] });
+        },
+        ...options,
+    });
+};
+
+// Create one grouped request covering several days
+export const useCreateLeaveRangeMutation = (options?: any) => {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: (data: { userId: string, dates: string[], shiftId: string, leaveTypeId?: string, status?: LeaveStatus, creatorId?: string }) => api.createLeaveRange(data),
+        onSuccess: (_data: Leave[], variables) => {
+            queryClient.invalidateQueries({ queryKey: ['leaves', 'user', variables.userId] });
+            queryClient.invalidateQueries({ queryKey: ['slots'] });
+            queryClient.invalidateQueries({ queryKey: ['balances'] });
         },
         ...options,
     });
@@ -68,6 +97,8 @@ export const useUpdateLeaveStatusMutation = (options?: any) => {
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: ['leaves', 'all'] });
             queryClient.invalidateQueries({ queryKey: ['slots'] });
+            queryClient.invalidateQueries({ queryKey: ['balances'] });
+            queryClient.invalidateQueries({ queryKey: ['waitlist'] });
         },
         ...options
     });
@@ -82,6 +113,24 @@ export const useUpdateMultipleLeaveStatusesMutation = (options?: any) => {
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: ['leaves', 'all'] });
             queryClient.invalidateQueries({ queryKey: ['slots'] });
+            queryClient.invalidateQueries({ queryKey: ['balances'] });
+            queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+        },
+        ...options
+    });
+};
+
+// Approve or reject every day of a grouped request together (for admin)
+export const useUpdateLeaveGroupStatusMutation = (options?: any) => {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: (variables: { groupId: string, status: LeaveStatus.APPROVED | LeaveStatus.REJECTED, reason?: string }) =>
+            api.updateLeaveGroupStatus(variables.groupId, variables.status, variables.reason),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['leaves', 'all'] });
+            queryClient.invalidateQueries({ queryKey: ['slots'] });
+            queryClient.invalidateQueries({ queryKey: ['balances'] });
+            queryClient.invalidateQueries({ queryKey: ['waitlist'] });
         },
         ...options
     });
@@ -96,12 +145,14 @@ export const useCancelLeaveMutation = (options?: any) => {
             queryClient.invalidateQueries({ queryKey: ['leaves', 'user', data.userId] });
             queryClient.invalidateQueries({ queryKey: ['leaves', 'all'] });
             queryClient.invalidateQueries({ queryKey: ['slots'] });
+            queryClient.invalidateQueries({ queryKey: ['balances'] });
+            queryClient.invalidateQueries({ queryKey: ['waitlist'] });
         },
         ...options
     });
 };
 
-// Check for assigned shift
+// Check for assigned shift; only published rosters count, never a week's draft
 export const useUserShift = (userId: string, date: string, options?: any) => {
     return useQuery<any>({
         queryKey: ['user-shift', userId, date],
@@ -109,4 +160,46 @@ export const useUserShift = (userId: string, date: string, options?: any) => {
         enabled: !!userId && !!date,
         ...options
     });
-};
\ No newline at end of file
+};
+
+// Waitlist for all dates (for admin)
+export const useWaitlist = (options?: any) => {
+    return useQuery<WaitlistEntry[]>({
+        queryKey: ['waitlist', 'all'],
+        queryFn: api.getWaitlist,
+        ...options
+    });
+};
+
+// Waitlist entries of one user, with their queue positions
+export const useUserWaitlist = (userId: string) => {
+    return useQuery<WaitlistEntry[]>({
+        queryKey: ['waitlist', 'user', userId],
+        queryFn: () => api.getWaitlistForUser(userId),
+        enabled: !!userId,
+    });
+};
+
+// Queue for a full date/shift
+export const useJoinWaitlistMutation = (options?: any) => {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: (data: { userId: string, date: string, shiftId: string, leaveTypeId?: string }) => api.joinWaitlist(data),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+        },
+        ...options
+    });
+};
+
+// Leave the queue (for users)
+export const useLeaveWaitlistMutation = (options?: any) => {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: (entryId: string) => api.leaveWaitlist(entryId),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+        },
+        ...options
+    });
+};
@@ -0,0 +1,35 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import * as api from '../services/api';
+import { LotteryBallot, LotteryDraw } from '../types';
+
+export const useLotteryBallot = (options?: any) => {
+    return useQuery<LotteryBallot>({
+        queryKey: ['lottery-ballot'],
+        queryFn: api.getLotteryBallot,
+        ...options
+    });
+};
+
+export const useLotteryDraws = (options?: any) => {
+    return useQuery<LotteryDraw[]>({
+        queryKey: ['lottery-draws'],
+        queryFn: api.getLotteryDraws,
+        ...options
+    });
+};
+
+export const useRunLotteryDrawMutation = (options?: any) => {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: (data: { ballotStart: string }) => api.runLotteryDraw(data),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['lottery-ballot'] });
+            queryClient.invalidateQueries({ queryKey: ['lottery-draws'] });
+            queryClient.invalidateQueries({ queryKey: ['leaves'] });
+            queryClient.invalidateQueries({ queryKey: ['slots'] });
+            queryClient.invalidateQueries({ queryKey: ['balances'] });
+            queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+        },
+        ...options
+    });
+};
@@ -0,0 +1,56 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import * as api from '../services/api';
+import { AppNotification, NotificationPreferences } from '../types';
+
+// Notifications are raised by other users' actions, so poll for new ones
+const NOTIFICATION_POLL_INTERVAL_MS = 60 * 1000;
+
+export const useNotifications = (options?: any) => {
+    return useQuery<AppNotification[]>({
+        queryKey: ['notifications'],
+        queryFn: api.getNotifications,
+        refetchInterval: NOTIFICATION_POLL_INTERVAL_MS,
+        ...options
+    });
+};
+
+export const useMarkNotificationReadMutation = (options?: any) => {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: (id: string) => api.markNotificationRead(id),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['notifications'] });
+        },
+        ...options
+    });
+};
+
+export const useMarkAllNotificationsReadMutation = (options?: any) => {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: api.markAllNotificationsRead,
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['notifications'] });
+        },
+        ...options
+    });
+};
+
+export const useNotificationPreferences = (options?: any) => {
+    return useQuery<NotificationPreferences>({
+        queryKey: ['notifications', 'preferences'],
+        queryFn: api.getNotificationPreferences,
+        ...options
+    });
+};
+
+export const useUpdateNotificationPreferencesMutation = (options?: any) => {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: (preferences: NotificationPreferences) => api.updateNotificationPreferences(preferences),
+        onSuccess: (data: NotificationPreferences) => {
+            queryClient.setQueryData(['notifications', 'preferences'], data);
+        },
+        ...options
+    });
+};
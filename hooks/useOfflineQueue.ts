@@ -0,0 +1,109 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import * as api from '../services/api';
+import { getQueue, removeQueuedAction, isNetworkError, withQueueLock, OFFLINE_QUEUE_EVENT, QueuedItem } from '../utils/offlineQueue';
+
+export const useOnlineStatus = () => {
+    const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+    useEffect(() => {
+        const update = () => setIsOnline(navigator.onLine);
+        window.addEventListener('online', update);
+        window.addEventListener('offline', update);
+        return () => {
+            window.removeEventListener('online', update);
+            window.removeEventListener('offline', update);
+        };
+    }, []);
+
+    return isOnline;
+};
+
+export const useQueuedActions = (userId: string) => {
+    const [queue, setQueue] = useState<QueuedItem[]>(() => getQueue(userId));
+
+    useEffect(() => {
+        const update = () => setQueue(getQueue(userId));
+        update();
+        window.addEventListener(OFFLINE_QUEUE_EVENT, update);
+        // Another tab may have replayed or queued something
+        window.addEventListener('storage', update);
+        return () => {
+            window.removeEventListener(OFFLINE_QUEUE_EVENT, update);
+            window.removeEventListener('storage', update);
+        };
+    }, [userId]);
+
+    return queue;
+};
+
+const runQueuedAction = (item: QueuedItem): Promise<unknown> => {
+    switch (item.type) {
+        case 'CREATE_LEAVE':
+            return api.createLeave(item.payload);
+        case 'CREATE_LEAVE_RANGE':
+            return api.createLeaveRange(item.payload);
+        case 'CANCEL_LEAVE':
+            return api.cancelLeave(item.payload.leaveId);
+    }
+};
+
+// Replays the signed-in user's queue whenever connectivity returns. Requests
+// the server rejects (the slot filled up, the leave was already decided...)
+// are dropped and reported; network failures stop the replay for later. Only
+// the tab holding the queue lock replays, and it re-reads the queue before
+// each entry so nothing is sent twice.
+export const useOfflineQueueSync = (userId: string) => {
+    const queryClient = useQueryClient();
+    const isOnline = useOnlineStatus();
+    const queue = useQueuedActions(userId);
+    const isReplaying = useRef(false);
+
+    const replay = useCallback(async () => {
+        if (isReplaying.current) return;
+        isReplaying.current = true;
+
+        let sent = 0;
+        const conflicts: string[] = [];
+        try {
+            await withQueueLock(userId, async () => {
+                let item: QueuedItem | undefined;
+                while ((item = getQueue(userId)[0])) {
+                    try {
+                        await runQueuedAction(item);
+                        sent++;
+                    } catch (error: any) {
+                        if (isNetworkError(error)) break;
+                        conflicts.push(`${item.label}: ${error.response?.data?.message || 'request was rejected'}`);
+                    }
+                    removeQueuedAction(userId, item.id);
+                }
+            });
+        } finally {
+            isReplaying.current = false;
+        }
+
+        if (sent === 0 && conflicts.length === 0) return;
+
+        queryClient.invalidateQueries({ queryKey: ['leaves'] });
+        queryClient.invalidateQueries({ queryKey: ['slots'] });
+        queryClient.invalidateQueries({ queryKey: ['balances'] });
+        queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+
+        if (sent > 0) {
+            toast.success(`${sent} queued change(s) sent now that you're back online.`);
+        }
+        if (conflicts.length > 0) {
+            toast.error(`Some queued changes could not be applied:\n${conflicts.join('\n')}`, { duration: 10000 });
+        }
+    }, [userId, queryClient]);
+
+    useEffect(() => {
+        if (isOnline && queue.length > 0) {
+            replay();
+        }
+    }, [isOnline, queue.length, replay]);
+
+    return { isOnline, queue };
+};
@@ -0,0 +1,25 @@
+import { useCallback, useMemo } from 'react';
+import { Permission, Role, User } from '../types';
+import { useConfig } from './useConfig';
+import { getGrantedPermissions, hasPermission } from '../utils/permissions';
+
+// The one place the UI asks what the signed-in user may do. Role definitions
+// live in the config, so role-based grants are unknown until it has loaded.
+export const usePermissions = (user: User | null) => {
+    const { data: config, isLoading } = useConfig({ enabled: !!user });
+
+    const granted = useMemo(() => (user ? getGrantedPermissions(user, config) : new Set<Permission>()), [user, config]);
+
+    const can = useCallback(
+        (permission: Permission, shiftId?: string) => !!user && hasPermission(user, config, permission, shiftId),
+        [user, config]
+    );
+
+    return {
+        can,
+        isAdmin: user?.role === Role.ADMIN,
+        // Anyone with a permission gets the admin dashboard
+        hasAnyPermission: granted.size > 0,
+        isLoading: !!user && isLoading,
+    };
+};
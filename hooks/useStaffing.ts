@@ -0,0 +1,19 @@
+import { useQueries } from '@tanstack/react-query';
+import * as api from '../services/api';
+import { RosterEntry } from '../utils/roster';
+
+// Published rosters for several weeks at once, keyed by week start. Shares the
+// cache with the shift screens.
+export const usePublishedRosters = (weekStarts: string[]) => {
+    return useQueries({
+        queries: weekStarts.map(weekStart => ({
+            queryKey: ['week-shifts', weekStart, 'published'],
+            queryFn: (): Promise<RosterEntry[]> => api.getShiftsForWeek(weekStart),
+        })),
+        combine: results => ({
+            rosters: new Map(weekStarts.map((weekStart, i) => [weekStart, results[i]?.data ?? []])),
+            isLoading: results.some(r => r.isLoading),
+            isError: results.some(r => r.isError),
+        }),
+    });
+};
@@ -0,0 +1,79 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import * as api from '../services/api';
+import { LeaveSlotInfo, LeaveSwap, SwapStatus } from '../types';
+import { getSwapSlotProblem } from '../utils/swaps';
+
+// Open offers plus every swap the current user is part of (all swaps for admins)
+export const useSwaps = (options?: any) => {
+    return useQuery<LeaveSwap[]>({
+        queryKey: ['swaps'],
+        queryFn: api.getSwaps,
+        ...options
+    });
+};
+
+export const useCreateSwapOfferMutation = (options?: any) => {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: (data: { leaveId: string, note?: string }) => api.createSwapOffer(data),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['swaps'] });
+        },
+        ...options
+    });
+};
+
+export const useAcceptSwapMutation = (options?: any) => {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: (variables: { swapId: string, leaveId: string }) => api.acceptSwap(variables.swapId, variables.leaveId),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['swaps'] });
+        },
+        ...options
+    });
+};
+
+export const useCancelSwapMutation = (options?: any) => {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: (swapId: string) => api.cancelSwap(swapId),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['swaps'] });
+        },
+        ...options
+    });
+};
+
+// Approve or reject an accepted swap (for admin)
+export const useUpdateSwapStatusMutation = (options?: any) => {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: (variables: { swapId: string, status: SwapStatus.APPROVED | SwapStatus.REJECTED }) =>
+            api.updateSwapStatus(variables.swapId, variables.status),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['swaps'] });
+            queryClient.invalidateQueries({ queryKey: ['leaves'] });
+            queryClient.invalidateQueries({ queryKey: ['slots'] });
+        },
+        ...options
+    });
+};
+
+// Runs the same slot lookup as useSlotInfoForDate for both dates of a swap,
+// sharing its cache entries.
+export const useSwapSlotCheck = () => {
+    const queryClient = useQueryClient();
+    const fetchSlots = (date: string) => queryClient.fetchQuery<LeaveSlotInfo[]>({
+        queryKey: ['slots', 'date', date],
+        queryFn: () => api.getSlotInfoForDate(date),
+    });
+
+    return async (
+        offered: { date: string, shiftId: string, shiftName: string },
+        accepted: { date: string, shiftId: string, shiftName: string }
+    ): Promise<string | null> => {
+        const [slotsOnOfferedDate, slotsOnAcceptedDate] = await Promise.all([fetchSlots(offered.date), fetchSlots(accepted.date)]);
+        return getSwapSlotProblem(offered, accepted, slotsOnOfferedDate, slotsOnAcceptedDate);
+    };
+};
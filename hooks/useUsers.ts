@@ -1,7 +1,8 @@
 
 import { useQuery, useMutation, useQueryClient, UseQueryOptions, UseMutationOptions } from '@tanstack/react-query';
 import * as api from '../services/api';
-import { User, UserStatus, Role } from '../types';
+import { getWeekStart } from '../utils/date';
+import { User, UserStatus, Role, UserPermissions, ShiftPreferences } from '../types';
 
 // FIX: The useAllUsers hook was called with arguments in AdminDashboard.tsx, but it was defined to take none.
 // This updates it to accept react-query options to support conditional fetching.
@@ -45,6 +46,8 @@ type UpdateUserData = {
   status?: string;
   role?: Role;
   allowedTabs?: string[];
+  permissions?: UserPermissions;
+  shiftPreferences?: ShiftPreferences;
 };
 
 type UseUpdateUserMutationOptions = Omit<UseMutationOptions<User, any, UpdateUserData>, 'mutationFn'>;
@@ -70,10 +73,13 @@ export const useDeleteUserMutation = (options?: any) => {
     },
   });
 };
+// The published roster of the week containing `date`, under the same key as the
+// shift screens so publishing, discarding or generating a week refreshes it
 export const useShiftsForWeek = (date: string, options?: any) => {
+  const weekStart = getWeekStart(date);
   return useQuery({
-    queryKey: ['user-shifts', 'week', date],
-    queryFn: () => api.getShiftsForWeek(date),
+    queryKey: ['week-shifts', weekStart, 'published'],
+    queryFn: () => api.getShiftsForWeek(weekStart),
     ...options,
   });
 };
@@ -8,7 +8,20 @@ if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
-const queryClient = new QueryClient();
+const queryClient = new QueryClient({
+  defaultOptions: {
+    // Let queries run while offline so the service worker can answer from its cache
+    queries: { networkMode: 'offlineFirst' },
+  },
+});
+
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error("Service worker registration failed", error);
+    });
+  });
+}
 
 const root = ReactDOM.createRoot(rootElement);
 root.render(
@@ -0,0 +1,75 @@
+// Service worker for offline use. The app shell is served from cache when the
+// network is unavailable, and the read-only queries a user needs to see their
+// leave (config, own leaves, slot availability) fall back to the last response.
+// Writes are never cached here: the app queues them itself (utils/offlineQueue.ts).
+
+const SHELL_CACHE = 'offday-shell-v1';
+const API_CACHE = 'offday-api-v1';
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+
+// GET endpoints that may be answered from cache when offline
+const CACHEABLE_API = /\/api\/(config$|leaves\/user\/[^/]+$|leaves\/slots\/)/;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(SHELL_CACHE).then((cache) => cache.addAll(SHELL_URLS)));
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== SHELL_CACHE && key !== API_CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const networkFirst = async (request, cacheName) => {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then((response) => {
+      // Opaque responses (the Tailwind CDN) report status 0 but are usable
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+  return cached || network;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (url.pathname.includes('/api/')) {
+    if (CACHEABLE_API.test(url.pathname)) {
+      event.respondWith(networkFirst(request, API_CACHE));
+    }
+    return;
+  }
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, SHELL_CACHE).catch(() => caches.match('/index.html')));
+    return;
+  }
+
+  if (url.origin === self.location.origin || url.hostname === 'cdn.tailwindcss.com') {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
+
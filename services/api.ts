@@ -1,6 +1,6 @@
 
 import axios from 'axios';
-import { User, Config, Leave, LeaveStatus, LeaveSlotInfo, UserStatus, Role } from '../types';
+import { User, UserPermissions, ShiftPreferences, Config, Leave, LeaveStatus, LeaveSlotInfo, UserStatus, Role, Entitlement, LeaveBalance, WaitlistEntry, LeaveSwap, SwapStatus, AuditLogEntry, AuditLogFilters, Delegation, AppNotification, NotificationPreferences, LotteryBallot, LotteryDraw, CalendarFeed, LeaveComment } from '../types';
 
 // Get API URL from environment variable, fallback to default for development
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
@@ -71,7 +71,7 @@ export const getAllUsers = (): Promise<User[]> => apiClient.get('/users').then(r
 export const updateUserStatus = (userId: string, status: UserStatus): Promise<User> => apiClient.patch(`/users/${userId}/status`, { status }).then(res => res.data);
 export const resetUserPassword = (userId: string, newPassword?: string): Promise<{ success: boolean; newPassword?: string; message: string }> =>
   apiClient.post(`/users/${userId}/reset-password`, { newPassword }).then(res => res.data);
-export const updateUser = (id: string, data: { name?: string; mobile?: string; email?: string; status?: string; role?: Role; allowedTabs?: string[] }) =>
+export const updateUser = (id: string, data: { name?: string; mobile?: string; email?: string; status?: string; role?: Role; allowedTabs?: string[]; permissions?: UserPermissions; shiftPreferences?: ShiftPreferences }) =>
   apiClient.patch(`/users/${id}`, data).then((res) => res.data);
 export const deleteUserById = (id: string): Promise<{ success: boolean; message: string }> =>
   apiClient.delete(`/users/${id}`).then((res) => res.data);
@@ -83,23 +83,96 @@ export const updateConfig = (config: Partial<Config>): Promise<Config> => apiCli
 // Leaves
 export const getAllLeaves = (): Promise<Leave[]> => apiClient.get('/leaves').then(res => res.data);
 export const getLeavesForUser = (userId: string): Promise<Leave[]> => apiClient.get(`/leaves/user/${userId}`).then(res => res.data);
-export const createLeave = (data: { userId: string, date: string, shiftId: string, status?: LeaveStatus, creatorId?: string }): Promise<Leave> => apiClient.post('/leaves', data).then(res => res.data);
+export const createLeave = (data: { userId: string, date: string, shiftId: string, leaveTypeId?: string, status?: LeaveStatus, creatorId?: string }): Promise<Leave> => apiClient.post('/leaves', data).then(res => res.data);
+export const createLeaveRange = (data: { userId: string, dates: string[], shiftId: string, leaveTypeId?: string, status?: LeaveStatus, creatorId?: string }): Promise<Leave[]> => apiClient.post('/leaves/range', data).then(res => res.data);
 export const updateLeaveStatus = (leaveId: string, status: LeaveStatus.APPROVED | LeaveStatus.REJECTED, reason?: string): Promise<Leave> => apiClient.patch(`/leaves/${leaveId}/status`, { status, reason }).then(res => res.data);
 export const updateMultipleLeaveStatuses = (leaveIds: string[], status: LeaveStatus.APPROVED | LeaveStatus.REJECTED): Promise<Leave[]> =>
   apiClient.patch(`/leaves/status/bulk`, { leaveIds, status }).then(res => res.data);
+export const updateLeaveGroupStatus = (groupId: string, status: LeaveStatus.APPROVED | LeaveStatus.REJECTED, reason?: string): Promise<Leave[]> => apiClient.patch(`/leaves/group/${groupId}/status`, { status, reason }).then(res => res.data);
 export const cancelLeave = (leaveId: string): Promise<Leave> => apiClient.delete(`/leaves/${leaveId}`).then(res => res.data);
 
+// Leave comments. The days of a multi-day request share one thread, so any
+// of their ids can be used.
+export const getLeaveComments = (leaveId: string): Promise<LeaveComment[]> => apiClient.get(`/leaves/${leaveId}/comments`).then(res => res.data);
+export const addLeaveComment = (leaveId: string, data: { text: string, files: File[] }): Promise<LeaveComment> => {
+  const form = new FormData();
+  form.append('text', data.text);
+  data.files.forEach(file => form.append('files', file));
+  return apiClient.post(`/leaves/${leaveId}/comments`, form, { headers: { 'Content-Type': 'multipart/form-data' } }).then(res => res.data);
+};
+export const downloadLeaveAttachment = (leaveId: string, attachmentId: string): Promise<Blob> =>
+  apiClient.get(`/leaves/${leaveId}/comments/attachments/${attachmentId}`, { responseType: 'blob' }).then(res => res.data);
+
 // Slots
 export const getSlotInfoForDate = (date: string): Promise<LeaveSlotInfo[]> => apiClient.get(`/leaves/slots/date/${date}`).then(res => res.data);
 export const getSlotInfoForDateRange = (startDate: string, endDate: string): Promise<{ [date: string]: { availableSlots: number; totalSlots: number; } }> => apiClient.get(`/leaves/slots/range?startDate=${startDate}&endDate=${endDate}`).then(res => res.data);
 
+// Waitlist
+export const getWaitlist = (): Promise<WaitlistEntry[]> => apiClient.get('/waitlist').then(res => res.data);
+export const getWaitlistForUser = (userId: string): Promise<WaitlistEntry[]> => apiClient.get(`/waitlist/user/${userId}`).then(res => res.data);
+export const joinWaitlist = (data: { userId: string, date: string, shiftId: string, leaveTypeId?: string }): Promise<WaitlistEntry> => apiClient.post('/waitlist', data).then(res => res.data);
+export const leaveWaitlist = (entryId: string): Promise<WaitlistEntry> => apiClient.delete(`/waitlist/${entryId}`).then(res => res.data);
+
+// Leave swaps
+export const getSwaps = (): Promise<LeaveSwap[]> => apiClient.get('/swaps').then(res => res.data);
+export const createSwapOffer = (data: { leaveId: string, note?: string }): Promise<LeaveSwap> => apiClient.post('/swaps', data).then(res => res.data);
+export const acceptSwap = (swapId: string, leaveId: string): Promise<LeaveSwap> => apiClient.post(`/swaps/${swapId}/accept`, { leaveId }).then(res => res.data);
+export const cancelSwap = (swapId: string): Promise<LeaveSwap> => apiClient.delete(`/swaps/${swapId}`).then(res => res.data);
+// Approving applies both date changes in one transaction on the server
+export const updateSwapStatus = (swapId: string, status: SwapStatus.APPROVED | SwapStatus.REJECTED): Promise<LeaveSwap> =>
+  apiClient.patch(`/swaps/${swapId}/status`, { status }).then(res => res.data);
+
+// Lottery draws. The server runs the draw for a closed ballot with the seed it
+// committed to, stores the result and applies every entry's status to its leave.
+export const getLotteryBallot = (): Promise<LotteryBallot> => apiClient.get('/lottery/ballot').then(res => res.data);
+export const getLotteryDraws = (): Promise<LotteryDraw[]> => apiClient.get('/lottery/draws').then(res => res.data);
+export const runLotteryDraw = (data: { ballotStart: string }): Promise<LotteryDraw> =>
+  apiClient.post('/lottery/draws', data).then(res => res.data);
+
+// Approval delegation
+export const getDelegations = (): Promise<Delegation[]> => apiClient.get('/delegations').then(res => res.data);
+export const createDelegation = (data: { delegatorId: string, deputyId: string, startDate: string, endDate: string }): Promise<Delegation> =>
+  apiClient.post('/delegations', data).then(res => res.data);
+export const deleteDelegation = (id: string): Promise<{ success: boolean }> => apiClient.delete(`/delegations/${id}`).then(res => res.data);
+
+// Notifications (always scoped to the logged-in user)
+export const getNotifications = (): Promise<AppNotification[]> => apiClient.get('/notifications').then(res => res.data);
+export const markNotificationRead = (id: string): Promise<AppNotification> => apiClient.patch(`/notifications/${id}/read`).then(res => res.data);
+export const markAllNotificationsRead = (): Promise<{ success: boolean }> => apiClient.post('/notifications/read-all').then(res => res.data);
+export const getNotificationPreferences = (): Promise<NotificationPreferences> => apiClient.get('/notifications/preferences').then(res => res.data);
+export const updateNotificationPreferences = (preferences: NotificationPreferences): Promise<NotificationPreferences> =>
+  apiClient.put('/notifications/preferences', preferences).then(res => res.data);
+
+// Calendar feeds (.ics). Resetting issues a new token and invalidates the old URL.
+export const getCalendarFeed = (): Promise<CalendarFeed> => apiClient.get('/calendar/feed').then(res => res.data);
+export const resetCalendarFeed = (): Promise<CalendarFeed> => apiClient.post('/calendar/feed/reset').then(res => res.data);
+export const getTeamCalendarFeed = (shiftId?: string): Promise<CalendarFeed> =>
+  apiClient.get('/calendar/team-feed', { params: { shiftId } }).then(res => res.data);
+
+// Audit log
+export const getAuditLogs = (filters: AuditLogFilters): Promise<AuditLogEntry[]> =>
+  apiClient.get('/audit-logs', { params: filters }).then(res => res.data);
+
+// Entitlements & balances
+export const getEntitlements = (userId?: string): Promise<Entitlement[]> =>
+  apiClient.get('/entitlements', { params: { userId } }).then(res => res.data);
+export const saveEntitlement = (data: Omit<Entitlement, 'id'> & { id?: string }): Promise<Entitlement> =>
+  apiClient.put('/entitlements', data).then(res => res.data);
+export const deleteEntitlement = (id: string): Promise<{ success: boolean }> =>
+  apiClient.delete(`/entitlements/${id}`).then(res => res.data);
+export const getBalancesForUser = (userId: string): Promise<LeaveBalance[]> =>
+  apiClient.get(`/balances/user/${userId}`).then(res => res.data);
+
 // User Shifts
-export const assignUserShift = async (data: { userId: string; shiftId: string; startDate: string }) => {
+// Reads return the published roster unless `draft` is set. Writes with
+// `draft: true` go to the week's draft, which starts as a copy of the
+// published week and stays invisible to staff until it is published.
+export const assignUserShift = async (data: { userId: string; shiftId: string; startDate: string; draft?: boolean }) => {
   const response = await apiClient.post('/user-shifts', data);
   return response.data;
 };
 
-export const bulkAssignUserShifts = async (data: { userIds: string[]; shiftId: string; startDate: string }) => {
+export const bulkAssignUserShifts = async (data: { userIds: string[]; shiftId: string; startDate: string; draft?: boolean }) => {
   const response = await apiClient.post('/user-shifts/bulk', data);
   return response.data;
 };
@@ -109,27 +182,40 @@ export const getUserShift = async (userId: string, date: string) => {
   return response.data;
 };
 
-export const getShiftsForWeek = async (date: string) => {
-  const response = await apiClient.get(`/user-shifts/week?date=${date}`);
+export const getShiftsForWeek = async (date: string, draft = false) => {
+  const response = await apiClient.get(`/user-shifts/week?date=${date}${draft ? '&draft=true' : ''}`);
   return response.data;
 };
 
-export const removeUserShift = async (userId: string, date: string) => {
-  const response = await apiClient.delete(`/user-shifts?userId=${userId}&date=${date}`);
+export const removeUserShift = async (userId: string, date: string, draft = false) => {
+  const response = await apiClient.delete(`/user-shifts?userId=${userId}&date=${date}${draft ? '&draft=true' : ''}`);
   return response.data;
 };
 
-export const copyPreviousWeek = async (date: string) => {
-  const response = await apiClient.post('/user-shifts/copy-previous-week', { date });
+export const copyPreviousWeek = async (date: string, draft = false) => {
+  const response = await apiClient.post('/user-shifts/copy-previous-week', { date, draft });
   return response.data;
 };
 
-export const updateUserShift = async (data: { userId: string; shiftId: string; startDate: string }) => {
+export const updateUserShift = async (data: { userId: string; shiftId: string; startDate: string; draft?: boolean }) => {
   const response = await apiClient.post('/user-shifts', data);
   return response.data;
 };
 
-export const swapUserShifts = async (data: { user1Id: string; user2Id: string; startDate: string }) => {
+export const swapUserShifts = async (data: { user1Id: string; user2Id: string; startDate: string; draft?: boolean }) => {
   const response = await apiClient.post('/user-shifts/swap', data);
   return response.data;
+};
+
+// Replaces the published week with its draft. The server sends a
+// ROSTER_PUBLISHED notification, including the summary, to every user whose
+// shift changed.
+export const publishRosterDraft = async (data: { date: string; summary?: string }): Promise<{ notifiedCount: number }> => {
+  const response = await apiClient.post('/user-shifts/publish', data);
+  return response.data;
+};
+
+export const discardRosterDraft = async (date: string) => {
+  const response = await apiClient.delete(`/user-shifts/draft?date=${date}`);
+  return response.data;
 };
\ No newline at end of file
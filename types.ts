@@ -11,13 +11,50 @@ export enum LeaveStatus {
   REJECTED = 'REJECTED',
 }
 
+export enum SwapStatus {
+  OPEN = 'OPEN', // Offered, waiting for a colleague
+  ACCEPTED = 'ACCEPTED', // Colleague chose a leave to give back, waiting for admin
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED',
+  CANCELLED = 'CANCELLED',
+}
+
 export enum UserStatus {
   PENDING = 'PENDING',
   ACTIVE = 'ACTIVE',
   INACTIVE = 'INACTIVE',
 }
 
-export type WeekRange = '1_WEEK' | '2_WEEKS' | '1_MONTH';
+// Fine-grained actions outside a user's own leave. ADMIN has all of them;
+// anyone else gets them through named roles or individual grants.
+export enum Permission {
+  VIEW_ANALYTICS = 'VIEW_ANALYTICS',
+  APPROVE_LEAVE = 'APPROVE_LEAVE',
+  CREATE_LEAVE_FOR_OTHERS = 'CREATE_LEAVE_FOR_OTHERS',
+  VIEW_REPORTS = 'VIEW_REPORTS',
+  MANAGE_SHIFTS = 'MANAGE_SHIFTS',
+  MANAGE_USERS = 'MANAGE_USERS',
+  RESET_PASSWORDS = 'RESET_PASSWORDS',
+  MANAGE_ENTITLEMENTS = 'MANAGE_ENTITLEMENTS',
+  EDIT_CONFIG = 'EDIT_CONFIG',
+  VIEW_ACTIVITY = 'VIEW_ACTIVITY',
+  MANAGE_PERMISSIONS = 'MANAGE_PERMISSIONS',
+}
+
+// A named bundle of permissions, e.g. "Leave Approver"
+export interface PermissionRole {
+  id: string;
+  name: string;
+  permissions: Permission[];
+}
+
+export interface UserPermissions {
+  roleIds: string[];
+  permissions: Permission[]; // Granted on top of the roles
+  shiftIds: string[]; // Limits shift-scoped permissions to these shifts; empty means every shift
+}
+
+export type WeekRange = '1_WEEK' | '2_WEEKS' | '3_WEEKS' | '1_MONTH';
 
 export interface User {
   id: string;
@@ -26,10 +63,18 @@ export interface User {
   email?: string;
   role: Role;
   status: UserStatus;
-  allowedTabs: string[];
+  allowedTabs: string[]; // Legacy tab ids, only read when `permissions` is unset
+  permissions?: UserPermissions;
+  shiftPreferences?: ShiftPreferences;
   access_token?: string;
 }
 
+// What the roster generator tries to honour; neither list is a guarantee
+export interface ShiftPreferences {
+  preferredShiftIds: string[];
+  avoidShiftIds: string[];
+}
+
 export interface Shift {
   id: string;
   name: string;
@@ -38,6 +83,44 @@ export interface Shift {
   endTime?: string;
 }
 
+export interface LeaveType {
+  id: string;
+  name: string;
+  color: string; // Hex colour used for badges
+  minNoticeDays: number | null; // null falls back to Config.minNoticeDays
+  consumesSlot: boolean; // false for types that don't take a shift slot, e.g. sick leave
+}
+
+// One level of an approval chain. Anyone with the role, or their deputy, decides it.
+export interface ApprovalStep {
+  id: string;
+  name: string;
+  role: Role;
+}
+
+export interface ApprovalDecision {
+  stepIndex: number;
+  stepName: string;
+  status: LeaveStatus.APPROVED | LeaveStatus.REJECTED;
+  approverId: string;
+  approverName: string;
+  onBehalfOfName?: string; // Set when a deputy decided under a delegation
+  reason?: string;
+  decidedAt: string;
+}
+
+// Hands an approver's queue to a deputy for a date range
+export interface Delegation {
+  id: string;
+  delegatorId: string;
+  delegatorName: string;
+  deputyId: string;
+  deputyName: string;
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string; // YYYY-MM-DD, inclusive
+  createdAt: string;
+}
+
 export interface Leave {
   id: string;
   userId: string;
@@ -47,8 +130,34 @@ export interface Leave {
   date: string; // YYYY-MM-DD
   shiftId: string;
   shiftName: string;
+  leaveTypeId?: string;
+  leaveTypeName?: string;
   status: LeaveStatus;
   reason?: string;
+  approvalStage?: number; // Index into Config.approvalChain of the step awaiting a decision
+  approvals?: ApprovalDecision[]; // Decisions so far, oldest first
+  groupId?: string; // Shared by every day of a multi-day request
+  ballot?: boolean; // Requested while a lottery ballot was open; decided by the draw
+  commentCount?: number;
+  createdAt: string;
+}
+
+// Files live on the server and are downloaded through the API, so the
+// request carries the same auth as everything else.
+export interface LeaveAttachment {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  size: number; // Bytes
+}
+
+export interface LeaveComment {
+  id: string;
+  leaveId: string;
+  authorId: string;
+  authorName: string;
+  text: string;
+  attachments: LeaveAttachment[];
   createdAt: string;
 }
 
@@ -58,8 +167,230 @@ export interface Config {
   shifts: Shift[];
   openingDay: number;
   openingTime: string;
+  timeZone?: string; // IANA zone, e.g. 'Asia/Kolkata'
   minNoticeDays: number;
+  maxLeavesPerWeek: number | null;
   blockedDates: string[];
+  leaveTypes?: LeaveType[];
+  approvalChain?: ApprovalStep[]; // Empty means a single approval by anyone managing leaves
+  lottery?: LotteryConfig;
+  holidayCalendars?: HolidayCalendar[];
+  slotOverrides?: SlotOverride[];
+  permissionRoles?: PermissionRole[]; // Unset uses the built-in roles
+  rotationPatterns?: RotationPattern[];
+  rotationAssignments?: RotationAssignment[];
+  staffingRules?: StaffingRule[];
+  rosterGenerator?: RosterGeneratorSettings;
+}
+
+export interface RosterGeneratorSettings {
+  nightShiftIds: string[];
+  maxConsecutiveNightWeeks: number; // 0 means no limit
+  unpopularShiftIds: string[]; // Shared out evenly using recent rosters
+}
+
+// The fewest people a shift may be left with once approved leave is taken
+// out of the week's roster. When several rules match a day and shift, the
+// last one in the list wins, as with slot overrides.
+export interface StaffingRule {
+  id: string;
+  shiftId: string;
+  weekdays: number[]; // 0 for Sunday; empty means every day
+  minStaff: number;
+}
+
+// One leg of a rotation, e.g. two weeks on Morning
+export interface RotationStep {
+  shiftId: string;
+  weeks: number;
+}
+
+// A repeating sequence of shifts, e.g. 2 weeks Morning → 2 weeks Night → 1 week General
+export interface RotationPattern {
+  id: string;
+  name: string;
+  steps: RotationStep[];
+}
+
+// A one-off change to a single user's week that leaves the rest of the
+// rotation where it was. A null shift takes the user off the roster that week.
+export interface RotationWeekOverride {
+  userId: string;
+  weekStart: string; // Monday, YYYY-MM-DD
+  shiftId: string | null;
+}
+
+// Puts a user or group on a pattern. The week containing anchorDate runs the
+// first step; earlier weeks are not touched by the rotation.
+export interface RotationAssignment {
+  id: string;
+  patternId: string;
+  userIds: string[];
+  anchorDate: string; // YYYY-MM-DD
+  overrides: RotationWeekOverride[];
+}
+
+// Replaces Shift.slots on matching days, e.g. fewer slots at month-end. The
+// server applies the same rule when it reports slot availability. When
+// several overrides match a day and shift, the last one in the list wins.
+export interface SlotOverride {
+  id: string;
+  label?: string;
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string;   // YYYY-MM-DD, inclusive
+  weekdays: number[]; // 0 for Sunday; empty means every day in the range
+  shiftId?: string; // Unset applies to every shift
+  slots: number;
+}
+
+export type HolidayRecurrence = 'NONE' | 'YEARLY';
+
+export interface Holiday {
+  id: string;
+  name: string;
+  date: string; // YYYY-MM-DD; for yearly holidays, the first year it applies
+  recurrence: HolidayRecurrence;
+  blocksLeave: boolean; // Otherwise the day is only labelled
+}
+
+// A named set of holidays, e.g. "National" or "Karnataka". Disabled calendars
+// are kept but ignored everywhere.
+export interface HolidayCalendar {
+  id: string;
+  name: string;
+  enabled: boolean;
+  holidays: Holiday[];
+}
+
+// Requests made within ballotHours of the window opening are pooled and
+// allocated by a weighted draw instead of first-come-first-served.
+export interface LotteryConfig {
+  enabled: boolean;
+  ballotHours: number;
+  historyDays: number; // Approved leave in this many days before the ballot lowers a user's weight
+}
+
+// One request as it went into the draw. Everything needed to re-run the draw
+// is recorded here so a published result can be audited later.
+export interface LotteryEntry {
+  leaveId: string;
+  userId: string;
+  userName: string;
+  date: string;
+  shiftId: string;
+  weight: number;
+  capacity: number; // Free slots for the date/shift when the draw ran
+  consumesSlot: boolean;
+  rank: number;
+  status: LeaveStatus.APPROVED | LeaveStatus.REJECTED;
+}
+
+// The server picks each ballot's seed when the ballot opens and publishes only
+// its SHA-256 hash. The seed itself is revealed once the ballot closes, so
+// nobody can choose or re-roll it after seeing who entered.
+export interface LotteryBallot {
+  ballotStart: string;
+  ballotEnd: string;
+  seedHash: string;
+  seedCommittedAt: string;
+  seed?: string; // Only once the ballot has closed
+  drawId?: string; // Set once the draw has been run
+}
+
+export interface LotteryDraw {
+  id: string;
+  seed: string;
+  seedHash: string;
+  seedCommittedAt: string;
+  ballotStart: string;
+  ballotEnd: string;
+  entries: LotteryEntry[];
+  runById: string;
+  runByName: string;
+  createdAt: string;
+}
+
+// A queued request for a date/shift with no free slot. The server promotes the
+// first entry to a PENDING leave when a slot frees up.
+export interface WaitlistEntry {
+  id: string;
+  userId: string;
+  userName: string;
+  date: string; // YYYY-MM-DD
+  shiftId: string;
+  shiftName: string;
+  leaveTypeId?: string;
+  position: number; // 1-based place in the queue for this date/shift
+  createdAt: string;
+}
+
+// A user-to-user exchange of two approved leaves. Once approved, each person
+// takes the other's date on their own shift.
+export interface LeaveSwap {
+  id: string;
+  status: SwapStatus;
+  note?: string;
+  offeredLeaveId: string;
+  offeredByUserId: string;
+  offeredByName: string;
+  offeredDate: string; // YYYY-MM-DD
+  offeredShiftId: string;
+  offeredShiftName: string;
+  acceptedLeaveId?: string;
+  acceptedByUserId?: string;
+  acceptedByName?: string;
+  acceptedDate?: string; // YYYY-MM-DD
+  acceptedShiftId?: string;
+  acceptedShiftName?: string;
+  createdAt: string;
+}
+
+export type AuditEntityType = 'LEAVE' | 'CONFIG' | 'USER' | 'USER_SHIFT';
+
+// Written by the server for every mutating request
+export interface AuditLogEntry {
+  id: string;
+  actorId: string;
+  actorName: string;
+  action: string; // e.g. 'LEAVE_STATUS_UPDATED', 'USER_DELETED'
+  entityType: AuditEntityType;
+  entityId: string;
+  entityLabel?: string; // Human-readable target, e.g. "Jane Doe - 12/05/2025"
+  before: Record<string, unknown> | null; // null for creations
+  after: Record<string, unknown> | null; // null for deletions
+  createdAt: string;
+}
+
+export interface AuditLogFilters {
+  actorId?: string;
+  entityType?: AuditEntityType;
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string; // YYYY-MM-DD, inclusive
+}
+
+export type AccrualFrequency = 'MONTHLY' | 'YEARLY';
+
+export interface Entitlement {
+  id: string;
+  userId: string;
+  leaveTypeId: string;
+  daysPerYear: number;
+  accrual: AccrualFrequency; // MONTHLY credits daysPerYear / 12 at the start of each month
+  carryForwardCap: number; // Max unused days carried into the next leave year
+  resetDate: string; // MM-DD on which the leave year starts
+}
+
+// Computed by the server for the current leave year
+export interface LeaveBalance {
+  userId: string;
+  leaveTypeId: string;
+  accrued: number; // Accrued so far, including carried-forward days
+  carriedForward: number;
+  used: number; // Approved days
+  pending: number; // Days awaiting approval
+  remaining: number; // accrued - used
+  periodStart: string; // YYYY-MM-DD
+  periodEnd: string; // YYYY-MM-DD
 }
 
 export interface LeaveSlotInfo {
@@ -68,4 +399,37 @@ export interface LeaveSlotInfo {
   totalSlots: number;
   filledSlots: number;
   availableSlots: number;
-}
\ No newline at end of file
+}
+// Notifications are created by the server when the event happens, so users
+// who were offline still see them next time they open the app.
+export type NotificationType =
+  | 'LEAVE_APPROVED'
+  | 'LEAVE_REJECTED'
+  | 'LEAVE_CREATED_BY_ADMIN'
+  | 'SHIFT_REASSIGNED'
+  | 'SHIFT_SWAPPED'
+  | 'BOOKING_WINDOW_OPENED'
+  | 'LEAVE_COMMENT'
+  | 'ROSTER_PUBLISHED';
+
+export interface AppNotification {
+  id: string;
+  userId: string;
+  type: NotificationType;
+  title: string;
+  message: string; // Includes the rejection reason when there is one
+  read: boolean;
+  createdAt: string;
+}
+
+export interface NotificationPreferences {
+  mutedTypes: NotificationType[];
+  bookingWindowEmail?: boolean; // Opt-in email when the weekly booking window opens
+}
+
+// Secret subscribe URL for a calendar app. The server renders the feed on
+// every fetch, so status changes show up on the next refresh.
+export interface CalendarFeed {
+  url: string;
+  createdAt: string;
+}
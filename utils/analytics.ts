@@ -0,0 +1,189 @@
+import { Config, Leave, LeaveStatus } from '../types';
+import { addDays, getDatesInRange, getWeekday, getWeekStart } from './date';
+
+// Aggregations for the Analytics tab. Every leave is one day of leave, so the
+// counts here are days rather than requests.
+
+// What a chart element was clicked for; applied as a filter in LeaveManagement
+export interface LeaveDrillDown {
+    label: string; // Describes the filter above the list, e.g. "Week of 05/05/2025"
+    startDate: string;
+    endDate: string;
+    status?: LeaveStatus;
+    shiftId?: string;
+    weekday?: number; // 0 for Sunday
+    minLeadDays?: number;
+    maxLeadDays?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toUtc = (date: string) => new Date(`${date}T00:00:00Z`);
+
+// Whole days between the request being made and the leave itself; negative
+// for leaves an admin entered after the fact.
+export const getLeadDays = (leave: Leave) =>
+    Math.round((toUtc(leave.date).getTime() - toUtc(leave.createdAt.split('T')[0]).getTime()) / DAY_MS);
+
+export const getLeavesInRange = (leaves: Leave[], startDate: string, endDate: string) =>
+    leaves.filter(l => l.date >= startDate && l.date <= endDate);
+
+export const matchesDrillDown = (leave: Leave, filter: LeaveDrillDown): boolean => {
+    if (leave.date < filter.startDate || leave.date > filter.endDate) return false;
+    if (filter.status && leave.status !== filter.status) return false;
+    if (filter.shiftId && leave.shiftId !== filter.shiftId) return false;
+    if (filter.weekday !== undefined && getWeekday(leave.date) !== filter.weekday) return false;
+    const leadDays = getLeadDays(leave);
+    if (filter.minLeadDays !== undefined && leadDays < filter.minLeadDays) return false;
+    if (filter.maxLeadDays !== undefined && leadDays > filter.maxLeadDays) return false;
+    return true;
+};
+
+interface StatusCounts {
+    approved: number;
+    pending: number;
+    rejected: number;
+}
+
+const emptyCounts = (): StatusCounts => ({ approved: 0, pending: 0, rejected: 0 });
+
+const addToCounts = (counts: StatusCounts, status: LeaveStatus) => {
+    if (status === LeaveStatus.APPROVED) counts.approved++;
+    else if (status === LeaveStatus.REJECTED) counts.rejected++;
+    else counts.pending++;
+};
+
+export interface WeeklyVolume extends StatusCounts {
+    weekStart: string;
+    weekEnd: string;
+}
+
+// Every week touching the range is listed, including weeks without leave
+export const getWeeklyVolume = (leaves: Leave[], startDate: string, endDate: string): WeeklyVolume[] => {
+    const weeks = new Map<string, WeeklyVolume>();
+    for (let week = getWeekStart(startDate); week <= endDate; week = addDays(week, 7)) {
+        weeks.set(week, { weekStart: week, weekEnd: addDays(week, 6), ...emptyCounts() });
+    }
+    getLeavesInRange(leaves, startDate, endDate).forEach(l => {
+        const week = weeks.get(getWeekStart(l.date));
+        if (week) addToCounts(week, l.status);
+    });
+    return Array.from(weeks.values());
+};
+
+export interface ShiftVolume extends StatusCounts {
+    shiftId: string;
+    shiftName: string;
+}
+
+export const getShiftVolume = (leaves: Leave[], config: Config): ShiftVolume[] => {
+    const shifts = new Map<string, ShiftVolume>(
+        config.shifts.map(s => [s.id, { shiftId: s.id, shiftName: s.name, ...emptyCounts() }])
+    );
+    leaves.forEach(l => {
+        // Leaves on a shift that has since been removed keep their own name
+        if (!shifts.has(l.shiftId)) shifts.set(l.shiftId, { shiftId: l.shiftId, shiftName: l.shiftName, ...emptyCounts() });
+        addToCounts(shifts.get(l.shiftId)!, l.status);
+    });
+    return Array.from(shifts.values());
+};
+
+export interface DecisionRates extends StatusCounts {
+    total: number;
+    approvalRate: number | null; // Share of decided leaves that were approved, 0-1
+}
+
+export const getDecisionRates = (leaves: Leave[]): DecisionRates => {
+    const counts = emptyCounts();
+    leaves.forEach(l => addToCounts(counts, l.status));
+    const decided = counts.approved + counts.rejected;
+    return { ...counts, total: leaves.length, approvalRate: decided > 0 ? counts.approved / decided : null };
+};
+
+export interface LeadTimeBucket {
+    label: string;
+    minLeadDays?: number;
+    maxLeadDays?: number;
+    count: number;
+}
+
+const LEAD_TIME_BUCKETS: Omit<LeadTimeBucket, 'count'>[] = [
+    { label: 'Backdated', maxLeadDays: -1 },
+    { label: 'Same day', minLeadDays: 0, maxLeadDays: 0 },
+    { label: '1-3 days', minLeadDays: 1, maxLeadDays: 3 },
+    { label: '4-7 days', minLeadDays: 4, maxLeadDays: 7 },
+    { label: '1-2 weeks', minLeadDays: 8, maxLeadDays: 14 },
+    { label: '2-4 weeks', minLeadDays: 15, maxLeadDays: 28 },
+    { label: '4+ weeks', minLeadDays: 29 },
+];
+
+export const getLeadTimeDistribution = (leaves: Leave[]): { buckets: LeadTimeBucket[]; medianDays: number | null } => {
+    const leadDays = leaves.map(getLeadDays).sort((a, b) => a - b);
+    const buckets = LEAD_TIME_BUCKETS.map(bucket => ({
+        ...bucket,
+        count: leadDays.filter(d =>
+            (bucket.minLeadDays === undefined || d >= bucket.minLeadDays) &&
+            (bucket.maxLeadDays === undefined || d <= bucket.maxLeadDays)
+        ).length,
+    }));
+    const middle = Math.floor(leadDays.length / 2);
+    const medianDays = leadDays.length === 0
+        ? null
+        : leadDays.length % 2 === 1 ? leadDays[middle] : (leadDays[middle - 1] + leadDays[middle]) / 2;
+    // Only show the backdated bucket when there is something in it
+    return { buckets: buckets.filter(b => b.label !== 'Backdated' || b.count > 0), medianDays };
+};
+
+export interface WeeklyUtilisation {
+    weekStart: string;
+    weekEnd: string;
+    used: number;
+    total: number;
+    percent: number | null;
+}
+
+// Share of the offered slots that were taken, from getSlotInfoForDateRange
+export const getWeeklyUtilisation = (
+    slotInfo: { [date: string]: { availableSlots: number; totalSlots: number } },
+    startDate: string,
+    endDate: string
+): WeeklyUtilisation[] => {
+    const weeks = new Map<string, WeeklyUtilisation>();
+    getDatesInRange(startDate, endDate).forEach(date => {
+        const weekStart = getWeekStart(date);
+        if (!weeks.has(weekStart)) {
+            weeks.set(weekStart, { weekStart, weekEnd: addDays(weekStart, 6), used: 0, total: 0, percent: null });
+        }
+        const info = slotInfo[date];
+        if (!info) return;
+        const week = weeks.get(weekStart)!;
+        week.total += info.totalSlots;
+        week.used += Math.max(0, info.totalSlots - info.availableSlots);
+    });
+    return Array.from(weeks.values()).map(w => ({ ...w, percent: w.total > 0 ? Math.round((w.used / w.total) * 100) : null }));
+};
+
+export interface WeekdayHeatmapCell {
+    weekday: number;
+    shiftId: string;
+    count: number;
+}
+
+// Monday-first, matching the rest of the app
+export const HEATMAP_WEEKDAYS = [1, 2, 3, 4, 5, 6, 0];
+
+// Approved and pending days per weekday and shift; rejected requests are
+// demand too, but counting them would double-count people who retried.
+export const getWeekdayHeatmap = (leaves: Leave[], config: Config): { cells: WeekdayHeatmapCell[]; max: number } => {
+    const counts = new Map<string, number>();
+    leaves
+        .filter(l => l.status !== LeaveStatus.REJECTED)
+        .forEach(l => {
+            const key = `${getWeekday(l.date)}|${l.shiftId}`;
+            counts.set(key, (counts.get(key) ?? 0) + 1);
+        });
+    const cells = HEATMAP_WEEKDAYS.flatMap(weekday =>
+        config.shifts.map(shift => ({ weekday, shiftId: shift.id, count: counts.get(`${weekday}|${shift.id}`) ?? 0 }))
+    );
+    return { cells, max: Math.max(0, ...cells.map(c => c.count)) };
+};
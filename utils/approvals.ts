@@ -0,0 +1,42 @@
+import { ApprovalStep, Config, Delegation, Leave, LeaveStatus, Role, User } from '../types';
+
+export const getApprovalChain = (config: Config): ApprovalStep[] => config.approvalChain ?? [];
+
+// The step a pending leave is waiting on; undefined for single-step approval
+// or once the leave is decided.
+export const getCurrentStep = (leave: Leave, config: Config): ApprovalStep | undefined => {
+    if (leave.status !== LeaveStatus.PENDING) return undefined;
+    return getApprovalChain(config)[leave.approvalStage ?? 0];
+};
+
+export const describeApprovalStage = (leave: Leave, config: Config): string | null => {
+    const chain = getApprovalChain(config);
+    const step = getCurrentStep(leave, config);
+    if (!step) return null;
+    return `Step ${(leave.approvalStage ?? 0) + 1} of ${chain.length}: ${step.name}`;
+};
+
+const isActiveOn = (delegation: Delegation, date: string) =>
+    delegation.startDate <= date && date <= delegation.endDate;
+
+// Users whose approval queue `user` holds today through a delegation
+export const getDelegatorsFor = (user: User, delegations: Delegation[], today: string): string[] =>
+    delegations.filter(d => d.deputyId === user.id && isActiveOn(d, today)).map(d => d.delegatorId);
+
+// Whether `user` may decide the leave's current step. Admins can always act so
+// that a missing approver never blocks a request.
+export const canDecideStep = (
+    leave: Leave,
+    config: Config,
+    user: User,
+    delegations: Delegation[],
+    usersById: Map<string, User>,
+    today: string
+): boolean => {
+    if (user.role === Role.ADMIN) return true;
+    const step = getCurrentStep(leave, config);
+    if (!step) return true;
+    if (user.role === step.role) return true;
+
+    return getDelegatorsFor(user, delegations, today).some(id => usersById.get(id)?.role === step.role);
+};
@@ -0,0 +1,32 @@
+import { AuditLogEntry } from '../types';
+
+export interface AuditChange {
+    field: string;
+    before: string;
+    after: string;
+}
+
+const formatValue = (value: unknown): string => {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+};
+
+// Field-level differences between the before and after snapshots. Creations
+// and deletions list every field on the side that exists.
+export const getAuditChanges = (entry: AuditLogEntry): AuditChange[] => {
+    const before = entry.before ?? {};
+    const after = entry.after ?? {};
+    const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+
+    return fields
+        .map(field => ({ field, before: formatValue(before[field]), after: formatValue(after[field]) }))
+        .filter(change => change.before !== change.after);
+};
+
+export const formatAuditAction = (action: string): string =>
+    action
+        .toLowerCase()
+        .split('_')
+        .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+        .join(' ');
@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest';
+import { Config } from '../types';
+import { BookingWindow, getBookingWindow, getNextWindowOpening, getOrgToday, getUnbookableReason } from './booking';
+
+const makeConfig = (overrides: Partial<Config> = {}): Config => ({
+    disabledDays: [],
+    weekRange: '1_WEEK',
+    shifts: [],
+    openingDay: 0,
+    openingTime: '03:30',
+    timeZone: 'Asia/Kolkata',
+    minNoticeDays: 4,
+    maxLeavesPerWeek: null,
+    blockedDates: [],
+    ...overrides,
+});
+
+// Wednesday 12 March 2025, 10:00 in Kolkata
+const WEDNESDAY = new Date('2025-03-12T04:30:00Z');
+
+describe('getBookingWindow', () => {
+    it('starts after the notice days and ends on the coming Sunday', () => {
+        expect(getBookingWindow(makeConfig(), WEDNESDAY)).toEqual({
+            today: '2025-03-12',
+            startDate: '2025-03-16',
+            endDate: '2025-03-16',
+        });
+    });
+
+    it.each([
+        ['2_WEEKS', '2025-03-23'],
+        ['3_WEEKS', '2025-03-30'],
+        ['1_MONTH', '2025-03-31'],
+    ] as const)('ends %s out on %s', (weekRange, endDate) => {
+        expect(getBookingWindow(makeConfig({ weekRange }), WEDNESDAY).endDate).toBe(endDate);
+    });
+
+    it('ends on the same day when today is Sunday', () => {
+        const sunday = new Date('2025-03-16T06:30:00Z');
+        expect(getBookingWindow(makeConfig(), sunday).endDate).toBe('2025-03-16');
+    });
+
+    it('uses the default time zone when the configured one is invalid', () => {
+        // 20:00Z on Tuesday is already Wednesday in Kolkata
+        const now = new Date('2025-03-11T20:00:00Z');
+        expect(getBookingWindow(makeConfig({ timeZone: 'Not/AZone' }), now).today).toBe('2025-03-12');
+    });
+});
+
+describe('getOrgToday', () => {
+    it('returns the date in the org time zone rather than UTC', () => {
+        // 20:00Z on Tuesday is already Wednesday in Kolkata
+        expect(getOrgToday(makeConfig(), new Date('2025-03-11T20:00:00Z'))).toBe('2025-03-12');
+        expect(getOrgToday(makeConfig({ timeZone: 'America/New_York' }), new Date('2025-03-12T02:00:00Z'))).toBe('2025-03-11');
+    });
+
+    it('ignores the opening-time rule', () => {
+        // Sunday 16 March 2025, 03:29 in Kolkata, before the window opens
+        expect(getOrgToday(makeConfig(), new Date('2025-03-15T21:59:00Z'))).toBe('2025-03-16');
+    });
+});
+
+describe('getUnbookableReason', () => {
+    const window: BookingWindow = { today: '2025-03-12', startDate: '2025-03-16', endDate: '2025-03-30' };
+
+    it('accepts a date inside the window', () => {
+        expect(getUnbookableReason('2025-03-20', makeConfig(), window)).toBeNull();
+    });
+
+    it('includes both ends of the window', () => {
+        expect(getUnbookableReason('2025-03-16', makeConfig(), window)).toBeNull();
+        expect(getUnbookableReason('2025-03-30', makeConfig(), window)).toBeNull();
+    });
+
+    it('rejects a date inside the notice period', () => {
+        expect(getUnbookableReason('2025-03-15', makeConfig(), window)).toBe('BEFORE_NOTICE');
+    });
+
+    it('rejects a date after the window', () => {
+        expect(getUnbookableReason('2025-03-31', makeConfig(), window)).toBe('AFTER_WINDOW');
+    });
+
+    it('rejects a disabled weekday', () => {
+        // 22 March 2025 is a Saturday
+        expect(getUnbookableReason('2025-03-22', makeConfig({ disabledDays: [6] }), window)).toBe('DISABLED_WEEKDAY');
+    });
+
+    it('rejects a blocked date', () => {
+        expect(getUnbookableReason('2025-03-20', makeConfig({ blockedDates: ['2025-03-20'] }), window)).toBe('BLOCKED_DATE');
+    });
+
+    it('rejects a holiday that blocks leave', () => {
+        const config = makeConfig({
+            holidayCalendars: [{
+                id: 'c1',
+                name: 'Public',
+                enabled: true,
+                holidays: [{ id: 'h1', name: 'Holi', date: '2025-03-14', recurrence: 'YEARLY', blocksLeave: true }],
+            }],
+        });
+        const wideWindow = { ...window, startDate: '2025-03-12' };
+        expect(getUnbookableReason('2025-03-14', config, wideWindow)).toBe('HOLIDAY');
+    });
+
+    it('allows a holiday that does not block leave or sits in a disabled calendar', () => {
+        const holiday = { id: 'h1', name: 'Founders Day', date: '2025-03-20', recurrence: 'NONE' as const, blocksLeave: false };
+        const config = makeConfig({
+            holidayCalendars: [
+                { id: 'c1', name: 'Company', enabled: true, holidays: [holiday] },
+                { id: 'c2', name: 'Old', enabled: false, holidays: [{ ...holiday, id: 'h2', blocksLeave: true }] },
+            ],
+        });
+        expect(getUnbookableReason('2025-03-20', config, window)).toBeNull();
+    });
+});
+
+describe('getNextWindowOpening', () => {
+    it('returns the coming opening day and time in the org time zone', () => {
+        // Sunday 16 March 2025, 03:30 in Kolkata
+        expect(getNextWindowOpening(makeConfig(), WEDNESDAY).toISOString()).toBe('2025-03-15T22:00:00.000Z');
+    });
+
+    it('moves to the following week once the opening has passed', () => {
+        const justOpened = new Date('2025-03-15T22:00:00Z');
+        expect(getNextWindowOpening(makeConfig(), justOpened).toISOString()).toBe('2025-03-22T22:00:00.000Z');
+    });
+
+    it('honours a different opening day and time', () => {
+        const config = makeConfig({ openingDay: 1, openingTime: '09:00' });
+        // Monday 17 March 2025, 09:00 in Kolkata
+        expect(getNextWindowOpening(config, WEDNESDAY).toISOString()).toBe('2025-03-17T03:30:00.000Z');
+    });
+});
+
+describe('window opening boundary', () => {
+    describe('in Asia/Kolkata', () => {
+        // Sunday 16 March 2025, 03:30 in Kolkata is 22:00Z the day before
+        const beforeOpening = new Date('2025-03-15T21:59:00Z');
+        const afterOpening = new Date('2025-03-15T22:01:00Z');
+
+        it('keeps the previous day as today until the opening time', () => {
+            expect(getBookingWindow(makeConfig(), beforeOpening)).toEqual({
+                today: '2025-03-15',
+                startDate: '2025-03-19',
+                endDate: '2025-03-16',
+            });
+        });
+
+        it('moves today and the window on once the opening time passes', () => {
+            expect(getBookingWindow(makeConfig(), afterOpening)).toEqual({
+                today: '2025-03-16',
+                startDate: '2025-03-20',
+                endDate: '2025-03-16',
+            });
+        });
+
+        it('counts down to the same opening until it passes', () => {
+            expect(getNextWindowOpening(makeConfig(), beforeOpening).toISOString()).toBe('2025-03-15T22:00:00.000Z');
+            expect(getNextWindowOpening(makeConfig(), afterOpening).toISOString()).toBe('2025-03-22T22:00:00.000Z');
+        });
+    });
+
+    describe('in America/New_York', () => {
+        const config = makeConfig({ timeZone: 'America/New_York', weekRange: '2_WEEKS' });
+
+        // Clocks go forward at 02:00 on Sunday 9 March 2025, so 03:30 is EDT (UTC-4)
+        it('opens at 03:30 EDT on the spring-forward Sunday', () => {
+            expect(getBookingWindow(config, new Date('2025-03-09T07:29:00Z')).today).toBe('2025-03-08');
+            expect(getBookingWindow(config, new Date('2025-03-09T07:31:00Z')).today).toBe('2025-03-09');
+            expect(getNextWindowOpening(config, new Date('2025-03-08T17:00:00Z')).toISOString()).toBe('2025-03-09T07:30:00.000Z');
+        });
+
+        // Clocks go back at 02:00 on Sunday 2 November 2025, so 03:30 is EST (UTC-5)
+        it('opens at 03:30 EST on the fall-back Sunday', () => {
+            expect(getBookingWindow(config, new Date('2025-11-02T08:29:00Z')).today).toBe('2025-11-01');
+            expect(getBookingWindow(config, new Date('2025-11-02T08:31:00Z')).today).toBe('2025-11-02');
+            expect(getNextWindowOpening(config, new Date('2025-11-01T16:00:00Z')).toISOString()).toBe('2025-11-02T08:30:00.000Z');
+        });
+
+        it('moves an opening time inside the spring-forward gap to the end of the gap', () => {
+            const gapConfig = { ...config, openingTime: '02:30' };
+            // 02:30 does not exist that night; the window opens at 03:30 EDT
+            expect(getNextWindowOpening(gapConfig, new Date('2025-03-08T17:00:00Z')).toISOString()).toBe('2025-03-09T07:30:00.000Z');
+            expect(getBookingWindow(gapConfig, new Date('2025-03-09T06:59:00Z')).today).toBe('2025-03-08');
+            expect(getBookingWindow(gapConfig, new Date('2025-03-09T07:00:00Z')).today).toBe('2025-03-09');
+        });
+
+        it('uses the first 01:30 on the fall-back night', () => {
+            const repeatConfig = { ...config, openingTime: '01:30' };
+            expect(getNextWindowOpening(repeatConfig, new Date('2025-11-01T16:00:00Z')).toISOString()).toBe('2025-11-02T05:30:00.000Z');
+        });
+    });
+});
@@ -0,0 +1,181 @@
+import { Config, WeekRange } from '../types';
+import { BOOKING_CONSTANTS } from './constants';
+import { isBlockingHoliday } from './holidays';
+
+// Booking policy shared by every screen that lets someone pick a leave date.
+// All functions are pure: they take the config and the current instant ("now")
+// so admins and users always see exactly the same window.
+
+export type UnbookableReason = 'BEFORE_NOTICE' | 'AFTER_WINDOW' | 'DISABLED_WEEKDAY' | 'BLOCKED_DATE' | 'HOLIDAY';
+
+export interface BookingWindow {
+    today: string;     // "Virtual today" in YYYY-MM-DD, after applying the opening-time rule
+    startDate: string; // First bookable date (today + notice days)
+    endDate: string;   // Last bookable date, derived from weekRange
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateString = (date: Date): string => date.toISOString().split('T')[0];
+
+const parseDateString = (dateString: string): Date => {
+    const [year, month, day] = dateString.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day));
+};
+
+const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_MS);
+
+const getOpeningDay = (config: Config): number => config.openingDay ?? BOOKING_CONSTANTS.WEEKLY_RESET_DAY;
+
+const getOpeningTime = (config: Config): { hour: number; minute: number } => {
+    const [hour, minute] = (config.openingTime || BOOKING_CONSTANTS.WEEKLY_RESET_TIME).split(':').map(Number);
+    return { hour, minute };
+};
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+    let formatter = formatterCache.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric',
+        });
+        formatterCache.set(timeZone, formatter);
+    }
+    return formatter;
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+    try {
+        getFormatter(timeZone);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+export const getOrgTimeZone = (config: Config): string =>
+    config.timeZone && isValidTimeZone(config.timeZone) ? config.timeZone : BOOKING_CONSTANTS.DEFAULT_TIME_ZONE;
+
+// Wall-clock time in the organisation's zone, expressed as a UTC-based Date so
+// getUTC* accessors return local fields. Goes through Intl so DST is honoured.
+const toOrgWallClock = (now: Date, timeZone: string): Date => {
+    const parts: Record<string, number> = {};
+    for (const part of getFormatter(timeZone).formatToParts(now)) {
+        if (part.type !== 'literal') parts[part.type] = Number(part.value);
+    }
+    return new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second));
+};
+
+// Inverse of toOrgWallClock. The offset is re-evaluated at the first guess so
+// a wall-clock time on the far side of a DST transition resolves correctly.
+// A time skipped by the spring-forward gap moves forward by the gap, as Date
+// does; a repeated autumn time resolves to its first occurrence.
+const fromOrgWallClock = (wallClockMs: number, timeZone: string): Date => {
+    const offsetAt = (instantMs: number) => toOrgWallClock(new Date(instantMs), timeZone).getTime() - instantMs;
+    const offset = offsetAt(wallClockMs - offsetAt(wallClockMs));
+    const check = offsetAt(wallClockMs - offset);
+    return new Date(wallClockMs - (offset === check ? offset : Math.min(offset, check)));
+};
+
+// The calendar date in the organisation's zone, without the opening-time rule.
+// Use this rather than the UTC date wherever "today" is compared with dates.
+export const getOrgToday = (config: Config, now: Date = new Date()): string =>
+    toDateString(toOrgWallClock(now, getOrgTimeZone(config)));
+
+const getVirtualToday = (config: Config, now: Date): Date => {
+    const wallClock = toOrgWallClock(now, getOrgTimeZone(config));
+    const { hour, minute } = getOpeningTime(config);
+
+    const isBeforeOpening =
+        wallClock.getUTCDay() === getOpeningDay(config) &&
+        (wallClock.getUTCHours() < hour || (wallClock.getUTCHours() === hour && wallClock.getUTCMinutes() < minute));
+
+    const today = new Date(Date.UTC(wallClock.getUTCFullYear(), wallClock.getUTCMonth(), wallClock.getUTCDate()));
+    // On the opening day before the opening time we stay on the previous day's schedule
+    return isBeforeOpening ? addDays(today, -1) : today;
+};
+
+const getWindowEnd = (today: Date, weekRange: WeekRange): Date => {
+    const daysToNextSunday = (7 - today.getUTCDay()) % 7;
+
+    switch (weekRange) {
+        case '2_WEEKS':
+            return addDays(today, daysToNextSunday + 7);
+        case '3_WEEKS':
+            return addDays(today, daysToNextSunday + 14);
+        case '1_MONTH':
+            // Monthly works calendar-wise: up to the last day of the current month
+            return new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() + 1, 0));
+        case '1_WEEK':
+        default:
+            return addDays(today, daysToNextSunday);
+    }
+};
+
+export const getBookingWindow = (config: Config, now: Date = new Date()): BookingWindow => {
+    const today = getVirtualToday(config, now);
+    const minNoticeDays = config.minNoticeDays ?? BOOKING_CONSTANTS.MIN_NOTICE_DAYS;
+
+    return {
+        today: toDateString(today),
+        startDate: toDateString(addDays(today, minNoticeDays)),
+        endDate: toDateString(getWindowEnd(today, config.weekRange)),
+    };
+};
+
+// Returns why a date cannot be booked, or null when it is inside the window
+// and allowed by the config. Per-user rules (existing leaves, weekly limits)
+// and slot availability are checked by the caller.
+export const getUnbookableReason = (date: string, config: Config, window: BookingWindow): UnbookableReason | null => {
+    if (date < window.startDate) return 'BEFORE_NOTICE';
+    if (date > window.endDate) return 'AFTER_WINDOW';
+    if (config.disabledDays?.includes(parseDateString(date).getUTCDay())) return 'DISABLED_WEEKDAY';
+    if (config.blockedDates?.includes(date)) return 'BLOCKED_DATE';
+    if (isBlockingHoliday(config, date)) return 'HOLIDAY';
+    return null;
+};
+
+export const describeUnbookableReason = (reason: UnbookableReason): string => {
+    switch (reason) {
+        case 'BEFORE_NOTICE':
+            return 'This date is within the minimum notice period.';
+        case 'AFTER_WINDOW':
+            return 'This date is not open for booking yet.';
+        case 'DISABLED_WEEKDAY':
+            return 'Leave applications are not allowed on this day of the week.';
+        case 'BLOCKED_DATE':
+            return 'This date is strictly blocked by the system configuration.';
+        case 'HOLIDAY':
+            return 'This date is a holiday and leave cannot be booked on it.';
+    }
+};
+
+// The next instant at which the weekly opening day/time is reached, i.e. when
+// a fresh booking window opens.
+export const getNextWindowOpening = (config: Config, now: Date = new Date()): Date => {
+    const timeZone = getOrgTimeZone(config);
+    const wallClock = toOrgWallClock(now, timeZone);
+    const { hour, minute } = getOpeningTime(config);
+    const daysAhead = (getOpeningDay(config) - wallClock.getUTCDay() + 7) % 7;
+
+    let opening = fromOrgWallClock(Date.UTC(wallClock.getUTCFullYear(), wallClock.getUTCMonth(), wallClock.getUTCDate() + daysAhead, hour, minute), timeZone);
+    if (opening.getTime() <= now.getTime()) {
+        opening = fromOrgWallClock(Date.UTC(wallClock.getUTCFullYear(), wallClock.getUTCMonth(), wallClock.getUTCDate() + daysAhead + 7, hour, minute), timeZone);
+    }
+    return opening;
+};
+
+// The instant a wall-clock date and time (YYYY-MM-DD, HH:mm) occurs in the
+// organisation's zone, e.g. for exporting shift times to other calendars.
+export const getOrgInstant = (config: Config, date: string, time: string): Date => {
+    const [hour, minute] = time.split(':').map(Number);
+    return fromOrgWallClock(parseDateString(date).getTime() + (hour * 60 + minute) * 60 * 1000, getOrgTimeZone(config));
+};
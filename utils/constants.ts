@@ -1,7 +1,16 @@
+import { LeaveType } from '../types';
 
 export const BOOKING_CONSTANTS = {
   MIN_NOTICE_DAYS: 4,
   WEEKLY_RESET_DAY: 0, // 0 = Sunday
-  WEEKLY_RESET_TIME: '03:30', // IST Time
-  IST_OFFSET_MS: 5.5 * 60 * 60 * 1000,
+  WEEKLY_RESET_TIME: '03:30', // In the organisation time zone
+  DEFAULT_TIME_ZONE: 'Asia/Kolkata',
 };
+
+// Used until an admin saves a leave-type list in Settings
+export const DEFAULT_LEAVE_TYPES: LeaveType[] = [
+  { id: 'casual', name: 'Casual', color: '#3b82f6', minNoticeDays: null, consumesSlot: true },
+  { id: 'sick', name: 'Sick', color: '#ef4444', minNoticeDays: 0, consumesSlot: false },
+  { id: 'comp-off', name: 'Comp-off', color: '#8b5cf6', minNoticeDays: null, consumesSlot: true },
+  { id: 'unpaid', name: 'Unpaid', color: '#6b7280', minNoticeDays: null, consumesSlot: true },
+];
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsvRows, toCsv } from './csv';
+
+describe('toCsv', () => {
+    it('quotes cells containing commas, quotes or line breaks', () => {
+        expect(toCsv(['a', 'b'], [['x,y', 'say "hi"'], ['one\ntwo', 3]])).toBe('a,b\r\n"x,y","say ""hi"""\r\n"one\ntwo",3');
+    });
+
+    it.each(['=SUM(A1:A2)', '+1', '-1', '@cmd', '\tx', '\rx'])('keeps %j from being read as a formula', value => {
+        const [cell] = parseCsvRows(toCsv(['Reason'], [[value]]))[1].cells;
+        expect(cell).toBe(`'${value}`);
+    });
+
+    it('leaves numbers and ordinary text alone', () => {
+        expect(toCsv(['n', 's'], [[-5, 'Family - wedding']])).toBe('n,s\r\n-5,Family - wedding');
+    });
+});
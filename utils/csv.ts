@@ -0,0 +1,85 @@
+export type CsvCell = string | number | boolean | null | undefined;
+
+// Spreadsheet apps run text starting with one of these as a formula, so user
+// input such as a leave reason is prefixed with a quote to keep it as text.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export const neutralizeFormula = (value: string): string => (FORMULA_PREFIX.test(value) ? `'${value}` : value);
+
+// Quotes a cell when it contains a delimiter, quote or line break (RFC 4180)
+const escapeCell = (cell: CsvCell): string => {
+    const value = cell === null || cell === undefined ? '' : typeof cell === 'string' ? neutralizeFormula(cell) : String(cell);
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const toCsv = (header: string[], rows: CsvCell[][]): string =>
+    [header, ...rows].map(row => row.map(escapeCell).join(',')).join('\r\n');
+
+export const downloadCsv = (filename: string, csv: string) => {
+    // The BOM makes Excel open UTF-8 files with the right encoding
+    const blob = new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+export interface CsvRow {
+    line: number; // 1-based line of the file the row starts on
+    cells: string[];
+}
+
+// Reads RFC 4180 CSV into rows of cells. Quoted cells may contain commas,
+// doubled quotes and line breaks; blank lines are skipped, so each row keeps
+// the line it came from for error messages.
+export const parseCsvRows = (text: string): CsvRow[] => {
+    const rows: CsvRow[] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+    let line = 1;
+    let rowLine = 1;
+    const input = text.replace(/^\uFEFF/, '');
+
+    const endRow = () => {
+        row.push(cell);
+        if (row.some(c => c.trim() !== '')) rows.push({ line: rowLine, cells: row });
+        row = [];
+        cell = '';
+    };
+
+    for (let i = 0; i < input.length; i++) {
+        const ch = input[i];
+        if (ch === '\n' || (ch === '\r' && input[i + 1] !== '\n')) line++;
+        if (inQuotes) {
+            if (ch === '"' && input[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (ch === '"') {
+                inQuotes = false;
+            } else {
+                cell += ch;
+            }
+        } else if (ch === '"') {
+            inQuotes = true;
+        } else if (ch === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && input[i + 1] === '\n') {
+                i++;
+                line++;
+            }
+            endRow();
+            rowLine = line;
+        } else {
+            cell += ch;
+        }
+    }
+    endRow();
+    return rows;
+};
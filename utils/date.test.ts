@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, getDaysBetween, getWeekday, getWeekStart } from './date';
+
+describe('week helpers', () => {
+    it('returns the Monday of the week, treating Sunday as its last day', () => {
+        expect(getWeekStart('2025-03-10')).toBe('2025-03-10');
+        expect(getWeekStart('2025-03-13')).toBe('2025-03-10');
+        expect(getWeekStart('2025-03-16')).toBe('2025-03-10');
+    });
+
+    it('reads the weekday of the date itself, whatever the local zone', () => {
+        expect(getWeekday('2025-03-16')).toBe(0);
+        expect(getWeekday('2025-03-15')).toBe(6);
+    });
+
+    it('adds days across month and year ends', () => {
+        expect(addDays('2025-02-27', 2)).toBe('2025-03-01');
+        expect(addDays('2025-01-01', -1)).toBe('2024-12-31');
+    });
+
+    it('counts whole days between dates in either direction', () => {
+        expect(getDaysBetween('2025-02-27', '2025-03-01')).toBe(2);
+        expect(getDaysBetween('2025-03-31', '2025-03-24')).toBe(-7);
+    });
+});
@@ -41,3 +41,33 @@ export const formatDateExtended = (dateString: string): string => {
 
     return `${d}/${m}/${y} (${verbose})`;
 };
+
+// Every YYYY-MM-DD date from start to end inclusive, in order regardless of
+// which argument is earlier.
+export const getDatesInRange = (startDate: string, endDate: string): string[] => {
+    const [from, to] = startDate <= endDate ? [startDate, endDate] : [endDate, startDate];
+    const dates: string[] = [];
+    const cursor = new Date(`${from}T00:00:00Z`);
+    const last = new Date(`${to}T00:00:00Z`);
+    while (cursor <= last) {
+        dates.push(cursor.toISOString().split('T')[0]);
+        cursor.setUTCDate(cursor.getUTCDate() + 1);
+    }
+    return dates;
+};
+
+export const addDays = (date: string, days: number): string => {
+    const d = new Date(`${date}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + days);
+    return d.toISOString().split('T')[0];
+};
+
+// Whole days from `from` to `to`; negative when `to` is earlier
+export const getDaysBetween = (from: string, to: string): number =>
+    Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / (24 * 60 * 60 * 1000));
+
+// 0 for Sunday, as with Date.getDay
+export const getWeekday = (date: string): number => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+// Monday of the week containing the date
+export const getWeekStart = (date: string): string => addDays(date, -((getWeekday(date) + 6) % 7));
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { parseHolidaysFromCsv, parseHolidaysFromIcs } from './holidays';
+
+const ics = (...events: string[][]) =>
+    ['BEGIN:VCALENDAR', ...events.flatMap(e => ['BEGIN:VEVENT', ...e, 'END:VEVENT']), 'END:VCALENDAR'].join('\r\n');
+
+describe('parseHolidaysFromIcs', () => {
+    it('imports every day of a multi-day event, with DTEND exclusive', () => {
+        const holidays = parseHolidaysFromIcs(
+            ics(['SUMMARY:Festival', 'DTSTART;VALUE=DATE:20251020', 'DTEND;VALUE=DATE:20251023']),
+            true
+        );
+        expect(holidays.map(h => [h.name, h.date])).toEqual([
+            ['Festival', '2025-10-20'],
+            ['Festival', '2025-10-21'],
+            ['Festival', '2025-10-22'],
+        ]);
+    });
+
+    it('imports a single day when DTEND is missing or the next day', () => {
+        const holidays = parseHolidaysFromIcs(
+            ics(
+                ['SUMMARY:Republic Day', 'DTSTART;VALUE=DATE:20250126', 'RRULE:FREQ=YEARLY'],
+                ['SUMMARY:Holi', 'DTSTART;VALUE=DATE:20250314', 'DTEND;VALUE=DATE:20250315']
+            ),
+            false
+        );
+        expect(holidays.map(h => [h.date, h.recurrence])).toEqual([
+            ['2025-01-26', 'YEARLY'],
+            ['2025-03-14', 'NONE'],
+        ]);
+    });
+
+    it('keeps the last day of a timed event that ends part-way through it', () => {
+        const holidays = parseHolidaysFromIcs(
+            ics(['SUMMARY:Offsite', 'DTSTART:20250310T090000', 'DTEND:20250311T170000']),
+            true
+        );
+        expect(holidays.map(h => h.date)).toEqual(['2025-03-10', '2025-03-11']);
+    });
+});
+
+describe('parseHolidaysFromCsv', () => {
+    it('reports invalid rows by their line in the file', () => {
+        const csv = [
+            'Name,Date',
+            '',
+            'Holi,14/03/2025',
+            '"Multi',
+            'line",not a date',
+            '',
+            'Diwali,2025-10-20',
+            'Broken,',
+        ].join('\n');
+        const { holidays, invalidRows } = parseHolidaysFromCsv(csv, true);
+        expect(holidays.map(h => h.date)).toEqual(['2025-03-14', '2025-10-20']);
+        expect(invalidRows).toEqual([4, 8]);
+    });
+
+    it('counts CRLF line endings once', () => {
+        const { invalidRows } = parseHolidaysFromCsv('Name,Date\r\n\r\nBroken,x\r\n', true);
+        expect(invalidRows).toEqual([3]);
+    });
+});
@@ -0,0 +1,130 @@
+import { Config, Holiday, HolidayCalendar } from '../types';
+import { parseCsvRows } from './csv';
+import { getDatesInRange } from './date';
+
+// Holidays come from the enabled calendars in the config. Yearly holidays
+// repeat on the same month and day from their first date onwards.
+
+export const getEnabledCalendars = (config: Config): HolidayCalendar[] =>
+    (config.holidayCalendars ?? []).filter(c => c.enabled);
+
+const occursOn = (holiday: Holiday, date: string): boolean => {
+    if (holiday.recurrence === 'YEARLY') {
+        return date >= holiday.date && date.slice(5) === holiday.date.slice(5);
+    }
+    return date === holiday.date;
+};
+
+export const getHolidaysOn = (config: Config, date: string): Holiday[] =>
+    getEnabledCalendars(config).flatMap(c => c.holidays.filter(h => occursOn(h, date)));
+
+export const isBlockingHoliday = (config: Config, date: string): boolean =>
+    getHolidaysOn(config, date).some(h => h.blocksLeave);
+
+// Holiday names per date for a range, for calendars and reports
+export const getHolidaysInRange = (config: Config, startDate: string, endDate: string): Map<string, Holiday[]> => {
+    const result = new Map<string, Holiday[]>();
+    if (getEnabledCalendars(config).length === 0) return result;
+    getDatesInRange(startDate, endDate).forEach(date => {
+        const holidays = getHolidaysOn(config, date);
+        if (holidays.length > 0) result.set(date, holidays);
+    });
+    return result;
+};
+
+export const formatHolidayNames = (holidays: Holiday[]): string =>
+    Array.from(new Set(holidays.map(h => h.name))).join(', ');
+
+const createHolidayId = () => `h${Date.now().toString(36)}${Math.random().toString(36).slice(2, 7)}`;
+
+const toIsoDate = (value: string): string | null => {
+    const trimmed = value.trim();
+    let match = trimmed.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+    if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+    // DD/MM/YYYY, the format used across the app
+    match = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+    if (match) return `${match[3]}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+    return null;
+};
+
+const unescapeIcsText = (value: string): string =>
+    value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+
+// The dates an event covers. DTEND is exclusive, as for all-day events; an end
+// part-way through a day still counts that day.
+const getEventDates = (start: string, end?: string, endValue?: string): string[] => {
+    if (!end || end <= start) return [start];
+    const endsAtMidnight = !/T\d{4}/.test(endValue ?? '') || /T0{4}/.test(endValue ?? '');
+    return getDatesInRange(start, end).filter(date => date < end || !endsAtMidnight);
+};
+
+// Reads the all-day events of an .ics file. Events with a yearly RRULE become
+// yearly holidays; anything else is imported as one-off dates. An event
+// spanning several days becomes one holiday per day.
+export const parseHolidaysFromIcs = (text: string, blocksLeave: boolean): Holiday[] => {
+    const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    const holidays: Holiday[] = [];
+    let current: { name?: string; date?: string; endDate?: string; endValue?: string; yearly?: boolean } | null = null;
+
+    for (const line of lines) {
+        if (line === 'BEGIN:VEVENT') {
+            current = {};
+        } else if (line === 'END:VEVENT') {
+            if (current?.name && current.date) {
+                const { name, yearly } = current;
+                getEventDates(current.date, current.endDate, current.endValue).forEach(date =>
+                    holidays.push({
+                        id: createHolidayId(),
+                        name,
+                        date,
+                        recurrence: yearly ? 'YEARLY' : 'NONE',
+                        blocksLeave,
+                    })
+                );
+            }
+            current = null;
+        } else if (current) {
+            const separator = line.indexOf(':');
+            if (separator < 0) continue;
+            const property = line.slice(0, separator).split(';')[0].toUpperCase();
+            const value = line.slice(separator + 1);
+            if (property === 'SUMMARY') current.name = unescapeIcsText(value);
+            if (property === 'DTSTART') current.date = toIsoDate(value) ?? undefined;
+            if (property === 'DTEND') {
+                current.endDate = toIsoDate(value) ?? undefined;
+                current.endValue = value;
+            }
+            if (property === 'RRULE') current.yearly = /FREQ=YEARLY/i.test(value);
+        }
+    }
+    return holidays;
+};
+
+const isTruthy = (value?: string) => /^(y|yes|true|1)$/i.test((value ?? '').trim());
+
+// Columns: name, date, then optional "recurring" and "blocks leave" flags
+// (yes/no). A header row is detected and skipped; rows with an unreadable
+// date are reported back by their line in the file so the admin can fix it.
+export const parseHolidaysFromCsv = (text: string, blocksLeave: boolean): { holidays: Holiday[]; invalidRows: number[] } => {
+    const rows = parseCsvRows(text);
+    const holidays: Holiday[] = [];
+    const invalidRows: number[] = [];
+
+    rows.forEach(({ line, cells }, index) => {
+        const [name = '', date = '', recurring, blocks] = cells;
+        const isoDate = toIsoDate(date);
+        if (!isoDate || !name.trim()) {
+            // The header, or a malformed line
+            if (index > 0 || isoDate) invalidRows.push(line);
+            return;
+        }
+        holidays.push({
+            id: createHolidayId(),
+            name: name.trim(),
+            date: isoDate,
+            recurrence: isTruthy(recurring) ? 'YEARLY' : 'NONE',
+            blocksLeave: blocks === undefined || blocks.trim() === '' ? blocksLeave : isTruthy(blocks),
+        });
+    });
+    return { holidays, invalidRows };
+};
@@ -0,0 +1,130 @@
+import { Config, Leave, LeaveStatus, Shift } from '../types';
+import { getOrgInstant } from './booking';
+import { addDays, getDatesInRange } from './date';
+import { getLeaveTypeOf } from './leaves';
+
+// Minimal iCalendar (RFC 5545) writer for leave and shift exports. Timed
+// events are written in UTC so no VTIMEZONE block is needed.
+
+export interface CalendarEvent {
+    uid: string;
+    summary: string;
+    description?: string;
+    start: Date | string; // Date for timed events, YYYY-MM-DD for all-day ones
+    end: Date | string;   // Exclusive, as iCalendar expects
+}
+
+// A weekly assignment as returned by getShiftsForWeek
+export interface ShiftAssignment {
+    userId: string;
+    userName?: string;
+    shift: Shift;
+}
+
+const UID_DOMAIN = 'offday';
+
+const escapeText = (value: string): string =>
+    value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 characters are continued on the next line after a space
+const foldLine = (line: string): string => {
+    if (line.length <= 75) return line;
+    const parts = [line.slice(0, 75)];
+    for (let i = 75; i < line.length; i += 74) parts.push(' ' + line.slice(i, i + 74));
+    return parts.join('\r\n');
+};
+
+const formatUtc = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const formatDateValue = (date: string): string => date.replace(/-/g, '');
+
+const formatEvent = (event: CalendarEvent, stamp: string): string[] => {
+    const time = (name: string, value: Date | string) =>
+        typeof value === 'string' ? `${name};VALUE=DATE:${formatDateValue(value)}` : `${name}:${formatUtc(value)}`;
+    return [
+        'BEGIN:VEVENT',
+        `UID:${event.uid}@${UID_DOMAIN}`,
+        `DTSTAMP:${stamp}`,
+        time('DTSTART', event.start),
+        time('DTEND', event.end),
+        `SUMMARY:${escapeText(event.summary)}`,
+        ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+        'TRANSP:' + (typeof event.start === 'string' ? 'TRANSPARENT' : 'OPAQUE'),
+        'END:VEVENT',
+    ];
+};
+
+export const buildCalendar = (name: string, events: CalendarEvent[], now: Date = new Date()): string => {
+    const stamp = formatUtc(now);
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//OffDay//Leave Management//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(name)}`,
+        ...events.flatMap(event => formatEvent(event, stamp)),
+        'END:VCALENDAR',
+    ];
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// Approved leaves only; pending and rejected requests are not days off yet.
+// The leave id is the UID so a subscribed calendar updates the same event.
+export const getLeaveEvents = (leaves: Leave[], config: Config, includeName = false): CalendarEvent[] =>
+    leaves
+        .filter(l => l.status === LeaveStatus.APPROVED)
+        .map(leave => {
+            const typeName = getLeaveTypeOf(leave, config).name;
+            return {
+                uid: `leave-${leave.id}`,
+                summary: includeName ? `${leave.userName} - ${typeName} leave` : `Off: ${typeName} leave`,
+                description: `Shift: ${leave.shiftName}`,
+                start: leave.date,
+                end: addDays(leave.date, 1),
+            };
+        });
+
+// One event per working day of the week. Days the user is on approved leave
+// or that are disabled in the config are skipped. Shifts without times are
+// exported as all-day events; an end time before the start means the shift
+// runs past midnight.
+export const getShiftEvents = (
+    assignment: ShiftAssignment,
+    weekStart: string,
+    config: Config,
+    leaveDates: Set<string> = new Set(),
+    includeName = false
+): CalendarEvent[] => {
+    const { shift } = assignment;
+    return getDatesInRange(weekStart, addDays(weekStart, 6))
+        .filter(date => !leaveDates.has(date) && !config.disabledDays?.includes(new Date(`${date}T00:00:00Z`).getUTCDay()))
+        .map(date => {
+            const base = {
+                uid: `shift-${assignment.userId}-${date}`,
+                summary: includeName && assignment.userName ? `${assignment.userName} - ${shift.name} shift` : `${shift.name} shift`,
+            };
+            if (!shift.startTime || !shift.endTime) {
+                return { ...base, start: date, end: addDays(date, 1) };
+            }
+            const endDate = shift.endTime <= shift.startTime ? addDays(date, 1) : date;
+            return {
+                ...base,
+                description: `${shift.startTime} - ${shift.endTime}`,
+                start: getOrgInstant(config, date, shift.startTime),
+                end: getOrgInstant(config, endDate, shift.endTime),
+            };
+        });
+};
+
+export const downloadIcs = (filename: string, content: string) => {
+    const blob = new Blob([content], { type: 'text/calendar;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
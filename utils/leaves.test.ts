@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { Leave, LeaveStatus } from '../types';
+import { groupLeaves } from './leaves';
+
+const makeLeave = (id: string, date: string, status: LeaveStatus): Leave =>
+    ({ id, groupId: 'g1', userId: 'u1', date, status } as Leave);
+
+describe('groupLeaves', () => {
+    it('reports a group with approved and rejected days as partially approved', () => {
+        const [group] = groupLeaves([
+            makeLeave('l2', '2025-03-18', LeaveStatus.REJECTED),
+            makeLeave('l1', '2025-03-17', LeaveStatus.APPROVED),
+        ]);
+        expect(group.status).toBe('PARTIALLY APPROVED');
+        expect(group.startDate).toBe('2025-03-17');
+        expect(group.endDate).toBe('2025-03-18');
+    });
+
+    it('keeps pending ahead of any decided days', () => {
+        const [group] = groupLeaves([
+            makeLeave('l1', '2025-03-17', LeaveStatus.APPROVED),
+            makeLeave('l2', '2025-03-18', LeaveStatus.PENDING),
+        ]);
+        expect(group.status).toBe(LeaveStatus.PENDING);
+    });
+
+    it('reports a fully rejected group as rejected', () => {
+        const [group] = groupLeaves([
+            makeLeave('l1', '2025-03-17', LeaveStatus.REJECTED),
+            makeLeave('l2', '2025-03-18', LeaveStatus.REJECTED),
+        ]);
+        expect(group.status).toBe(LeaveStatus.REJECTED);
+    });
+});
@@ -0,0 +1,69 @@
+import { Config, Leave, LeaveBalance, LeaveStatus, LeaveType } from '../types';
+import { DEFAULT_LEAVE_TYPES } from './constants';
+
+export interface LeaveGroup {
+    id: string;       // groupId for multi-day requests, otherwise the single leave's id
+    groupId?: string;
+    leaves: Leave[];  // Sorted by date
+    startDate: string;
+    endDate: string;
+    status: LeaveGroupStatus;
+}
+
+// Days of one request can be decided separately, e.g. when a single day is
+// revoked, so a group may be left with approved and rejected days.
+export type LeaveGroupStatus = LeaveStatus | 'PARTIALLY APPROVED';
+
+const getGroupStatus = (leaves: Leave[]): LeaveGroupStatus => {
+    if (leaves.some(l => l.status === LeaveStatus.PENDING)) return LeaveStatus.PENDING;
+    if (leaves.every(l => l.status === LeaveStatus.APPROVED)) return LeaveStatus.APPROVED;
+    if (leaves.some(l => l.status === LeaveStatus.APPROVED)) return 'PARTIALLY APPROVED';
+    return LeaveStatus.REJECTED;
+};
+
+// Collapses the days of a multi-day request into one item, keeping the order
+// in which each group first appears in the input.
+export const groupLeaves = (leaves: Leave[]): LeaveGroup[] => {
+    const groups = new Map<string, Leave[]>();
+    leaves.forEach(leave => {
+        const key = leave.groupId || leave.id;
+        groups.set(key, [...(groups.get(key) || []), leave]);
+    });
+
+    return Array.from(groups.entries()).map(([id, members]) => {
+        const sorted = [...members].sort((a, b) => a.date.localeCompare(b.date));
+        return {
+            id,
+            groupId: sorted[0].groupId,
+            leaves: sorted,
+            startDate: sorted[0].date,
+            endDate: sorted[sorted.length - 1].date,
+            status: getGroupStatus(sorted),
+        };
+    });
+};
+
+export const getLeaveTypes = (config: Config): LeaveType[] =>
+    config.leaveTypes && config.leaveTypes.length > 0 ? config.leaveTypes : DEFAULT_LEAVE_TYPES;
+
+export const findLeaveType = (config: Config, leaveTypeId?: string): LeaveType | undefined =>
+    getLeaveTypes(config).find(t => t.id === leaveTypeId);
+
+// Leaves created before types existed have no leaveTypeId and are shown as the
+// first configured type.
+export const getLeaveTypeOf = (leave: Leave, config: Config): LeaveType =>
+    findLeaveType(config, leave.leaveTypeId) ?? getLeaveTypes(config)[0];
+
+// The booking rules a given type is subject to, so the helpers in
+// utils/booking.ts can be used unchanged.
+export const applyLeaveTypeRules = (config: Config, leaveType?: LeaveType): Config =>
+    leaveType && leaveType.minNoticeDays !== null ? { ...config, minNoticeDays: leaveType.minNoticeDays } : config;
+
+// Monthly accrual produces fractional balances
+export const formatDays = (days: number): string => {
+    const rounded = Math.round(days * 10) / 10;
+    return `${rounded} day${rounded === 1 ? '' : 's'}`;
+};
+
+// Days still free to book once pending requests are approved
+export const getAvailableDays = (balance: LeaveBalance): number => balance.remaining - balance.pending;
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { Config, Leave, LeaveStatus, LotteryDraw } from '../types';
+import { hashLotterySeed, runLottery, verifyLotteryDraw } from './lottery';
+
+const config: Config = {
+    disabledDays: [],
+    weekRange: '1_WEEK',
+    shifts: [{ id: 's1', name: 'Morning', slots: 1 }],
+    openingDay: 0,
+    openingTime: '03:30',
+    timeZone: 'Asia/Kolkata',
+    minNoticeDays: 4,
+    maxLeavesPerWeek: null,
+    blockedDates: [],
+    lottery: { enabled: true, ballotHours: 24, historyDays: 90 },
+};
+
+const ballotLeaves = ['u1', 'u2', 'u3'].map(userId => ({
+    id: `l-${userId}`,
+    userId,
+    userName: userId,
+    date: '2025-03-20',
+    shiftId: 's1',
+    status: LeaveStatus.PENDING,
+    ballot: true,
+} as Leave));
+
+const NOW = new Date('2025-03-17T00:00:00Z');
+
+const makeDraw = async (seed: string, overrides: Partial<LotteryDraw> = {}): Promise<LotteryDraw> => ({
+    id: 'd1',
+    seed,
+    seedHash: await hashLotterySeed(seed),
+    seedCommittedAt: '2025-03-15T22:00:00Z',
+    ballotStart: '2025-03-15T22:00:00Z',
+    ballotEnd: '2025-03-16T22:00:00Z',
+    entries: runLottery(config, ballotLeaves, seed, NOW),
+    runById: 'admin',
+    runByName: 'Admin',
+    createdAt: '2025-03-17T00:00:00Z',
+    ...overrides,
+});
+
+describe('runLottery', () => {
+    it('gives the same result for the same seed', () => {
+        expect(runLottery(config, ballotLeaves, 'abc', NOW)).toEqual(runLottery(config, ballotLeaves, 'abc', NOW));
+    });
+
+    it('approves no more requests than the shift has slots', () => {
+        const entries = runLottery(config, ballotLeaves, 'abc', NOW);
+        expect(entries.filter(e => e.status === LeaveStatus.APPROVED)).toHaveLength(1);
+    });
+});
+
+describe('verifyLotteryDraw', () => {
+    it('accepts a draw whose seed matches its commitment', async () => {
+        expect(await verifyLotteryDraw(await makeDraw('abc'))).toBeNull();
+    });
+
+    it('rejects a seed that does not match the committed hash', async () => {
+        const draw = await makeDraw('abc', { seedHash: await hashLotterySeed('other') });
+        expect(await verifyLotteryDraw(draw)).toBe('SEED_MISMATCH');
+    });
+
+    it('rejects a commitment made after the ballot closed', async () => {
+        const draw = await makeDraw('abc', { seedCommittedAt: '2025-03-16T22:00:00Z' });
+        expect(await verifyLotteryDraw(draw)).toBe('LATE_COMMITMENT');
+    });
+
+    it('rejects a result that a re-run does not reproduce', async () => {
+        const draw = await makeDraw('abc');
+        const tampered = {
+            ...draw,
+            entries: draw.entries.map(e => ({
+                ...e,
+                status: e.status === LeaveStatus.APPROVED ? LeaveStatus.REJECTED : LeaveStatus.APPROVED,
+            })) as LotteryDraw['entries'],
+        };
+        expect(await verifyLotteryDraw(tampered)).toBe('RESULT_MISMATCH');
+    });
+});
@@ -0,0 +1,171 @@
+import { Config, Leave, LeaveStatus, LotteryDraw, LotteryEntry } from '../types';
+import { getNextWindowOpening } from './booking';
+import { getLeaveTypeOf } from './leaves';
+import { getShiftSlots } from './slots';
+
+// Lottery mode replaces first-come-first-served for the requests made in the
+// first hours after the booking window opens. The draw is fully determined by
+// its seed and entries. The server commits to the seed (by its hash) when the
+// ballot opens and runs the draw with this same algorithm once it closes, so
+// the browser only previews and verifies; it never picks the seed.
+
+export const DEFAULT_BALLOT_HOURS = 24;
+export const DEFAULT_LOTTERY_HISTORY_DAYS = 90;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface BallotPeriod {
+    start: Date; // The most recent window opening
+    end: Date;
+}
+
+export const isLotteryEnabled = (config: Config): boolean => !!config.lottery?.enabled;
+
+export const getBallotPeriod = (config: Config, now: Date = new Date()): BallotPeriod => {
+    // The opening following "a week ago" is the latest one at or before now
+    const start = getNextWindowOpening(config, new Date(now.getTime() - 7 * DAY_MS));
+    const ballotHours = config.lottery?.ballotHours ?? DEFAULT_BALLOT_HOURS;
+    return { start, end: new Date(start.getTime() + ballotHours * HOUR_MS) };
+};
+
+export const isBallotOpen = (config: Config, now: Date = new Date()): boolean => {
+    if (!isLotteryEnabled(config)) return false;
+    const { start, end } = getBallotPeriod(config, now);
+    return now >= start && now < end;
+};
+
+// cyrb53-style string hash, folded to 32 bits for the PRNG state
+const hashSeed = (seed: string): number => {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < seed.length; i++) {
+        const ch = seed.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    return h1 >>> 0;
+};
+
+// mulberry32: small, fast and identical in every JS engine
+const createRandom = (seed: string): (() => number) => {
+    let state = hashSeed(seed);
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+// Hex SHA-256 of the seed, as published in the ballot's commitment
+export const hashLotterySeed = async (seed: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(seed));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const getBallotLeaves = (leaves: Leave[]): Leave[] =>
+    leaves.filter(l => l.ballot && l.status === LeaveStatus.PENDING);
+
+// Fewer approved days off recently means a better chance in the draw
+export const getLotteryWeight = (userId: string, leaves: Leave[], config: Config, ballotStart: Date): number => {
+    const historyDays = config.lottery?.historyDays ?? DEFAULT_LOTTERY_HISTORY_DAYS;
+    const to = ballotStart.toISOString().split('T')[0];
+    const from = new Date(ballotStart.getTime() - historyDays * DAY_MS).toISOString().split('T')[0];
+    const recentDays = leaves.filter(l =>
+        l.userId === userId && l.status === LeaveStatus.APPROVED && l.date >= from && l.date < to
+    ).length;
+    return 1 / (1 + recentDays);
+};
+
+// Free slots per "date|shiftId" once leaves approved outside the draw are counted
+const getCapacity = (config: Config, leaves: Leave[], ballotLeaves: Leave[]): Map<string, number> => {
+    const capacity = new Map<string, number>();
+    ballotLeaves.forEach(l => {
+        const shift = config.shifts.find(s => s.id === l.shiftId);
+        capacity.set(`${l.date}|${l.shiftId}`, shift ? getShiftSlots(config, shift, l.date) : 0);
+    });
+    leaves.forEach(l => {
+        const key = `${l.date}|${l.shiftId}`;
+        if (l.status !== LeaveStatus.APPROVED || !capacity.has(key) || !getLeaveTypeOf(l, config).consumesSlot) return;
+        capacity.set(key, (capacity.get(key) ?? 0) - 1);
+    });
+    return capacity;
+};
+
+// Weighted random order (Efraimidis-Spirakis): each entry draws u^(1/weight)
+// and the highest keys go first. Entries are sorted by leave id beforehand so
+// the result does not depend on the order the server returned them in.
+const rankEntries = (entries: Omit<LotteryEntry, 'rank' | 'status'>[], seed: string) => {
+    const random = createRandom(seed);
+    return [...entries]
+        .sort((a, b) => a.leaveId.localeCompare(b.leaveId))
+        .map(entry => ({ entry, key: Math.pow(random(), 1 / entry.weight) }))
+        .sort((a, b) => b.key - a.key)
+        .map(({ entry }, index) => ({ ...entry, rank: index + 1 }));
+};
+
+const allocate = (ranked: Omit<LotteryEntry, 'status'>[]): LotteryEntry[] => {
+    const remaining = new Map<string, number>();
+    ranked.forEach(e => remaining.set(`${e.date}|${e.shiftId}`, e.capacity));
+    return ranked.map(entry => {
+        if (!entry.consumesSlot) return { ...entry, status: LeaveStatus.APPROVED };
+        const key = `${entry.date}|${entry.shiftId}`;
+        const free = remaining.get(key) ?? 0;
+        if (free <= 0) return { ...entry, status: LeaveStatus.REJECTED };
+        remaining.set(key, free - 1);
+        return { ...entry, status: LeaveStatus.APPROVED };
+    });
+};
+
+export const runLottery = (config: Config, leaves: Leave[], seed: string, now: Date = new Date()): LotteryEntry[] => {
+    const ballotLeaves = getBallotLeaves(leaves);
+    const { start } = getBallotPeriod(config, now);
+    const capacity = getCapacity(config, leaves, ballotLeaves);
+    const weights = new Map<string, number>();
+
+    const entries = ballotLeaves.map(l => {
+        if (!weights.has(l.userId)) weights.set(l.userId, getLotteryWeight(l.userId, leaves, config, start));
+        return {
+            leaveId: l.id,
+            userId: l.userId,
+            userName: l.userName,
+            date: l.date,
+            shiftId: l.shiftId,
+            weight: weights.get(l.userId)!,
+            capacity: capacity.get(`${l.date}|${l.shiftId}`) ?? 0,
+            consumesSlot: getLeaveTypeOf(l, config).consumesSlot,
+        };
+    });
+    return allocate(rankEntries(entries, seed));
+};
+
+export type LotteryVerificationFailure = 'SEED_MISMATCH' | 'LATE_COMMITMENT' | 'RESULT_MISMATCH';
+
+// Checks a published draw from its own record: the revealed seed must match
+// the hash committed before the ballot closed, and re-running the draw must
+// give the published outcome. Weights and capacities come from the record,
+// not today's data. Returns null when the draw checks out.
+export const verifyLotteryDraw = async (draw: LotteryDraw): Promise<LotteryVerificationFailure | null> => {
+    if ((await hashLotterySeed(draw.seed)) !== draw.seedHash) return 'SEED_MISMATCH';
+    if (new Date(draw.seedCommittedAt) >= new Date(draw.ballotEnd)) return 'LATE_COMMITMENT';
+    const recomputed = allocate(rankEntries(draw.entries.map(({ rank, status, ...rest }) => rest), draw.seed));
+    const matches = recomputed.every(r => {
+        const original = draw.entries.find(e => e.leaveId === r.leaveId);
+        return original?.rank === r.rank && original.status === r.status;
+    });
+    return matches ? null : 'RESULT_MISMATCH';
+};
+
+export const describeLotteryVerificationFailure = (failure: LotteryVerificationFailure): string => {
+    switch (failure) {
+        case 'SEED_MISMATCH':
+            return 'The revealed seed does not match the hash published when the ballot opened.';
+        case 'LATE_COMMITMENT':
+            return 'The seed was not committed until after the ballot closed.';
+        case 'RESULT_MISMATCH':
+            return 'The published result does not match a re-run of the draw.';
+    }
+};
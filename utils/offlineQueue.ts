@@ -0,0 +1,99 @@
+// Leave submissions and cancellations made without a connection are kept in
+// localStorage, per user, and replayed in order once the device is back online.
+
+export type QueuedAction =
+    | { type: 'CREATE_LEAVE'; payload: { userId: string; date: string; shiftId: string; leaveTypeId?: string; creatorId?: string } }
+    | { type: 'CREATE_LEAVE_RANGE'; payload: { userId: string; dates: string[]; shiftId: string; leaveTypeId?: string; creatorId?: string } }
+    | { type: 'CANCEL_LEAVE'; payload: { leaveId: string } };
+
+export type QueuedItem = QueuedAction & {
+    id: string;
+    label: string; // Shown to the user, e.g. "Leave on 12/05/2025"
+    queuedAt: string;
+};
+
+// Fired on window whenever a queue changes so every subscriber can re-read it
+export const OFFLINE_QUEUE_EVENT = 'offline-queue-changed';
+
+const getStorageKey = (userId: string) => `offlineQueue:${userId}`;
+
+export const getQueue = (userId: string): QueuedItem[] => {
+    try {
+        return JSON.parse(localStorage.getItem(getStorageKey(userId)) || '[]');
+    } catch {
+        return [];
+    }
+};
+
+const saveQueue = (userId: string, queue: QueuedItem[]) => {
+    if (queue.length > 0) {
+        localStorage.setItem(getStorageKey(userId), JSON.stringify(queue));
+    } else {
+        localStorage.removeItem(getStorageKey(userId));
+    }
+    window.dispatchEvent(new Event(OFFLINE_QUEUE_EVENT));
+};
+
+export const enqueueAction = (userId: string, action: QueuedAction, label: string): QueuedItem => {
+    const item = { ...action, id: `q${Date.now()}${Math.random().toString(36).slice(2, 6)}`, label, queuedAt: new Date().toISOString() } as QueuedItem;
+    saveQueue(userId, [...getQueue(userId), item]);
+    return item;
+};
+
+export const removeQueuedAction = (userId: string, id: string) => {
+    saveQueue(userId, getQueue(userId).filter(item => item.id !== id));
+};
+
+// Every tab shares the queue, so replaying takes a per-user lock first; a tab
+// that finds it held leaves the replay to the holder. Web Locks are released
+// when the tab closes. Without them a localStorage lease stands in, renewed
+// while held and ignored once it has expired.
+const LEASE_TTL_MS = 30 * 1000;
+
+type QueueLease = { ownerId: string; expiresAt: number };
+
+const getLockName = (userId: string) => `offlineQueueLock:${userId}`;
+
+const readLease = (userId: string): QueueLease | null => {
+    try {
+        return JSON.parse(localStorage.getItem(getLockName(userId)) || 'null');
+    } catch {
+        return null;
+    }
+};
+
+const writeLease = (userId: string, ownerId: string) =>
+    localStorage.setItem(getLockName(userId), JSON.stringify({ ownerId, expiresAt: Date.now() + LEASE_TTL_MS }));
+
+const withQueueLease = async <T>(userId: string, task: () => Promise<T>): Promise<T | null> => {
+    const lease = readLease(userId);
+    if (lease && lease.expiresAt > Date.now()) return null;
+
+    const ownerId = `${Date.now()}${Math.random().toString(36).slice(2, 8)}`;
+    writeLease(userId, ownerId);
+    // Two tabs may have seen the lease free at once; the last write wins
+    if (readLease(userId)?.ownerId !== ownerId) return null;
+
+    const renewal = setInterval(() => writeLease(userId, ownerId), LEASE_TTL_MS / 3);
+    try {
+        return await task();
+    } finally {
+        clearInterval(renewal);
+        if (readLease(userId)?.ownerId === ownerId) localStorage.removeItem(getLockName(userId));
+    }
+};
+
+// Runs `task` while holding the user's queue lock, or returns null without
+// running it when another tab holds the lock.
+export const withQueueLock = async <T>(userId: string, task: () => Promise<T>): Promise<T | null> => {
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+        return await navigator.locks.request(getLockName(userId), { ifAvailable: true }, lock => (lock ? task() : null));
+    }
+    return withQueueLease(userId, task);
+};
+
+export const isOffline = (): boolean => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+// Axios sets `response` whenever the server answered, so its absence means the
+// request never got through and is worth retrying later.
+export const isNetworkError = (error: any): boolean => !!error && !error.response;
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { Permission, Role, User } from '../types';
+import { coversPermissionScope } from './permissions';
+
+const makeUser = (id: string, permissions: Permission[], shiftIds: string[] = [], role = Role.USER): User =>
+    ({ id, name: id, role, permissions: { roleIds: [], permissions, shiftIds } } as unknown as User);
+
+const approver = (id: string, shiftIds: string[] = []) => makeUser(id, [Permission.APPROVE_LEAVE], shiftIds);
+
+describe('coversPermissionScope', () => {
+    it('requires the permission itself', () => {
+        expect(coversPermissionScope(makeUser('u1', []), approver('a1', ['s1']), undefined, Permission.APPROVE_LEAVE)).toBe(false);
+    });
+
+    it('accepts a scope that includes every shift of the other user', () => {
+        expect(coversPermissionScope(approver('a1', ['s1', 's2']), approver('a2', ['s1']), undefined, Permission.APPROVE_LEAVE)).toBe(true);
+        expect(coversPermissionScope(approver('a1'), approver('a2', ['s1']), undefined, Permission.APPROVE_LEAVE)).toBe(true);
+    });
+
+    it('rejects a scope that misses one of the other user\'s shifts', () => {
+        expect(coversPermissionScope(approver('a1', ['s1']), approver('a2', ['s1', 's2']), undefined, Permission.APPROVE_LEAVE)).toBe(false);
+    });
+
+    it('only lets unscoped approvers cover an unscoped approver or an admin', () => {
+        const admin = makeUser('admin', [], [], Role.ADMIN);
+        expect(coversPermissionScope(approver('a1', ['s1']), approver('a2'), undefined, Permission.APPROVE_LEAVE)).toBe(false);
+        expect(coversPermissionScope(approver('a1', ['s1']), admin, undefined, Permission.APPROVE_LEAVE)).toBe(false);
+        expect(coversPermissionScope(approver('a1'), admin, undefined, Permission.APPROVE_LEAVE)).toBe(true);
+    });
+});
@@ -0,0 +1,84 @@
+import { Config, Permission, PermissionRole, Role, User, UserPermissions } from '../types';
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+    [Permission.VIEW_ANALYTICS]: 'View analytics',
+    [Permission.APPROVE_LEAVE]: 'Approve and reject leave',
+    [Permission.CREATE_LEAVE_FOR_OTHERS]: 'Create leave for others',
+    [Permission.VIEW_REPORTS]: 'View and export reports',
+    [Permission.MANAGE_SHIFTS]: 'Manage shift rosters',
+    [Permission.MANAGE_USERS]: 'Manage users',
+    [Permission.RESET_PASSWORDS]: 'Reset passwords',
+    [Permission.MANAGE_ENTITLEMENTS]: 'Manage entitlements',
+    [Permission.EDIT_CONFIG]: 'Edit settings',
+    [Permission.VIEW_ACTIVITY]: 'View activity log',
+    [Permission.MANAGE_PERMISSIONS]: 'Manage roles and permissions',
+};
+
+// Permissions that act on a shift's leaves or roster and can be limited to
+// some shifts through UserPermissions.shiftIds
+export const SHIFT_SCOPED_PERMISSIONS: Permission[] = [
+    Permission.APPROVE_LEAVE,
+    Permission.CREATE_LEAVE_FOR_OTHERS,
+    Permission.VIEW_REPORTS,
+    Permission.MANAGE_SHIFTS,
+];
+
+export const DEFAULT_PERMISSION_ROLES: PermissionRole[] = [
+    { id: 'leave-approver', name: 'Leave Approver', permissions: [Permission.APPROVE_LEAVE, Permission.CREATE_LEAVE_FOR_OTHERS] },
+    { id: 'shift-manager', name: 'Shift Manager', permissions: [Permission.MANAGE_SHIFTS, Permission.APPROVE_LEAVE, Permission.VIEW_REPORTS] },
+    { id: 'hr', name: 'HR', permissions: [Permission.MANAGE_USERS, Permission.RESET_PASSWORDS, Permission.MANAGE_ENTITLEMENTS, Permission.VIEW_REPORTS] },
+    { id: 'analyst', name: 'Analyst', permissions: [Permission.VIEW_ANALYTICS, Permission.VIEW_REPORTS] },
+];
+
+export const getPermissionRoles = (config?: Config): PermissionRole[] => config?.permissionRoles ?? DEFAULT_PERMISSION_ROLES;
+
+// What each tab id in the old User.allowedTabs list used to unlock
+const LEGACY_TAB_PERMISSIONS: Record<string, Permission[]> = {
+    analytics: [Permission.VIEW_ANALYTICS],
+    management: [Permission.APPROVE_LEAVE],
+    create: [Permission.CREATE_LEAVE_FOR_OTHERS],
+    users: [Permission.MANAGE_USERS, Permission.RESET_PASSWORDS],
+    reports: [Permission.VIEW_REPORTS],
+    settings: [Permission.EDIT_CONFIG],
+    shifts: [Permission.MANAGE_SHIFTS],
+    entitlements: [Permission.MANAGE_ENTITLEMENTS],
+    activity: [Permission.VIEW_ACTIVITY],
+    roles: [Permission.MANAGE_PERMISSIONS],
+};
+
+// Users saved before roles existed only have allowedTabs
+export const getUserPermissions = (user: User): UserPermissions =>
+    user.permissions ?? {
+        roleIds: [],
+        permissions: Array.from(new Set((user.allowedTabs ?? []).flatMap(tab => LEGACY_TAB_PERMISSIONS[tab] ?? []))),
+        shiftIds: [],
+    };
+
+export const getGrantedPermissions = (user: User, config?: Config): Set<Permission> => {
+    if (user.role === Role.ADMIN) return new Set(Object.values(Permission));
+    const { roleIds, permissions } = getUserPermissions(user);
+    const roles = getPermissionRoles(config).filter(r => roleIds.includes(r.id));
+    return new Set([...permissions, ...roles.flatMap(r => r.permissions)]);
+};
+
+// Without a shift, answers whether the user holds the permission for any
+// shift at all; with one, whether it covers that shift.
+export const hasPermission = (user: User, config: Config | undefined, permission: Permission, shiftId?: string): boolean => {
+    if (!getGrantedPermissions(user, config).has(permission)) return false;
+    if (user.role === Role.ADMIN || !shiftId || !SHIFT_SCOPED_PERMISSIONS.includes(permission)) return true;
+    const { shiftIds } = getUserPermissions(user);
+    return shiftIds.length === 0 || shiftIds.includes(shiftId);
+};
+
+const holdsForEveryShift = (user: User, permission: Permission): boolean =>
+    user.role === Role.ADMIN || !SHIFT_SCOPED_PERMISSIONS.includes(permission) || getUserPermissions(user).shiftIds.length === 0;
+
+// Whether `user` holds the permission on every shift `other` holds it on, e.g.
+// so a deputy can act on the whole queue they are covering.
+export const coversPermissionScope = (user: User, other: User, config: Config | undefined, permission: Permission): boolean => {
+    if (!hasPermission(user, config, permission)) return false;
+    if (holdsForEveryShift(user, permission) || !hasPermission(other, config, permission)) return true;
+    if (holdsForEveryShift(other, permission)) return false;
+    const { shiftIds } = getUserPermissions(user);
+    return getUserPermissions(other).shiftIds.every(id => shiftIds.includes(id));
+};
@@ -0,0 +1,33 @@
+// Comparing a week's draft roster with what staff currently see
+
+export interface RosterEntry {
+    userId: string;
+    shiftId: string;
+}
+
+export interface RosterChange {
+    userId: string;
+    fromShiftId: string | null; // null when the user had no shift
+    toShiftId: string | null;   // null when the draft takes the user off
+}
+
+export const getRosterChanges = (published: RosterEntry[], draft: RosterEntry[]): RosterChange[] => {
+    const before = new Map(published.map(e => [e.userId, e.shiftId]));
+    const after = new Map(draft.map(e => [e.userId, e.shiftId]));
+    const userIds = new Set([...before.keys(), ...after.keys()]);
+    return Array.from(userIds)
+        .map(userId => ({ userId, fromShiftId: before.get(userId) ?? null, toShiftId: after.get(userId) ?? null }))
+        .filter(c => c.fromShiftId !== c.toShiftId);
+};
+
+// e.g. "3 moved, 1 added, 2 removed"
+export const summariseRosterChanges = (changes: RosterChange[]): string => {
+    const added = changes.filter(c => !c.fromShiftId).length;
+    const removed = changes.filter(c => !c.toShiftId).length;
+    const moved = changes.length - added - removed;
+    return [
+        moved > 0 && `${moved} moved`,
+        added > 0 && `${added} added`,
+        removed > 0 && `${removed} removed`,
+    ].filter(Boolean).join(', ');
+};
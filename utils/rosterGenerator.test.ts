@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { Leave, LeaveStatus, ShiftPreferences, StaffingRule, User } from '../types';
+import { DEFAULT_ROSTER_GENERATOR_SETTINGS, generateRoster, RosterGeneratorInput } from './rosterGenerator';
+
+const makeUser = (id: string, shiftPreferences?: ShiftPreferences): User => ({ id, name: id, shiftPreferences } as User);
+
+const minimum = (shiftId: string, minStaff: number): StaffingRule => ({ id: `r-${shiftId}`, shiftId, weekdays: [], minStaff });
+
+// Monday 17 March 2025
+const makeInput = (overrides: Partial<RosterGeneratorInput> = {}): RosterGeneratorInput => ({
+    weekStart: '2025-03-17',
+    users: [],
+    shifts: [{ id: 'day', name: 'Day', slots: 1 }, { id: 'night', name: 'Night', slots: 1 }],
+    leaves: [],
+    staffingRules: [],
+    settings: DEFAULT_ROSTER_GENERATOR_SETTINGS,
+    history: [],
+    ...overrides,
+});
+
+const shiftOf = (assignments: { userId: string; shiftId: string }[], userId: string) =>
+    assignments.find(a => a.userId === userId)?.shiftId;
+
+describe('generateRoster', () => {
+    it('keeps a user with approved leave on the shift the leave was booked on', () => {
+        const leave = { id: 'l1', userId: 'ann', date: '2025-03-18', shiftId: 'night', status: LeaveStatus.APPROVED } as Leave;
+        const { assignments } = generateRoster(makeInput({
+            users: [makeUser('ann', { preferredShiftIds: ['day'], avoidShiftIds: [] })],
+            leaves: [leave],
+        }));
+        expect(shiftOf(assignments, 'ann')).toBe('night');
+    });
+
+    it('meets each minimum before spreading users by preference', () => {
+        const prefersDay = { preferredShiftIds: ['day'], avoidShiftIds: [] };
+        const { assignments, issues } = generateRoster(makeInput({
+            users: ['ann', 'bob', 'cat'].map(id => makeUser(id, prefersDay)),
+            staffingRules: [minimum('night', 2)],
+        }));
+        expect(assignments.filter(a => a.shiftId === 'night')).toHaveLength(2);
+        expect(assignments.filter(a => a.shiftId === 'day')).toHaveLength(1);
+        expect(issues.filter(i => i.kind === 'STAFFING')).toEqual([]);
+    });
+
+    it('reports a broken night limit and an avoided shift when nobody else can cover', () => {
+        const { assignments, issues } = generateRoster(makeInput({
+            users: [makeUser('ann', { preferredShiftIds: [], avoidShiftIds: ['night'] })],
+            staffingRules: [minimum('night', 1)],
+            settings: { ...DEFAULT_ROSTER_GENERATOR_SETTINGS, nightShiftIds: ['night'], maxConsecutiveNightWeeks: 2 },
+            history: [[{ userId: 'ann', shiftId: 'night' }], [{ userId: 'ann', shiftId: 'night' }]],
+        }));
+        expect(shiftOf(assignments, 'ann')).toBe('night');
+        expect(issues.map(i => i.kind).sort()).toEqual(['NIGHTS', 'PREFERENCE']);
+        expect(issues.find(i => i.kind === 'NIGHTS')?.message).toContain('3 night weeks in a row (limit 2)');
+    });
+
+    it('gives an unpopular shift to whoever has worked it least recently', () => {
+        const history = [1, 2, 3].map(() => [{ userId: 'ann', shiftId: 'night' }, { userId: 'bob', shiftId: 'day' }]);
+        const { assignments } = generateRoster(makeInput({
+            users: [makeUser('ann'), makeUser('bob')],
+            staffingRules: [minimum('night', 1)],
+            settings: { ...DEFAULT_ROSTER_GENERATOR_SETTINGS, unpopularShiftIds: ['night'] },
+            history,
+        }));
+        expect(shiftOf(assignments, 'bob')).toBe('night');
+        expect(shiftOf(assignments, 'ann')).toBe('day');
+    });
+});
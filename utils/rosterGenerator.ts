@@ -0,0 +1,193 @@
+import { Leave, LeaveStatus, RosterGeneratorSettings, Shift, StaffingRule, User } from '../types';
+import { addDays, formatDate, getDatesInRange } from './date';
+import { RosterEntry } from './roster';
+import { getCoverage, getMinimumStaff, isUnderstaffed } from './staffing';
+
+// Builds one week's roster with a greedy pass in the browser; no solver
+// service is involved. The order of work is:
+//   1. Users with approved leave this week stay on the shift the leave was
+//      booked against, so their leave keeps its slot.
+//   2. The shift furthest below its minimum staffing takes the cheapest
+//      remaining user, until every minimum is met or nobody is left.
+//   3. Everyone else goes where they cost least, which keeps shifts balanced.
+// Cost covers preferences, unpopular shifts already worked in the history
+// weeks and the consecutive night limit. Whatever cannot be honoured is
+// returned as an issue rather than failing the whole roster.
+
+export type RosterIssueKind = 'STAFFING' | 'NIGHTS' | 'PREFERENCE' | 'LEAVE';
+
+export interface RosterIssue {
+    kind: RosterIssueKind;
+    message: string;
+    userId?: string;
+    shiftId?: string;
+}
+
+export interface RosterGeneratorInput {
+    weekStart: string; // Monday, YYYY-MM-DD
+    users: User[]; // Everyone to place on the roster
+    shifts: Shift[];
+    leaves: Leave[];
+    staffingRules: StaffingRule[];
+    settings: RosterGeneratorSettings;
+    history: RosterEntry[][]; // Published rosters of earlier weeks, most recent first
+}
+
+export interface GeneratedRoster {
+    assignments: RosterEntry[];
+    issues: RosterIssue[];
+}
+
+export const DEFAULT_ROSTER_GENERATOR_SETTINGS: RosterGeneratorSettings = {
+    nightShiftIds: [],
+    maxConsecutiveNightWeeks: 0,
+    unpopularShiftIds: [],
+};
+
+// Weeks of published rosters the generator looks back over
+export const ROSTER_HISTORY_WEEKS = 8;
+
+const VIOLATION_COST = 100;
+
+export const generateRoster = (input: RosterGeneratorInput): GeneratedRoster => {
+    const { weekStart, shifts, staffingRules, settings, history } = input;
+    const dates = getDatesInRange(weekStart, addDays(weekStart, 6));
+    const users = [...input.users].sort((a, b) => a.name.localeCompare(b.name));
+    const shiftIds = new Set(shifts.map(s => s.id));
+    const shiftName = (shiftId: string) => shifts.find(s => s.id === shiftId)?.name ?? 'Unknown shift';
+    const nightShiftIds = new Set(settings.nightShiftIds);
+    const unpopularShiftIds = new Set(settings.unpopularShiftIds);
+
+    const approvedLeaves = input.leaves.filter(l => l.status === LeaveStatus.APPROVED && l.date >= dates[0] && l.date <= dates[6]);
+    const leavesByUser = new Map<string, Leave[]>();
+    approvedLeaves.forEach(l => leavesByUser.set(l.userId, [...(leavesByUser.get(l.userId) ?? []), l]));
+
+    // Weeks in a row on a night shift, counting back from last week
+    const nightStreak = (userId: string) => {
+        let streak = 0;
+        for (const week of history) {
+            const shiftId = week.find(e => e.userId === userId)?.shiftId;
+            if (!shiftId || !nightShiftIds.has(shiftId)) break;
+            streak++;
+        }
+        return streak;
+    };
+    const unpopularWeeks = (userId: string) =>
+        history.filter(week => week.some(e => e.userId === userId && unpopularShiftIds.has(e.shiftId))).length;
+
+    const streaks = new Map(users.map(u => [u.id, nightStreak(u.id)]));
+    const burdens = new Map(users.map(u => [u.id, unpopularWeeks(u.id)]));
+
+    const breaksNightLimit = (userId: string, shiftId: string) =>
+        nightShiftIds.has(shiftId) && settings.maxConsecutiveNightWeeks > 0 && (streaks.get(userId) ?? 0) >= settings.maxConsecutiveNightWeeks;
+
+    const cost = (user: User, shiftId: string) => {
+        const preferences = user.shiftPreferences;
+        let total = 0;
+        if (preferences?.preferredShiftIds.includes(shiftId)) total -= 5;
+        else if (preferences?.preferredShiftIds.length) total += 2;
+        if (preferences?.avoidShiftIds.includes(shiftId)) total += 8;
+        if (unpopularShiftIds.has(shiftId)) total += 2 + 3 * (burdens.get(user.id) ?? 0);
+        if (breaksNightLimit(user.id, shiftId)) total += VIOLATION_COST;
+        return total;
+    };
+
+    const assignments = new Map<string, string>();
+    const issues: RosterIssue[] = [];
+
+    // 1. Approved leave pins the user to the shift it was booked on
+    users.forEach(user => {
+        const leaves = (leavesByUser.get(user.id) ?? []).filter(l => shiftIds.has(l.shiftId));
+        if (leaves.length === 0) return;
+        const counts = new Map<string, number>();
+        leaves.forEach(l => counts.set(l.shiftId, (counts.get(l.shiftId) ?? 0) + 1));
+        const [shiftId] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+        assignments.set(user.id, shiftId);
+        if (counts.size > 1) {
+            issues.push({
+                kind: 'LEAVE',
+                userId: user.id,
+                shiftId,
+                message: `${user.name} has approved leave on more than one shift this week; placed on ${shiftName(shiftId)}, where most of it is.`,
+            });
+        }
+    });
+
+    const onLeave = (userId: string, date: string) => (leavesByUser.get(userId) ?? []).some(l => l.date === date);
+    const staffOn = (shiftId: string) => Array.from(assignments.entries()).filter(([, s]) => s === shiftId).map(([userId]) => userId);
+
+    // How far the shift is below its minimum on its worst day
+    const deficit = (shiftId: string) => {
+        const staff = staffOn(shiftId);
+        return Math.max(0, ...dates.map(date =>
+            getMinimumStaff(staffingRules, shiftId, date) - staff.filter(userId => !onLeave(userId, date)).length
+        ));
+    };
+
+    const cheapest = (candidates: User[], shiftId: string) =>
+        candidates.reduce<User | null>((best, user) => (!best || cost(user, shiftId) < cost(best, shiftId) ? user : best), null);
+
+    // 2. Fill minimum staffing, neediest shift first
+    let unassigned = users.filter(u => !assignments.has(u.id));
+    for (;;) {
+        const [neediest] = shifts
+            .map(s => ({ shiftId: s.id, deficit: deficit(s.id) }))
+            .filter(s => s.deficit > 0)
+            .sort((a, b) => b.deficit - a.deficit);
+        if (!neediest || unassigned.length === 0) break;
+        const user = cheapest(unassigned, neediest.shiftId)!;
+        assignments.set(user.id, neediest.shiftId);
+        unassigned = unassigned.filter(u => u.id !== user.id);
+    }
+
+    // 3. Spread everyone else, weighing how full each shift already is
+    // against its minimum. The most burdened users choose first so they are
+    // the ones who get to avoid unpopular shifts.
+    const target = (shiftId: string) => Math.max(1, ...dates.map(date => getMinimumStaff(staffingRules, shiftId, date)));
+    [...unassigned]
+        .sort((a, b) => (burdens.get(b.id) ?? 0) - (burdens.get(a.id) ?? 0))
+        .forEach(user => {
+            const best = shifts.reduce<{ shiftId: string; total: number } | null>((current, shift) => {
+                const total = cost(user, shift.id) + (4 * staffOn(shift.id).length) / target(shift.id);
+                return !current || total < current.total ? { shiftId: shift.id, total } : current;
+            }, null);
+            if (best) assignments.set(user.id, best.shiftId);
+        });
+
+    // Explain everything that could not be honoured
+    users.forEach(user => {
+        const shiftId = assignments.get(user.id);
+        if (!shiftId) return;
+        if (breaksNightLimit(user.id, shiftId)) {
+            issues.push({
+                kind: 'NIGHTS',
+                userId: user.id,
+                shiftId,
+                message: `${user.name} is on ${shiftName(shiftId)}, making ${(streaks.get(user.id) ?? 0) + 1} night weeks in a row (limit ${settings.maxConsecutiveNightWeeks})` +
+                    (leavesByUser.has(user.id) ? ' to keep their approved leave on that shift.' : ' because no one else could cover it.'),
+            });
+        }
+        const preferences = user.shiftPreferences;
+        if (preferences?.avoidShiftIds.includes(shiftId)) {
+            issues.push({ kind: 'PREFERENCE', userId: user.id, shiftId, message: `${user.name} is on ${shiftName(shiftId)}, which they asked to avoid.` });
+        } else if (preferences?.preferredShiftIds.length && !preferences.preferredShiftIds.includes(shiftId)) {
+            issues.push({
+                kind: 'PREFERENCE',
+                userId: user.id,
+                shiftId,
+                message: `${user.name} asked for ${preferences.preferredShiftIds.map(shiftName).join(' or ')} but is on ${shiftName(shiftId)}.`,
+            });
+        }
+    });
+
+    const roster = Array.from(assignments.entries()).map(([userId, shiftId]) => ({ userId, shiftId }));
+    getCoverage(staffingRules, new Map([[weekStart, roster]]), input.leaves, shifts, dates)
+        .filter(isUnderstaffed)
+        .forEach(c => issues.push({
+            kind: 'STAFFING',
+            shiftId: c.shiftId,
+            message: `${shiftName(c.shiftId)} on ${formatDate(c.date)} has ${c.available} available, below the minimum of ${c.minimum}.`,
+        }));
+
+    return { assignments: roster, issues };
+};
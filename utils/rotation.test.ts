@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { RotationAssignment, RotationPattern } from '../types';
+import { getAssignmentWeek, getRotationBatches, getRotationShiftId, RotationWeek } from './rotation';
+
+// 2 weeks Morning, 1 week Night, then round again
+const pattern: RotationPattern = {
+    id: 'p1',
+    name: 'Three-week',
+    steps: [{ shiftId: 'morning', weeks: 2 }, { shiftId: 'night', weeks: 1 }],
+};
+
+// Wednesday 19 March 2025, so the rotation starts on Monday 17 March
+const ANCHOR = '2025-03-19';
+
+const assignment: RotationAssignment = {
+    id: 'a1',
+    patternId: 'p1',
+    userIds: ['ann', 'bob'],
+    anchorDate: ANCHOR,
+    overrides: [
+        { userId: 'ann', weekStart: '2025-03-24', shiftId: 'night' },
+        { userId: 'bob', weekStart: '2025-03-31', shiftId: null },
+    ],
+};
+
+describe('getRotationShiftId', () => {
+    it('starts the first step in the week containing a mid-week anchor', () => {
+        expect(getRotationShiftId(pattern, ANCHOR, '2025-03-17')).toBe('morning');
+        expect(getRotationShiftId(pattern, ANCHOR, '2025-03-24')).toBe('morning');
+        expect(getRotationShiftId(pattern, ANCHOR, '2025-03-31')).toBe('night');
+    });
+
+    it('wraps around to the first step after the last one', () => {
+        expect(getRotationShiftId(pattern, ANCHOR, '2025-04-07')).toBe('morning');
+        expect(getRotationShiftId(pattern, ANCHOR, '2025-04-21')).toBe('night');
+    });
+
+    it('gives nothing before the anchor week or for an empty pattern', () => {
+        expect(getRotationShiftId(pattern, ANCHOR, '2025-03-10')).toBeNull();
+        expect(getRotationShiftId({ ...pattern, steps: [] }, ANCHOR, '2025-03-17')).toBeNull();
+    });
+});
+
+describe('getAssignmentWeek', () => {
+    it('applies an override for that user and week only', () => {
+        expect(getAssignmentWeek(assignment, pattern, 'ann', '2025-03-24')).toMatchObject({
+            shiftId: 'night',
+            rotationShiftId: 'morning',
+            overridden: true,
+        });
+        expect(getAssignmentWeek(assignment, pattern, 'bob', '2025-03-24')).toMatchObject({ shiftId: 'morning', overridden: false });
+    });
+
+    it('takes the user off the roster for a null override', () => {
+        expect(getAssignmentWeek(assignment, pattern, 'bob', '2025-03-31')).toMatchObject({ shiftId: null, rotationShiftId: 'night' });
+    });
+
+    it('leaves weeks before the anchor alone', () => {
+        expect(getAssignmentWeek(assignment, pattern, 'ann', '2025-03-10')).toBeNull();
+    });
+});
+
+describe('getRotationBatches', () => {
+    const week = (userId: string, weekStart: string, shiftId: string | null): RotationWeek =>
+        ({ userId, weekStart, assignmentId: 'a1', shiftId, rotationShiftId: shiftId, overridden: false });
+
+    it('groups users by week and shift and lists weeks off separately', () => {
+        const { batches, removals } = getRotationBatches([
+            week('ann', '2025-03-17', 'morning'),
+            week('bob', '2025-03-17', 'morning'),
+            week('cat', '2025-03-17', 'night'),
+            week('ann', '2025-03-24', 'morning'),
+            week('bob', '2025-03-24', null),
+        ]);
+        expect(batches).toEqual([
+            { weekStart: '2025-03-17', shiftId: 'morning', userIds: ['ann', 'bob'] },
+            { weekStart: '2025-03-17', shiftId: 'night', userIds: ['cat'] },
+            { weekStart: '2025-03-24', shiftId: 'morning', userIds: ['ann'] },
+        ]);
+        expect(removals).toEqual([{ userId: 'bob', weekStart: '2025-03-24' }]);
+    });
+});
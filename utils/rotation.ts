@@ -0,0 +1,101 @@
+import { Config, RotationAssignment, RotationPattern } from '../types';
+import { addDays, getDaysBetween, getWeekStart } from './date';
+
+export const getPatternLength = (pattern: RotationPattern) => pattern.steps.reduce((sum, step) => sum + Math.max(0, step.weeks), 0);
+
+// e.g. "2w Morning → 2w Night → 1w General"
+export const describePattern = (pattern: RotationPattern, shiftNames: Map<string, string>) =>
+    pattern.steps.map(step => `${step.weeks}w ${shiftNames.get(step.shiftId) ?? 'Unknown'}`).join(' → ');
+
+// The shift the pattern gives for the week starting weekStart, or null before
+// the anchor week or for an empty pattern.
+export const getRotationShiftId = (pattern: RotationPattern, anchorDate: string, weekStart: string): string | null => {
+    const length = getPatternLength(pattern);
+    const weeksSinceAnchor = Math.round(getDaysBetween(getWeekStart(anchorDate), weekStart) / 7);
+    if (length === 0 || weeksSinceAnchor < 0) return null;
+    let position = weeksSinceAnchor % length;
+    for (const step of pattern.steps) {
+        if (position < step.weeks) return step.shiftId;
+        position -= Math.max(0, step.weeks);
+    }
+    return null;
+};
+
+// Mondays of the `count` weeks starting with the week containing fromDate
+export const getUpcomingWeeks = (fromDate: string, count: number): string[] => {
+    const first = getWeekStart(fromDate);
+    return Array.from({ length: Math.max(0, count) }, (_, i) => addDays(first, 7 * i));
+};
+
+export interface RotationWeek {
+    userId: string;
+    weekStart: string;
+    assignmentId: string;
+    shiftId: string | null; // null means no shift that week
+    rotationShiftId: string | null; // What the pattern alone would give
+    overridden: boolean;
+}
+
+export const getAssignmentWeek = (
+    assignment: RotationAssignment,
+    pattern: RotationPattern,
+    userId: string,
+    weekStart: string
+): RotationWeek | null => {
+    if (weekStart < getWeekStart(assignment.anchorDate)) return null;
+    const rotationShiftId = getRotationShiftId(pattern, assignment.anchorDate, weekStart);
+    const override = assignment.overrides.find(o => o.userId === userId && o.weekStart === weekStart);
+    return {
+        userId,
+        weekStart,
+        assignmentId: assignment.id,
+        shiftId: override ? override.shiftId : rotationShiftId,
+        rotationShiftId,
+        overridden: !!override,
+    };
+};
+
+// What the rotations say for each user in each week. A user on several
+// assignments follows the last one in the list, the same way slot overrides
+// resolve. Steps pointing at a removed shift count as a week off.
+export const getRotationSchedule = (config: Config, weekStarts: string[]): RotationWeek[] => {
+    const patterns = new Map((config.rotationPatterns ?? []).map(p => [p.id, p]));
+    const shiftIds = new Set(config.shifts.map(s => s.id));
+    const schedule = new Map<string, RotationWeek>();
+    (config.rotationAssignments ?? []).forEach(assignment => {
+        const pattern = patterns.get(assignment.patternId);
+        if (!pattern) return;
+        assignment.userIds.forEach(userId => {
+            weekStarts.forEach(weekStart => {
+                const week = getAssignmentWeek(assignment, pattern, userId, weekStart);
+                if (!week) return;
+                if (week.shiftId && !shiftIds.has(week.shiftId)) week.shiftId = null;
+                schedule.set(`${userId}|${weekStart}`, week);
+            });
+        });
+    });
+    return Array.from(schedule.values());
+};
+
+export interface RotationBatch {
+    weekStart: string;
+    shiftId: string;
+    userIds: string[];
+}
+
+// Groups the schedule into one bulk assignment per week and shift, plus the
+// user weeks that should have no shift at all.
+export const getRotationBatches = (schedule: RotationWeek[]): { batches: RotationBatch[]; removals: { userId: string; weekStart: string }[] } => {
+    const batches = new Map<string, RotationBatch>();
+    const removals: { userId: string; weekStart: string }[] = [];
+    schedule.forEach(week => {
+        if (!week.shiftId) {
+            removals.push({ userId: week.userId, weekStart: week.weekStart });
+            return;
+        }
+        const key = `${week.weekStart}|${week.shiftId}`;
+        if (!batches.has(key)) batches.set(key, { weekStart: week.weekStart, shiftId: week.shiftId, userIds: [] });
+        batches.get(key)!.userIds.push(week.userId);
+    });
+    return { batches: Array.from(batches.values()), removals };
+};
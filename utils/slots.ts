@@ -0,0 +1,56 @@
+import { Config, Leave, LeaveStatus, Shift, SlotOverride } from '../types';
+import { getWeekday } from './date';
+import { getLeaveTypeOf } from './leaves';
+
+const matchesOverride = (override: SlotOverride, shiftId: string, date: string): boolean =>
+    date >= override.startDate &&
+    date <= override.endDate &&
+    (!override.shiftId || override.shiftId === shiftId) &&
+    (override.weekdays.length === 0 || override.weekdays.includes(getWeekday(date)));
+
+export const findSlotOverride = (config: Config, shiftId: string, date: string): SlotOverride | undefined => {
+    const overrides = config.slotOverrides ?? [];
+    for (let i = overrides.length - 1; i >= 0; i--) {
+        if (matchesOverride(overrides[i], shiftId, date)) return overrides[i];
+    }
+    return undefined;
+};
+
+// Slots for a shift on a given day, after overrides
+export const getShiftSlots = (config: Config, shift: Shift, date: string): number =>
+    findSlotOverride(config, shift.id, date)?.slots ?? shift.slots;
+
+// Difference between the overridden and the usual number of slots across all
+// shifts on a day; negative when overrides take slots away.
+export const getDaySlotChange = (config: Config, date: string): number =>
+    config.shifts.reduce((change, shift) => change + getShiftSlots(config, shift, date) - shift.slots, 0);
+
+export interface SlotOverrideConflict {
+    date: string;
+    shiftId: string;
+    shiftName: string;
+    slots: number;
+    approved: number;
+}
+
+// Days from `fromDate` on where an override leaves fewer slots than leaves
+// already approved. Those leaves stay approved; the shift is just overbooked.
+export const getSlotOverrideConflicts = (config: Config, leaves: Leave[], fromDate: string): SlotOverrideConflict[] => {
+    const approved = new Map<string, number>();
+    leaves.forEach(l => {
+        if (l.status !== LeaveStatus.APPROVED || l.date < fromDate || !getLeaveTypeOf(l, config).consumesSlot) return;
+        const key = `${l.date}|${l.shiftId}`;
+        approved.set(key, (approved.get(key) ?? 0) + 1);
+    });
+
+    const conflicts: SlotOverrideConflict[] = [];
+    approved.forEach((count, key) => {
+        const [date, shiftId] = key.split('|');
+        const shift = config.shifts.find(s => s.id === shiftId);
+        const override = shift && findSlotOverride(config, shiftId, date);
+        if (shift && override && override.slots < count) {
+            conflicts.push({ date, shiftId, shiftName: shift.name, slots: override.slots, approved: count });
+        }
+    });
+    return conflicts.sort((a, b) => a.date.localeCompare(b.date) || a.shiftName.localeCompare(b.shiftName));
+};
@@ -0,0 +1,18 @@
+import writeXlsxFile from 'write-excel-file/browser';
+import { CsvCell, neutralizeFormula } from './csv';
+
+// Writes a single-sheet workbook and triggers the browser download
+export const downloadXlsx = (filename: string, sheetName: string, header: string[], rows: CsvCell[][]): Promise<void> => {
+    const data = [
+        header.map(title => ({ value: title, fontWeight: 'bold' as const })),
+        ...rows.map(row => row.map(cell => {
+            if (typeof cell === 'boolean') return String(cell);
+            return typeof cell === 'string' ? neutralizeFormula(cell) : cell;
+        })),
+    ];
+    // Size each column to its longest value so the file is readable without resizing
+    const columns = header.map((title, index) => ({
+        width: Math.max(title.length, ...rows.map(row => String(row[index] ?? '').length)) + 2,
+    }));
+    return writeXlsxFile(data, { sheet: sheetName, columns }).toFile(filename);
+};
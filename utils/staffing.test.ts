@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { Leave, LeaveStatus, Shift, StaffingRule } from '../types';
+import { getApprovalShortfalls, getCoverage, getMinimumStaff } from './staffing';
+
+const rule = (id: string, minStaff: number, weekdays: number[] = []): StaffingRule => ({ id, shiftId: 'day', weekdays, minStaff });
+
+const makeLeave = (id: string, userId: string, date: string, status = LeaveStatus.APPROVED): Leave =>
+    ({ id, userId, date, shiftId: 'day', status } as Leave);
+
+const shifts: Shift[] = [{ id: 'day', name: 'Day', slots: 2 }];
+
+// Week of Monday 17 March 2025
+const rosters = new Map([['2025-03-17', ['ann', 'bob', 'cat'].map(userId => ({ userId, shiftId: 'day' }))]]);
+
+describe('getMinimumStaff', () => {
+    it('applies weekday-specific rules only on their weekdays', () => {
+        const rules = [rule('all', 2), rule('weekend', 1, [6, 0])];
+        expect(getMinimumStaff(rules, 'day', '2025-03-22')).toBe(1);
+        expect(getMinimumStaff(rules, 'day', '2025-03-17')).toBe(2);
+    });
+
+    it('lets the last matching rule win', () => {
+        const rules = [rule('weekend', 1, [6, 0]), rule('all', 2)];
+        expect(getMinimumStaff(rules, 'day', '2025-03-22')).toBe(2);
+    });
+
+    it('is 0 when no rule matches', () => {
+        expect(getMinimumStaff([rule('weekend', 1, [6, 0])], 'day', '2025-03-17')).toBe(0);
+        expect(getMinimumStaff([rule('all', 2)], 'night', '2025-03-17')).toBe(0);
+    });
+});
+
+describe('getCoverage', () => {
+    it('only counts leave taken by users on the shift\'s roster', () => {
+        const leaves = [makeLeave('l1', 'ann', '2025-03-18'), makeLeave('l2', 'zed', '2025-03-18')];
+        const [coverage] = getCoverage([rule('all', 3)], rosters, leaves, shifts, ['2025-03-18']);
+        expect(coverage).toMatchObject({ assigned: 3, onLeave: 1, available: 2, minimum: 3 });
+    });
+
+    it('ignores leave that is not approved', () => {
+        const leaves = [makeLeave('l1', 'ann', '2025-03-18', LeaveStatus.PENDING)];
+        const [coverage] = getCoverage([], rosters, leaves, shifts, ['2025-03-18']);
+        expect(coverage.available).toBe(3);
+    });
+
+    it('treats a week without a roster as having nobody assigned', () => {
+        const [coverage] = getCoverage([rule('all', 1)], rosters, [], shifts, ['2025-03-24']);
+        expect(coverage).toMatchObject({ assigned: 0, available: 0, minimum: 1 });
+    });
+});
+
+describe('getApprovalShortfalls', () => {
+    it('counts a batch against the same shift and day together and reports it once', () => {
+        const pending = [makeLeave('l1', 'ann', '2025-03-18', LeaveStatus.PENDING), makeLeave('l2', 'bob', '2025-03-18', LeaveStatus.PENDING)];
+        const shortfalls = getApprovalShortfalls([rule('all', 2)], rosters, pending, pending);
+        expect(shortfalls).toHaveLength(1);
+        expect(shortfalls[0]).toMatchObject({ date: '2025-03-18', shiftId: 'day', available: 1, minimum: 2 });
+    });
+
+    it('allows a batch that keeps every shift at its minimum', () => {
+        const pending = [makeLeave('l1', 'ann', '2025-03-18', LeaveStatus.PENDING), makeLeave('l2', 'bob', '2025-03-19', LeaveStatus.PENDING)];
+        expect(getApprovalShortfalls([rule('all', 2)], rosters, pending, pending)).toEqual([]);
+    });
+
+    it('skips leave for users who are not on the roster', () => {
+        const pending = [makeLeave('l1', 'zed', '2025-03-18', LeaveStatus.PENDING)];
+        expect(getApprovalShortfalls([rule('all', 5)], rosters, pending, pending)).toEqual([]);
+    });
+});
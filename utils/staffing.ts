@@ -0,0 +1,83 @@
+import { Leave, LeaveStatus, Shift, StaffingRule } from '../types';
+import { getWeekday, getWeekStart } from './date';
+import { RosterEntry } from './roster';
+
+// Minimum staffing is checked against the week's roster minus approved leave.
+// Users who are not on the roster do not count towards a shift, even if their
+// leave was booked against it.
+
+// 0 when no rule applies
+export const getMinimumStaff = (rules: StaffingRule[], shiftId: string, date: string): number => {
+    const weekday = getWeekday(date);
+    const matching = rules.filter(r => r.shiftId === shiftId && (r.weekdays.length === 0 || r.weekdays.includes(weekday)));
+    return matching.length > 0 ? matching[matching.length - 1].minStaff : 0;
+};
+
+export interface ShiftCoverage {
+    date: string;
+    shiftId: string;
+    assigned: number;
+    onLeave: number;
+    available: number;
+    minimum: number;
+}
+
+export const isUnderstaffed = (coverage: ShiftCoverage) => coverage.available < coverage.minimum;
+
+export const getShiftCoverage = (
+    rules: StaffingRule[],
+    roster: RosterEntry[],
+    leaves: Leave[],
+    shiftId: string,
+    date: string
+): ShiftCoverage => {
+    const assignedIds = new Set(roster.filter(e => e.shiftId === shiftId).map(e => e.userId));
+    const onLeave = new Set(
+        leaves.filter(l => l.date === date && l.status === LeaveStatus.APPROVED && assignedIds.has(l.userId)).map(l => l.userId)
+    ).size;
+    return {
+        date,
+        shiftId,
+        assigned: assignedIds.size,
+        onLeave,
+        available: assignedIds.size - onLeave,
+        minimum: getMinimumStaff(rules, shiftId, date),
+    };
+};
+
+// Coverage for every shift on every date; rosters are keyed by week start
+export const getCoverage = (
+    rules: StaffingRule[],
+    rosters: Map<string, RosterEntry[]>,
+    leaves: Leave[],
+    shifts: Shift[],
+    dates: string[]
+): ShiftCoverage[] =>
+    dates.flatMap(date => {
+        const roster = rosters.get(getWeekStart(date)) ?? [];
+        return shifts.map(shift => getShiftCoverage(rules, roster, leaves, shift.id, date));
+    });
+
+// The shifts that would fall below their minimum if the given leaves were all
+// approved together; shifts that are already short are included too.
+export const getApprovalShortfalls = (
+    rules: StaffingRule[],
+    rosters: Map<string, RosterEntry[]>,
+    leaves: Leave[],
+    toApprove: Leave[]
+): ShiftCoverage[] => {
+    const approveIds = new Set(toApprove.map(l => l.id));
+    const afterApproval = leaves.map(l => (approveIds.has(l.id) ? { ...l, status: LeaveStatus.APPROVED } : l));
+    const checked = new Set<string>();
+    const shortfalls: ShiftCoverage[] = [];
+    toApprove.forEach(leave => {
+        const roster = rosters.get(getWeekStart(leave.date)) ?? [];
+        const shiftId = roster.find(e => e.userId === leave.userId)?.shiftId;
+        const key = `${leave.date}|${shiftId}`;
+        if (!shiftId || checked.has(key)) return;
+        checked.add(key);
+        const coverage = getShiftCoverage(rules, roster, afterApproval, shiftId, leave.date);
+        if (isUnderstaffed(coverage)) shortfalls.push(coverage);
+    });
+    return shortfalls.sort((a, b) => a.date.localeCompare(b.date));
+};
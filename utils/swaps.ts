@@ -0,0 +1,29 @@
+import { Leave, LeaveSlotInfo } from '../types';
+import { formatDate } from './date';
+
+type SwapSide = Pick<Leave, 'date' | 'shiftId' | 'shiftName'>;
+
+const hasFreeSlot = (slots: LeaveSlotInfo[], shiftId: string): boolean => {
+    const info = slots.find(s => s.shiftId === shiftId);
+    return !!info && info.availableSlots > 0;
+};
+
+// Each person keeps their own shift and takes the other's date, so a swap only
+// needs a free slot when the two shifts differ. Returns a message describing
+// the first missing slot, or null when the swap fits.
+export const getSwapSlotProblem = (
+    offered: SwapSide,
+    accepted: SwapSide,
+    slotsOnOfferedDate: LeaveSlotInfo[],
+    slotsOnAcceptedDate: LeaveSlotInfo[]
+): string | null => {
+    if (offered.shiftId === accepted.shiftId) return null;
+
+    if (!hasFreeSlot(slotsOnAcceptedDate, offered.shiftId)) {
+        return `No free ${offered.shiftName} slot on ${formatDate(accepted.date)}.`;
+    }
+    if (!hasFreeSlot(slotsOnOfferedDate, accepted.shiftId)) {
+        return `No free ${accepted.shiftName} slot on ${formatDate(offered.date)}.`;
+    }
+    return null;
+};